@@ -94,4 +94,31 @@ describe('Clock', () => {
       expect(finalTime).toEqual(initialTime + BigInt(timeToAdvanceMs));
     },
   );
+
+  it('should advance to the next timer', async () => {
+    const sender = controllerIdentity.getPrincipal();
+
+    const deadline = await pic.advanceToNextTimer({ canisterId, sender });
+    // the timer callback runs in self-calls that need further rounds
+    await pic.tickUntil(
+      async () => (await actor.get()) >= deadline / 1_000_000n,
+    );
+
+    const time = await actor.get();
+    expect(time).toBeGreaterThanOrEqual(deadline / 1_000_000n);
+    expect(time).toBeLessThanOrEqual(deadline / 1_000_000n + 1n);
+
+    const recurringDeadline = await pic.advanceToNextTimer({
+      canisterId,
+      sender,
+    });
+    await pic.tickUntil(
+      async () => (await actor.get()) >= recurringDeadline / 1_000_000n,
+    );
+
+    expect(recurringDeadline).toBeGreaterThanOrEqual(deadline + 1_000_000_000n);
+    expect(await actor.get()).toBeGreaterThanOrEqual(
+      recurringDeadline / 1_000_000n,
+    );
+  });
 });
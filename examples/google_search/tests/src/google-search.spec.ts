@@ -56,4 +56,52 @@ describe('GoogleSearch', () => {
     const result = await executeGoogleSearch();
     expect(result).toBe('Google search result');
   });
+
+  it('should strip the headers in the transform function', async () => {
+    const body = new TextEncoder().encode('Google search result');
+
+    const transformed = await pic.invokeHttpTransform({
+      canisterId,
+      method: 'transform',
+      response: {
+        type: 'success',
+        statusCode: 200,
+        headers: [
+          ['date', 'Thu, 01 Jan 2026 00:00:00 GMT'],
+          ['set-cookie', 'NID=511'],
+        ],
+        body,
+      },
+    });
+
+    expect(transformed).toEqual({
+      type: 'success',
+      statusCode: 200,
+      headers: [],
+      body,
+    });
+  });
+
+  it('should converge on responses with different headers', async () => {
+    const executeGoogleSearch = await deferredActor.google_search();
+    await pic.tick(2);
+
+    const [pendingGoogleSearchOutcall] = await pic.getPendingHttpsOutcalls();
+
+    const { converged } = await pic.mockDivergentOutcall(
+      pendingGoogleSearchOutcall,
+      {
+        responses: replica => ({
+          type: 'success',
+          statusCode: 200,
+          headers: [['date', `Thu, 01 Jan 2026 00:00:0${replica} GMT`]],
+          body: new TextEncoder().encode('Google search result'),
+        }),
+        transform: { canisterId, method: 'transform' },
+      },
+    );
+
+    expect(converged).toBe(true);
+    expect(await executeGoogleSearch()).toBe('Google search result');
+  });
 });
@@ -0,0 +1,534 @@
+import { AddressInfo, Server, Socket, createServer } from 'node:net';
+import { randomBytes } from 'node:crypto';
+import {
+  BitcoinTransaction,
+  BitcoinUtxo,
+  BitcoinOutPoint,
+} from './pocket-ic-types';
+import {
+  BitcoinBlockHeaderData,
+  BitcoinInventory,
+  BitcoinMessage,
+  BitcoinTransactionData,
+  REGTEST_BITS,
+  REGTEST_GENESIS_HEADER,
+  addressToScriptPubKey,
+  bitcoinBlockHash,
+  bitcoinTxid,
+  bitcoinWtxid,
+  blockSubsidy,
+  createCoinbaseTransaction,
+  decodeBitcoinMessage,
+  decodeBitcoinTransaction,
+  decodeGetHeadersPayload,
+  decodeInventoryPayload,
+  encodeBitcoinBlock,
+  encodeBitcoinMessage,
+  encodeBitcoinTransaction,
+  encodeHeadersPayload,
+  encodeInventoryPayload,
+  encodeVersionPayload,
+  hasWitness,
+  hashToHex,
+  isNil,
+  meetsTarget,
+  merkleRoot,
+  regtestGenesisTransaction,
+  scriptPubKeyToAddress,
+  witnessCommitment,
+} from './util';
+
+const PROTOCOL_VERSION = 70015;
+// NODE_NETWORK and NODE_WITNESS, the Bitcoin adapter requires both.
+const SERVICES = 1n | 8n;
+const MAX_HEADERS = 2000;
+const BLOCK_VERSION = 0x20000000;
+
+const MSG_TX = 1;
+const MSG_BLOCK = 2;
+const MSG_WTX = 5;
+const MSG_WITNESS_FLAG = 0x40000000;
+
+interface RegtestBlock {
+  hash: Uint8Array;
+  header: BitcoinBlockHeaderData;
+  transactions: BitcoinTransactionData[];
+}
+
+interface RegtestUtxo extends BitcoinUtxo {
+  scriptPubKey: Uint8Array;
+}
+
+/**
+ * An in-process stand-in for a `bitcoind` node in regtest mode.
+ * It speaks the Bitcoin P2P protocol that the Bitcoin adapter of the
+ * Bitcoin subnet uses, so canisters can be tested against a Bitcoin network
+ * without running `bitcoind`. Blocks are only mined on demand with
+ * {@link mineBlocks}, and transactions that canisters send are recorded
+ * and included in the next mined block.
+ *
+ * The network does not validate scripts or signatures, and it does not
+ * reject transactions that spend unknown or already spent outputs.
+ *
+ * This is acquired through {@link PocketIc.bitcoin} when the instance is
+ * created with the {@link CreateInstanceOptions.bitcoinRegtest | bitcoinRegtest} option,
+ * or by calling {@link start} and passing {@link getAddress} to
+ * {@link CreateInstanceOptions.bitcoindAddr | bitcoindAddr}.
+ *
+ * @category API
+ *
+ * @example
+ * ```ts
+ * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+ *
+ * const picServer = await PocketIcServer.start();
+ * const pic = await PocketIc.create(picServer.getUrl(), {
+ *   bitcoinRegtest: true,
+ * });
+ *
+ * // fund the deposit address of the minter and let the coinbase mature
+ * pic.bitcoin.mineBlocks(101, depositAddress);
+ *
+ * // tick until the Bitcoin canister has synced the blocks
+ * await pic.tickUntil(async () => (await minter.get_balance()) > 0n);
+ *
+ * await minter.withdraw(withdrawalAddress, 100_000n);
+ * await pic.tick(10);
+ *
+ * const [transaction] = pic.bitcoin.getSentTransactions();
+ * pic.bitcoin.mineBlocks(1, minerAddress);
+ *
+ * expect(pic.bitcoin.getBalance(withdrawalAddress)).toBe(
+ *   transaction.outputs[0].value,
+ * );
+ *
+ * await pic.tearDown();
+ * await picServer.stop();
+ * ```
+ */
+export class BitcoinRegtest {
+  private readonly peers = new Set<Socket>();
+  private readonly blocks: RegtestBlock[] = [];
+  private readonly heights = new Map<string, number>();
+  private readonly mempool = new Map<string, BitcoinTransactionData>();
+  private readonly sentTransactions: BitcoinTransaction[] = [];
+  private readonly utxos = new Map<string, RegtestUtxo>();
+  private extraNonce = 0;
+
+  /**
+   * @ignore
+   */
+  constructor(private readonly server: Server) {
+    this.server.on('connection', socket => this.connect(socket));
+    this.addBlock({
+      hash: bitcoinBlockHash(REGTEST_GENESIS_HEADER),
+      header: REGTEST_GENESIS_HEADER,
+      transactions: [regtestGenesisTransaction()],
+    });
+  }
+
+  /**
+   * Starts a new regtest network with only the genesis block,
+   * listening on a free port of `127.0.0.1`.
+   *
+   * @returns The started network.
+   */
+  public static async start(): Promise<BitcoinRegtest> {
+    const server = createServer();
+    const regtest = new BitcoinRegtest(server);
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    return regtest;
+  }
+
+  /**
+   * Get the socket address that the network listens on, in the `ip:port` format
+   * that {@link CreateInstanceOptions.bitcoindAddr | bitcoindAddr} expects.
+   *
+   * @returns The socket address of the network.
+   */
+  public getAddress(): string {
+    const { address, port } = this.server.address() as AddressInfo;
+
+    return `${address}:${port}`;
+  }
+
+  /**
+   * Get the height of the most recent block.
+   * The genesis block has a height of `0`.
+   *
+   * @returns The height of the chain.
+   */
+  public getTipHeight(): number {
+    return this.blocks.length - 1;
+  }
+
+  /**
+   * Mine blocks and announce them to the connected Bitcoin adapters.
+   * The first block includes all transactions that were sent since the last
+   * block was mined. The coinbase outputs pay the block subsidy to `toAddress`,
+   * and can only be spent after 100 more blocks were mined on top of them.
+   *
+   * @param count The number of blocks to mine.
+   * @param toAddress The regtest address that the block rewards are paid to.
+   * P2PKH, P2SH and segwit addresses are supported.
+   * @returns The hashes of the mined blocks, in the reversed hex notation.
+   */
+  public mineBlocks(count: number, toAddress: string): string[] {
+    const scriptPubKey = addressToScriptPubKey(toAddress);
+    const hashes: Uint8Array[] = [];
+
+    for (let i = 0; i < count; i++) {
+      hashes.push(this.mineBlock(scriptPubKey));
+    }
+
+    this.broadcast({
+      command: 'inv',
+      payload: encodeInventoryPayload(
+        hashes.map(hash => ({ type: MSG_BLOCK, hash })),
+      ),
+    });
+
+    return hashes.map(hash => hashToHex(hash));
+  }
+
+  /**
+   * Get the transactions that were sent to the network, in the order they were
+   * received. This includes transactions that were already mined.
+   *
+   * @returns The sent transactions, see {@link BitcoinTransaction}.
+   */
+  public getSentTransactions(): BitcoinTransaction[] {
+    return [...this.sentTransactions];
+  }
+
+  /**
+   * Get the unspent outputs of mined blocks that pay to the given address.
+   * Outputs of transactions that were not mined yet are not included.
+   *
+   * @param address The regtest address.
+   * @returns The unspent outputs, see {@link BitcoinUtxo}.
+   */
+  public getUtxos(address: string): BitcoinUtxo[] {
+    const scriptPubKey = Buffer.from(addressToScriptPubKey(address));
+
+    return [...this.utxos.values()]
+      .filter(utxo => scriptPubKey.equals(utxo.scriptPubKey))
+      .map(({ outpoint, value, height }) => ({ outpoint, value, height }));
+  }
+
+  /**
+   * Get the sum of the unspent outputs of mined blocks that pay to the given address.
+   *
+   * @param address The regtest address.
+   * @returns The balance in satoshis.
+   */
+  public getBalance(address: string): bigint {
+    return this.getUtxos(address).reduce(
+      (balance, utxo) => balance + utxo.value,
+      0n,
+    );
+  }
+
+  /**
+   * Disconnect all Bitcoin adapters and stop listening.
+   */
+  public async stop(): Promise<void> {
+    for (const peer of this.peers) {
+      peer.destroy();
+    }
+
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private mineBlock(scriptPubKey: Uint8Array): Uint8Array {
+    const transactions = [...this.mempool.values()];
+    this.mempool.clear();
+
+    const height = this.blocks.length;
+    const tip = this.blocks[height - 1];
+    const coinbase = createCoinbaseTransaction({
+      height,
+      extraNonce: this.extraNonce++,
+      scriptPubKey,
+      value: blockSubsidy(height),
+      witnessCommitment: transactions.some(hasWitness)
+        ? witnessCommitment(transactions)
+        : undefined,
+    });
+    const blockTransactions = [coinbase, ...transactions];
+
+    const header: BitcoinBlockHeaderData = {
+      version: BLOCK_VERSION,
+      prevBlockHash: tip.hash,
+      merkleRoot: merkleRoot(blockTransactions.map(bitcoinTxid)),
+      time: Math.max(Math.floor(Date.now() / 1000), tip.header.time + 1),
+      bits: REGTEST_BITS,
+      nonce: 0,
+    };
+    while (!meetsTarget(bitcoinBlockHash(header), header.bits)) {
+      header.nonce++;
+    }
+
+    const hash = bitcoinBlockHash(header);
+    this.addBlock({ hash, header, transactions: blockTransactions });
+
+    return hash;
+  }
+
+  private addBlock(block: RegtestBlock): void {
+    const height = this.blocks.length;
+    this.blocks.push(block);
+    this.heights.set(hashToHex(block.hash), height);
+
+    block.transactions.forEach((transaction, index) => {
+      const txid = hashToHex(bitcoinTxid(transaction));
+
+      if (index > 0) {
+        for (const { previousOutput } of transaction.inputs) {
+          this.utxos.delete(
+            outpointKey({
+              txid: hashToHex(previousOutput.txid),
+              vout: previousOutput.vout,
+            }),
+          );
+        }
+      }
+
+      transaction.outputs.forEach(({ value, scriptPubKey }, vout) => {
+        const outpoint = { txid, vout };
+        this.utxos.set(outpointKey(outpoint), {
+          outpoint,
+          value,
+          height,
+          scriptPubKey,
+        });
+      });
+    });
+  }
+
+  private connect(socket: Socket): void {
+    this.peers.add(socket);
+    let stream = Buffer.alloc(0);
+
+    socket.on('data', (data: Buffer) => {
+      stream = Buffer.concat([stream, data]);
+
+      try {
+        let decoded = decodeBitcoinMessage(stream);
+        while (decoded !== null) {
+          stream = stream.subarray(decoded.size);
+          this.handleMessage(socket, decoded.message);
+          decoded = decodeBitcoinMessage(stream);
+        }
+      } catch {
+        socket.destroy();
+      }
+    });
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.peers.delete(socket));
+  }
+
+  private handleMessage(
+    socket: Socket,
+    { command, payload }: BitcoinMessage,
+  ): void {
+    switch (command) {
+      case 'version':
+        this.send(socket, {
+          command: 'version',
+          payload: encodeVersionPayload({
+            version: PROTOCOL_VERSION,
+            services: SERVICES,
+            nonce: randomBytes(8).readBigUInt64LE(),
+            startHeight: this.getTipHeight(),
+          }),
+        });
+        this.send(socket, { command: 'verack', payload: new Uint8Array() });
+        break;
+
+      case 'ping':
+        this.send(socket, { command: 'pong', payload });
+        break;
+
+      case 'getaddr':
+        this.send(socket, {
+          command: 'addr',
+          payload: encodeInventoryPayload([]),
+        });
+        break;
+
+      case 'getheaders':
+        this.send(socket, {
+          command: 'headers',
+          payload: encodeHeadersPayload(this.findHeaders(payload)),
+        });
+        break;
+
+      case 'getdata':
+        this.sendData(socket, decodeInventoryPayload(payload));
+        break;
+
+      case 'inv':
+        this.requestTransactions(socket, decodeInventoryPayload(payload));
+        break;
+
+      case 'tx':
+        this.receiveTransaction(payload);
+        break;
+    }
+  }
+
+  private findHeaders(payload: Uint8Array): BitcoinBlockHeaderData[] {
+    const { locator, stopHash } = decodeGetHeadersPayload(payload);
+
+    // Like `bitcoind`, start after the first locator hash that is part of
+    // the chain, or after the genesis block if none of them is.
+    const forkHeight =
+      locator
+        .map(hash => this.heights.get(hashToHex(hash)))
+        .find(height => height !== undefined) ?? 0;
+    const stopHeight = this.heights.get(hashToHex(stopHash));
+
+    const headers: BitcoinBlockHeaderData[] = [];
+    for (
+      let height = forkHeight + 1;
+      height < this.blocks.length && headers.length < MAX_HEADERS;
+      height++
+    ) {
+      headers.push(this.blocks[height].header);
+      if (height === stopHeight) {
+        break;
+      }
+    }
+
+    return headers;
+  }
+
+  private sendData(socket: Socket, inventory: BitcoinInventory[]): void {
+    const notFound: BitcoinInventory[] = [];
+
+    for (const item of inventory) {
+      const type = item.type & ~MSG_WITNESS_FLAG;
+      const witness = (item.type & MSG_WITNESS_FLAG) !== 0 || type === MSG_WTX;
+
+      if (type === MSG_BLOCK) {
+        const height = this.heights.get(hashToHex(item.hash));
+        if (height === undefined) {
+          notFound.push(item);
+          continue;
+        }
+
+        const { header, transactions } = this.blocks[height];
+        this.send(socket, {
+          command: 'block',
+          payload: encodeBitcoinBlock(header, transactions, { witness }),
+        });
+        continue;
+      }
+
+      const transaction = this.findMempoolTransaction(item);
+      if (isNil(transaction)) {
+        notFound.push(item);
+        continue;
+      }
+
+      this.send(socket, {
+        command: 'tx',
+        payload: encodeBitcoinTransaction(transaction, { witness }),
+      });
+    }
+
+    if (notFound.length > 0) {
+      this.send(socket, {
+        command: 'notfound',
+        payload: encodeInventoryPayload(notFound),
+      });
+    }
+  }
+
+  private findMempoolTransaction({
+    type,
+    hash,
+  }: BitcoinInventory): BitcoinTransactionData | undefined {
+    if ((type & ~MSG_WITNESS_FLAG) === MSG_TX) {
+      return this.mempool.get(hashToHex(hash));
+    }
+
+    if (type === MSG_WTX) {
+      const wtxid = Buffer.from(hash);
+
+      return [...this.mempool.values()].find(transaction =>
+        wtxid.equals(bitcoinWtxid(transaction)),
+      );
+    }
+
+    return undefined;
+  }
+
+  private requestTransactions(
+    socket: Socket,
+    inventory: BitcoinInventory[],
+  ): void {
+    const unknown = inventory.filter(
+      item =>
+        (item.type === MSG_TX || item.type === MSG_WTX) &&
+        isNil(this.findMempoolTransaction(item)),
+    );
+
+    if (unknown.length > 0) {
+      this.send(socket, {
+        command: 'getdata',
+        payload: encodeInventoryPayload(unknown),
+      });
+    }
+  }
+
+  private receiveTransaction(payload: Uint8Array): void {
+    const transaction = decodeBitcoinTransaction(payload);
+    const txid = hashToHex(bitcoinTxid(transaction));
+
+    if (
+      this.mempool.has(txid) ||
+      this.sentTransactions.some(sent => sent.txid === txid)
+    ) {
+      return;
+    }
+
+    this.mempool.set(txid, transaction);
+    this.sentTransactions.push({
+      txid,
+      raw: payload,
+      inputs: transaction.inputs.map(({ previousOutput }) => ({
+        txid: hashToHex(previousOutput.txid),
+        vout: previousOutput.vout,
+      })),
+      outputs: transaction.outputs.map(({ value, scriptPubKey }) => ({
+        value,
+        scriptPubKey,
+        address: scriptPubKeyToAddress(scriptPubKey),
+      })),
+    });
+  }
+
+  private send(socket: Socket, message: BitcoinMessage): void {
+    socket.write(encodeBitcoinMessage(message));
+  }
+
+  private broadcast(message: BitcoinMessage): void {
+    for (const peer of this.peers) {
+      this.send(peer, message);
+    }
+  }
+}
+
+function outpointKey({ txid, vout }: BitcoinOutPoint): string {
+  return `${txid}:${vout}`;
+}
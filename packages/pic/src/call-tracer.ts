@@ -0,0 +1,205 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import { JSONStringify } from 'json-with-bigint';
+import { CanisterRejectError } from './error';
+import { ObservedCanisterCall } from './pocket-ic-client-types';
+import { CallTraceEntry } from './pocket-ic-types';
+import { canisterRejectInfoFromError, hexEncode, isNil } from './util';
+
+/**
+ * Records every canister call made through a PocketIC instance.
+ * This is acquired by calling {@link PocketIc.startTracing | startTracing}.
+ *
+ * Arguments and replies are decoded for canisters with a known interface,
+ * i.e. canisters that an {@link Actor} or {@link DeferredActor} was created for.
+ *
+ * @category API
+ *
+ * @example
+ * ```ts
+ * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+ *
+ * const picServer = await PocketIcServer.start();
+ * const pic = await PocketIc.create(picServer.getUrl());
+ * const tracer = pic.startTracing();
+ *
+ * // perform tests...
+ *
+ * console.log(tracer.toTimeline());
+ *
+ * await pic.tearDown();
+ * await picServer.stop();
+ * ```
+ */
+export class CallTracer {
+  private readonly recordedEntries: CallTraceEntry[] = [];
+
+  /**
+   * @ignore
+   */
+  constructor(
+    private readonly getInterfaceFactory: (
+      canisterId: Principal,
+    ) => IDL.InterfaceFactory | undefined,
+    private readonly getInstanceTime: () => Promise<number>,
+  ) {}
+
+  /**
+   * The calls recorded so far, in the order that they completed.
+   */
+  public get entries(): CallTraceEntry[] {
+    return [...this.recordedEntries];
+  }
+
+  /**
+   * Removes all recorded calls.
+   */
+  public clear(): void {
+    this.recordedEntries.length = 0;
+  }
+
+  /**
+   * Serializes the recorded calls as JSON.
+   * Principals are encoded as text and binary data as hex.
+   *
+   * @returns The recorded calls as a JSON string.
+   */
+  public toJson(): string {
+    return JSONStringify(this.recordedEntries.map(toSerializable), null, 2);
+  }
+
+  /**
+   * Formats the recorded calls as a human-readable timeline.
+   *
+   * @returns The recorded calls, one block per call.
+   *
+   * @example
+   * ```ts
+   * afterEach(() => {
+   *   if (testFailed) {
+   *     console.log(tracer.toTimeline());
+   *   }
+   *   tracer.clear();
+   * });
+   * ```
+   */
+  public toTimeline(): string {
+    return this.recordedEntries.map(formatEntry).join('\n');
+  }
+
+  /**
+   * @ignore
+   */
+  public readonly observer = async (
+    call: ObservedCanisterCall,
+  ): Promise<void> => {
+    const { request } = call;
+    const func = this.findFunc(request.canisterId, request.method);
+
+    const entry: CallTraceEntry = {
+      kind: call.kind,
+      sender: request.sender,
+      canisterId: request.canisterId,
+      method: request.method,
+      args: decodeValues(func?.argTypes, request.payload),
+      startedAt: call.startedAt,
+      durationMs: call.durationMs,
+      instanceTime: await this.getInstanceTime().catch(() => null),
+    };
+
+    if (!isNil(call.response)) {
+      entry.reply = decodeValues(func?.retTypes, call.response.body);
+    } else if (call.error instanceof CanisterRejectError) {
+      entry.reject = canisterRejectInfoFromError(call.error);
+    } else {
+      entry.error = String(call.error);
+    }
+
+    this.recordedEntries.push(entry);
+  };
+
+  private findFunc(
+    canisterId: Principal,
+    method: string,
+  ): IDL.FuncClass | undefined {
+    const interfaceFactory = this.getInterfaceFactory(canisterId);
+    if (isNil(interfaceFactory)) {
+      return undefined;
+    }
+
+    const service = interfaceFactory({ IDL });
+    return service._fields.find(([name]) => name === method)?.[1];
+  }
+}
+
+function decodeValues(
+  types: IDL.Type[] | undefined,
+  data: Uint8Array,
+): unknown[] | Uint8Array {
+  if (isNil(types)) {
+    return data;
+  }
+
+  try {
+    return IDL.decode(types, data);
+  } catch {
+    return data;
+  }
+}
+
+function toSerializable(value: unknown): unknown {
+  if (value instanceof Principal) {
+    return value.toText();
+  }
+
+  if (value instanceof Uint8Array) {
+    return hexEncode(value);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toSerializable);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toSerializable(entry)]),
+    );
+  }
+
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  return JSONStringify(toSerializable(value));
+}
+
+function formatEntry(entry: CallTraceEntry): string {
+  const instanceTime = isNil(entry.instanceTime)
+    ? 'unknown'
+    : new Date(entry.instanceTime).toISOString();
+
+  const lines = [
+    `[${entry.startedAt.toISOString()}] ${entry.kind} ${entry.canisterId.toText()}.${entry.method} from ${entry.sender.toText()} (${entry.durationMs}ms, instance time ${instanceTime})`,
+    `  args: ${formatValue(entry.args)}`,
+  ];
+
+  if (!isNil(entry.reply)) {
+    lines.push(`  reply: ${formatValue(entry.reply)}`);
+  }
+
+  if (!isNil(entry.reject)) {
+    lines.push(
+      `  reject: code ${entry.reject.rejectCode}, error code ${entry.reject.errorCode}: ${entry.reject.rejectMessage}`,
+    );
+  }
+
+  if (!isNil(entry.error)) {
+    lines.push(`  error: ${entry.error}`);
+  }
+
+  return lines.join('\n');
+}
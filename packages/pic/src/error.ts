@@ -1,3 +1,11 @@
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  CanisterRejectInfo,
+  PendingHttpsOutcall,
+  RejectCode,
+  UpdateCallWithCyclesOptions,
+} from './pocket-ic-types';
+
 export class BinStartError extends Error {
   override name = 'BinStartError';
 
@@ -88,3 +96,120 @@ export class ServerError extends Error {
     this.serverMessage = serverMessage;
   }
 }
+
+export class CanisterNotFoundError extends Error {
+  override name = 'CanisterNotFoundError';
+  public readonly canisterId: Principal;
+
+  constructor(canisterId: Principal, cause: Error) {
+    super(
+      `Canister ${canisterId.toText()} was not found. It may have been deleted.`,
+      { cause },
+    );
+    this.canisterId = canisterId;
+  }
+}
+
+export class CanisterRejectError extends Error implements CanisterRejectInfo {
+  override name = 'CanisterRejectError';
+  public readonly rejectCode: RejectCode;
+  public readonly errorCode: number;
+  public readonly rejectMessage: string;
+  public readonly certified: boolean;
+  public readonly canisterId: Principal;
+  public readonly method: string;
+
+  constructor(info: CanisterRejectInfo) {
+    super(
+      `Canister call failed: ${info.rejectMessage}. Reject code: ${info.rejectCode}. Error code: ${info.errorCode}. Certified: ${info.certified}`,
+    );
+    this.rejectCode = info.rejectCode;
+    this.errorCode = info.errorCode;
+    this.rejectMessage = info.rejectMessage;
+    this.certified = info.certified;
+    this.canisterId = info.canisterId;
+    this.method = info.method;
+  }
+}
+
+/**
+ * A reject of a call that was routed through the proxy canister, for example
+ * an update call with cycles, see {@link UpdateCallWithCyclesOptions}.
+ *
+ * The proxy canister only receives the reject code and message of the call,
+ * so the error code is always `0`. The reject is relayed in the certified
+ * reply of the proxy canister.
+ */
+export class ProxiedCanisterRejectError extends CanisterRejectError {
+  override name = 'ProxiedCanisterRejectError';
+  public readonly proxyCanisterId: Principal;
+
+  constructor(
+    info: Omit<CanisterRejectInfo, 'errorCode' | 'certified'>,
+    proxyCanisterId: Principal,
+  ) {
+    super({ ...info, errorCode: 0, certified: true });
+    this.message = `Canister call through the proxy canister ${proxyCanisterId.toText()} failed: ${info.rejectMessage}. Reject code: ${info.rejectCode}`;
+    this.proxyCanisterId = proxyCanisterId;
+  }
+}
+
+export class VetKeyVerificationError extends Error {
+  override name = 'VetKeyVerificationError';
+
+  constructor() {
+    super(
+      'The encrypted vetKey is invalid. Make sure that it was derived for the given transport public key, derived public key and input.',
+    );
+  }
+}
+
+export class UnmatchedHttpsOutcallError extends Error {
+  override name = 'UnmatchedHttpsOutcallError';
+  public readonly outcall: PendingHttpsOutcall;
+
+  constructor(outcall: PendingHttpsOutcall) {
+    super(
+      `No HTTPS outcall handler matches the pending ${outcall.httpMethod} request to ${outcall.url}.`,
+    );
+    this.outcall = outcall;
+  }
+}
+
+export class MaxTicksExceededError extends Error {
+  override name = 'MaxTicksExceededError';
+
+  constructor(maxTicks: number, reason?: string) {
+    super(
+      `The PocketIC instance did not settle within ${maxTicks} ticks${reason ? `, ${reason}` : ''}.`,
+    );
+  }
+}
+
+export class HttpsOutcallCassetteMissError extends Error {
+  override name = 'HttpsOutcallCassetteMissError';
+  public readonly outcall: PendingHttpsOutcall;
+
+  constructor(
+    outcall: PendingHttpsOutcall,
+    cassettePath: string,
+    bodySha256: string,
+  ) {
+    super(
+      `The HTTPS outcall cassette at ${cassettePath} has no recorded response for the ${outcall.httpMethod} request to ${outcall.url} with body SHA-256 ${bodySha256}. Record the cassette again to include this request.`,
+    );
+    this.outcall = outcall;
+  }
+}
+
+export class InactiveGlobalTimerError extends Error {
+  override name = 'InactiveGlobalTimerError';
+  public readonly canisterId: Principal;
+
+  constructor(canisterId: Principal) {
+    super(
+      `Canister ${canisterId.toText()} has no active global timer to advance to.`,
+    );
+    this.canisterId = canisterId;
+  }
+}
@@ -0,0 +1,164 @@
+import { dirname } from 'node:path';
+import { HttpsOutcallCassetteMissError } from './error';
+import {
+  HttpsOutcallCassetteMode,
+  HttpsOutcallCassetteOptions,
+  HttpsOutcallHandler,
+  HttpsOutcallResponseMock,
+  PendingHttpsOutcall,
+} from './pocket-ic-types';
+import {
+  HttpsOutcallCassetteInteraction,
+  decodeHttpsOutcallCassette,
+  encodeHttpsOutcallCassette,
+  ensureDir,
+  forwardHttpsOutcalls,
+  httpsOutcallCassetteKey,
+  httpsOutcallCassetteRequest,
+  isNil,
+  readFileAsString,
+  writeFileAsString,
+} from './util';
+
+/**
+ * Records HTTPS outcall requests and responses to a cassette JSON file and
+ * replays them later, so that tests of canisters that call real APIs can run
+ * deterministically and offline.
+ *
+ * Requests are matched by method, URL, headers and a SHA-256 hash of the body.
+ * Identical requests are replayed in the order they were recorded.
+ *
+ * @category API
+ *
+ * @example
+ * ```ts
+ * import { HttpsOutcallCassette, PocketIc, PocketIcServer } from '@dfinity/pic';
+ *
+ * const picServer = await PocketIcServer.start();
+ * const pic = await PocketIc.create(picServer.getUrl());
+ *
+ * const cassette = await HttpsOutcallCassette.load({
+ *   path: resolve(__dirname, 'cassettes', 'exchange-rates.json'),
+ *   mode: process.env.RECORD_CASSETTES ? 'record' : 'replay',
+ *   forwardUrl: 'http://localhost:8080',
+ * });
+ * pic.httpsOutcalls.on({ url: /^https:\/\/api\.example\.com\// }, cassette.handler);
+ *
+ * const executeGetRates = await deferredActor.get_rates();
+ * await pic.httpsOutcalls.flush();
+ * const rates = await executeGetRates();
+ *
+ * await cassette.save();
+ * await pic.tearDown();
+ * await picServer.stop();
+ * ```
+ */
+export class HttpsOutcallCassette {
+  private readonly forward: HttpsOutcallHandler;
+  private readonly recorded: HttpsOutcallCassetteInteraction[] = [];
+  private readonly replays = new Map<string, HttpsOutcallResponseMock[]>();
+
+  private constructor(
+    private readonly path: string,
+    private readonly cassetteMode: HttpsOutcallCassetteMode,
+    forwardUrl: string | undefined,
+    interactions: HttpsOutcallCassetteInteraction[],
+  ) {
+    this.forward = forwardHttpsOutcalls(forwardUrl);
+
+    for (const { request, response } of interactions) {
+      const key = httpsOutcallCassetteKey(request);
+      const responses = this.replays.get(key) ?? [];
+      responses.push(response);
+      this.replays.set(key, responses);
+    }
+  }
+
+  /**
+   * Load a cassette. In `replay` mode the cassette file must exist,
+   * in `record` mode a new cassette is started and written by {@link save}.
+   *
+   * @param options Options for loading the cassette, see {@link HttpsOutcallCassetteOptions}.
+   * @returns The loaded cassette.
+   */
+  public static async load({
+    path,
+    mode,
+    forwardUrl,
+  }: HttpsOutcallCassetteOptions): Promise<HttpsOutcallCassette> {
+    const interactions =
+      mode === 'replay'
+        ? decodeHttpsOutcallCassette(await readFileAsString(path))
+        : [];
+
+    return new HttpsOutcallCassette(path, mode, forwardUrl, interactions);
+  }
+
+  /**
+   * Whether the cassette records or replays outcalls.
+   */
+  public get mode(): HttpsOutcallCassetteMode {
+    return this.cassetteMode;
+  }
+
+  /**
+   * Answers an outcall by forwarding it and recording the response in `record` mode,
+   * or with the recorded response in `replay` mode. Register it with
+   * {@link HttpsOutcallRouter.on} to use the cassette for matching outcalls.
+   *
+   * @throws {@link HttpsOutcallCassetteMissError} In `replay` mode, if the cassette
+   * has no recorded response left for the outcall.
+   */
+  public readonly handler: HttpsOutcallHandler = async outcall => {
+    if (this.cassetteMode === 'record') {
+      return await this.record(outcall);
+    }
+
+    return this.replay(outcall);
+  };
+
+  /**
+   * Write the recorded interactions to the cassette file.
+   * This only has an effect in `record` mode.
+   */
+  public async save(): Promise<void> {
+    if (this.cassetteMode !== 'record') {
+      return;
+    }
+
+    await ensureDir(dirname(this.path));
+    await writeFileAsString(
+      this.path,
+      encodeHttpsOutcallCassette(this.recorded),
+    );
+  }
+
+  private async record(
+    outcall: PendingHttpsOutcall,
+  ): Promise<HttpsOutcallResponseMock> {
+    const response = await this.forward(outcall);
+    this.recorded.push({
+      request: httpsOutcallCassetteRequest(outcall),
+      response,
+    });
+
+    return response;
+  }
+
+  private replay(outcall: PendingHttpsOutcall): HttpsOutcallResponseMock {
+    const request = httpsOutcallCassetteRequest(outcall);
+    const response = this.replays
+      .get(httpsOutcallCassetteKey(request))
+      ?.shift();
+
+    if (isNil(response)) {
+      throw new HttpsOutcallCassetteMissError(
+        outcall,
+        this.path,
+        request.bodySha256,
+      );
+    }
+
+    return response;
+  }
+}
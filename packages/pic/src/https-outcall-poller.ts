@@ -0,0 +1,96 @@
+import { PocketIcClient } from './pocket-ic-client';
+import {
+  HttpsOutcallHandler,
+  HttpsOutcallResponseMock,
+  PendingHttpsOutcall,
+  RejectCode,
+} from './pocket-ic-types';
+
+/**
+ * Answers pending HTTPS outcalls in the background while a PocketIC instance is live.
+ */
+export class HttpsOutcallPoller {
+  private timeout: NodeJS.Timeout | null = null;
+  private poll: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    private readonly client: PocketIcClient,
+    private readonly handler: HttpsOutcallHandler,
+    private readonly intervalMs: number,
+  ) {}
+
+  public start(): void {
+    this.schedule();
+  }
+
+  public async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+
+    await this.poll;
+  }
+
+  private schedule(): void {
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      this.poll = this.answerPendingOutcalls().finally(() => {
+        if (!this.stopped) {
+          this.schedule();
+        }
+      });
+    }, this.intervalMs);
+
+    // the poller should not keep the process alive if `stopLive` is never called
+    this.timeout.unref();
+  }
+
+  private async answerPendingOutcalls(): Promise<void> {
+    let outcalls: PendingHttpsOutcall[];
+    try {
+      outcalls = await this.client.getPendingHttpsOutcalls();
+    } catch {
+      // the server may be busy or the instance torn down,
+      // the next poll either succeeds or the poller is stopped
+      return;
+    }
+
+    for (const outcall of outcalls) {
+      if (this.stopped) {
+        return;
+      }
+
+      const response = await this.respond(outcall);
+
+      try {
+        await this.client.mockPendingHttpsOutcall({
+          subnetId: outcall.subnetId,
+          requestId: outcall.requestId,
+          response,
+          additionalResponses: [],
+        });
+      } catch {
+        // the outcall is no longer pending, e.g. because it timed out
+      }
+    }
+  }
+
+  private async respond(
+    outcall: PendingHttpsOutcall,
+  ): Promise<HttpsOutcallResponseMock> {
+    try {
+      return await this.handler(outcall);
+    } catch (error) {
+      // reject the outcall so the canister call does not hang
+      return {
+        type: 'reject',
+        statusCode: RejectCode.SYS_TRANSIENT,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { MaxTicksExceededError, UnmatchedHttpsOutcallError } from './error';
+import { PocketIcClient } from './pocket-ic-client';
+import {
+  FlushHttpsOutcallsOptions,
+  HttpsOutcallHandler,
+  HttpsOutcallMatcher,
+  PendingHttpsOutcall,
+} from './pocket-ic-types';
+import { isNotNil } from './util';
+
+const DEFAULT_MAX_TICKS = 100;
+
+// A canister message needs one round to execute and another round for the
+// outcall it makes to become pending, so the instance is only considered
+// settled once this many consecutive ticks produced no pending outcalls.
+const SETTLED_TICKS = 2;
+
+interface HttpsOutcallRoute {
+  matcher: HttpsOutcallMatcher;
+  handler: HttpsOutcallHandler;
+}
+
+/**
+ * Answers pending HTTPS outcalls with handlers registered for matching requests.
+ * This is acquired through {@link PocketIc.httpsOutcalls}.
+ *
+ * @category API
+ *
+ * @example
+ * ```ts
+ * import { CanisterHttpMethod, PocketIc, PocketIcServer } from '@dfinity/pic';
+ *
+ * const picServer = await PocketIcServer.start();
+ * const pic = await PocketIc.create(picServer.getUrl());
+ *
+ * pic.httpsOutcalls.on(
+ *   { method: CanisterHttpMethod.GET, url: /^https:\/\/www\.google\.com/ },
+ *   () => ({
+ *     type: 'success',
+ *     statusCode: 200,
+ *     headers: [],
+ *     body: new TextEncoder().encode('Google search result'),
+ *   }),
+ * );
+ *
+ * const executeGoogleSearch = await deferredActor.google_search();
+ * await pic.httpsOutcalls.flush();
+ * const result = await executeGoogleSearch();
+ *
+ * await pic.tearDown();
+ * await picServer.stop();
+ * ```
+ */
+export class HttpsOutcallRouter {
+  private readonly routes: HttpsOutcallRoute[] = [];
+
+  /**
+   * @ignore
+   */
+  constructor(private readonly client: PocketIcClient) {}
+
+  /**
+   * Register a handler for pending HTTPS outcalls that match the given matcher.
+   * When several handlers match an outcall, the one registered first is used.
+   *
+   * @param matcher The outcalls to handle, see {@link HttpsOutcallMatcher}.
+   * @param handler Builds the response for a matching outcall, see {@link HttpsOutcallHandler}.
+   * @returns The router, to allow chaining.
+   */
+  public on(
+    matcher: HttpsOutcallMatcher,
+    handler: HttpsOutcallHandler,
+  ): HttpsOutcallRouter {
+    this.routes.push({ matcher, handler });
+
+    return this;
+  }
+
+  /**
+   * Remove all registered handlers.
+   */
+  public clear(): void {
+    this.routes.length = 0;
+  }
+
+  /**
+   * Find the handler for a pending HTTPS outcall.
+   *
+   * @param outcall The pending HTTPS outcall.
+   * @returns The handler registered for the outcall, or `undefined` if no handler matches.
+   */
+  public findHandler(
+    outcall: PendingHttpsOutcall,
+  ): HttpsOutcallHandler | undefined {
+    return this.routes.find(({ matcher }) => matchesOutcall(matcher, outcall))
+      ?.handler;
+  }
+
+  /**
+   * Tick the PocketIC instance and answer pending HTTPS outcalls with the
+   * registered handlers until no outcalls remain.
+   *
+   * @param options Options for flushing, see {@link FlushHttpsOutcallsOptions}.
+   * @returns The outcalls that were answered, in the order they were answered.
+   * @throws {@link UnmatchedHttpsOutcallError} If no handler matches a pending outcall.
+   * @throws {@link MaxTicksExceededError} If outcalls are still pending after `maxTicks` ticks.
+   */
+  public async flush({
+    maxTicks = DEFAULT_MAX_TICKS,
+  }: FlushHttpsOutcallsOptions = {}): Promise<PendingHttpsOutcall[]> {
+    const answered: PendingHttpsOutcall[] = [];
+    let settledTicks = 0;
+
+    for (let tick = 0; tick < maxTicks; tick++) {
+      await this.client.tick();
+
+      const outcalls = await this.client.getPendingHttpsOutcalls();
+      if (outcalls.length === 0) {
+        settledTicks++;
+
+        if (settledTicks === SETTLED_TICKS) {
+          return answered;
+        }
+
+        continue;
+      }
+
+      settledTicks = 0;
+      for (const outcall of outcalls) {
+        await this.answer(outcall);
+        answered.push(outcall);
+      }
+    }
+
+    throw new MaxTicksExceededError(maxTicks);
+  }
+
+  private async answer(outcall: PendingHttpsOutcall): Promise<void> {
+    const handler = this.findHandler(outcall);
+    if (!handler) {
+      throw new UnmatchedHttpsOutcallError(outcall);
+    }
+
+    const response = await handler(outcall);
+
+    await this.client.mockPendingHttpsOutcall({
+      subnetId: outcall.subnetId,
+      requestId: outcall.requestId,
+      response,
+      additionalResponses: [],
+    });
+  }
+}
+
+function matchesOutcall(
+  matcher: HttpsOutcallMatcher,
+  outcall: PendingHttpsOutcall,
+): boolean {
+  if (isNotNil(matcher.method) && matcher.method !== outcall.httpMethod) {
+    return false;
+  }
+
+  const urlMatches =
+    typeof matcher.url === 'string'
+      ? matcher.url === outcall.url
+      : outcall.url.search(matcher.url) !== -1;
+  if (!urlMatches) {
+    return false;
+  }
+
+  return (matcher.headers ?? []).every(([name, value]) =>
+    outcall.headers.some(
+      ([outcallName, outcallValue]) =>
+        outcallName.toLowerCase() === name.toLowerCase() &&
+        outcallValue === value,
+    ),
+  );
+}
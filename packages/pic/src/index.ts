@@ -2,6 +2,10 @@
  * @module api
  */
 
+export * from './bitcoin-regtest';
+export * from './call-tracer';
+export * from './https-outcall-cassette';
+export * from './https-outcall-router';
 export * from './identity';
 export * from './pocket-ic-actor';
 export * from './pocket-ic-deferred-actor';
@@ -9,4 +13,24 @@ export * from './pocket-ic-server-types';
 export * from './pocket-ic-server';
 export * from './pocket-ic-types';
 export * from './pocket-ic';
-export { ServerError } from './error';
+export * from './virtual-clock';
+export {
+  CanisterNotFoundError,
+  CanisterRejectError,
+  HttpsOutcallCassetteMissError,
+  InactiveGlobalTimerError,
+  MaxTicksExceededError,
+  ProxiedCanisterRejectError,
+  ServerError,
+  UnmatchedHttpsOutcallError,
+  VetKeyVerificationError,
+} from './error';
+export {
+  decodeCanisterLogContent,
+  decryptVetKey,
+  formatCanisterLogs,
+  forwardHttpsOutcalls,
+  generateVetKdTransportKey,
+  verifyEcdsaSignature,
+  verifySchnorrSignature,
+} from './util';
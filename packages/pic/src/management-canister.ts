@@ -133,6 +133,36 @@ export function encodeStopCanisterRequest(
   return new Uint8Array(IDL.encode([StopCanisterRequest], [arg]));
 }
 
+const UninstallCodeRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  sender_canister_version: IDL.Opt(IDL.Nat64),
+});
+
+export interface UninstallCodeRequest {
+  canister_id: Principal;
+  sender_canister_version: [] | [bigint];
+}
+
+export function encodeUninstallCodeRequest(
+  arg: UninstallCodeRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([UninstallCodeRequest], [arg]));
+}
+
+const DeleteCanisterRequest = IDL.Record({
+  canister_id: IDL.Principal,
+});
+
+export interface DeleteCanisterRequest {
+  canister_id: Principal;
+}
+
+export function encodeDeleteCanisterRequest(
+  arg: DeleteCanisterRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([DeleteCanisterRequest], [arg]));
+}
+
 const CanisterInstallModeUpgradeOptions = IDL.Record({
   skip_pre_upgrade: IDL.Opt(IDL.Bool),
   wasm_memory_persistence: IDL.Opt(
@@ -371,3 +401,798 @@ export function encodeInstallChunkedCodeRequest(
 ): Uint8Array {
   return new Uint8Array(IDL.encode([InstallChunkedCodeRequest], [arg]));
 }
+
+// Canister snapshot types
+
+const SnapshotId = IDL.Vec(IDL.Nat8);
+
+const Snapshot = IDL.Record({
+  id: SnapshotId,
+  taken_at_timestamp: IDL.Nat64,
+  total_size: IDL.Nat64,
+});
+
+export interface Snapshot {
+  id: Uint8Array;
+  taken_at_timestamp: bigint;
+  total_size: bigint;
+}
+
+const TakeCanisterSnapshotRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  replace_snapshot: IDL.Opt(SnapshotId),
+  uninstall_code: IDL.Opt(IDL.Bool),
+  sender_canister_version: IDL.Opt(IDL.Nat64),
+});
+
+export interface TakeCanisterSnapshotRequest {
+  canister_id: Principal;
+  replace_snapshot: [] | [Uint8Array];
+  uninstall_code: [] | [boolean];
+  sender_canister_version: [] | [bigint];
+}
+
+export function encodeTakeCanisterSnapshotRequest(
+  arg: TakeCanisterSnapshotRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([TakeCanisterSnapshotRequest], [arg]));
+}
+
+const TakeCanisterSnapshotResponse = Snapshot;
+
+export function decodeTakeCanisterSnapshotResponse(arg: Uint8Array): Snapshot {
+  const payload = decodeCandid<Snapshot>([TakeCanisterSnapshotResponse], arg);
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode TakeCanisterSnapshotResponse');
+  }
+
+  return payload;
+}
+
+const LoadCanisterSnapshotRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  snapshot_id: SnapshotId,
+  sender_canister_version: IDL.Opt(IDL.Nat64),
+});
+
+export interface LoadCanisterSnapshotRequest {
+  canister_id: Principal;
+  snapshot_id: Uint8Array;
+  sender_canister_version: [] | [bigint];
+}
+
+export function encodeLoadCanisterSnapshotRequest(
+  arg: LoadCanisterSnapshotRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([LoadCanisterSnapshotRequest], [arg]));
+}
+
+const ListCanisterSnapshotsRequest = IDL.Record({
+  canister_id: IDL.Principal,
+});
+
+export interface ListCanisterSnapshotsRequest {
+  canister_id: Principal;
+}
+
+export function encodeListCanisterSnapshotsRequest(
+  arg: ListCanisterSnapshotsRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([ListCanisterSnapshotsRequest], [arg]));
+}
+
+const ListCanisterSnapshotsResponse = IDL.Vec(Snapshot);
+
+export function decodeListCanisterSnapshotsResponse(
+  arg: Uint8Array,
+): Snapshot[] {
+  const payload = decodeCandid<Snapshot[]>(
+    [ListCanisterSnapshotsResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode ListCanisterSnapshotsResponse');
+  }
+
+  return payload;
+}
+
+const DeleteCanisterSnapshotRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  snapshot_id: SnapshotId,
+});
+
+export interface DeleteCanisterSnapshotRequest {
+  canister_id: Principal;
+  snapshot_id: Uint8Array;
+}
+
+export function encodeDeleteCanisterSnapshotRequest(
+  arg: DeleteCanisterSnapshotRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([DeleteCanisterSnapshotRequest], [arg]));
+}
+
+// Canister snapshot data transfer types
+
+const ExportedGlobal = IDL.Variant({
+  i32: IDL.Int32,
+  i64: IDL.Int64,
+  f32: IDL.Float32,
+  f64: IDL.Float64,
+  v128: IDL.Nat,
+});
+
+export type ExportedGlobal =
+  | { i32: number }
+  | { i64: bigint }
+  | { f32: number }
+  | { f64: number }
+  | { v128: bigint };
+
+const GlobalTimer = IDL.Variant({
+  inactive: IDL.Null,
+  active: IDL.Nat64,
+});
+
+export type GlobalTimer = { inactive: null } | { active: bigint };
+
+const OnLowWasmMemoryHookStatus = IDL.Variant({
+  condition_not_satisfied: IDL.Null,
+  ready: IDL.Null,
+  executed: IDL.Null,
+});
+
+export type OnLowWasmMemoryHookStatus =
+  | { condition_not_satisfied: null }
+  | { ready: null }
+  | { executed: null };
+
+const ReadCanisterSnapshotMetadataRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  snapshot_id: SnapshotId,
+});
+
+export interface ReadCanisterSnapshotMetadataRequest {
+  canister_id: Principal;
+  snapshot_id: Uint8Array;
+}
+
+export function encodeReadCanisterSnapshotMetadataRequest(
+  arg: ReadCanisterSnapshotMetadataRequest,
+): Uint8Array {
+  return new Uint8Array(
+    IDL.encode([ReadCanisterSnapshotMetadataRequest], [arg]),
+  );
+}
+
+const ReadCanisterSnapshotMetadataResponse = IDL.Record({
+  source: IDL.Variant({
+    taken_from_canister: IDL.Reserved,
+    metadata_upload: IDL.Reserved,
+  }),
+  taken_at_timestamp: IDL.Nat64,
+  wasm_module_size: IDL.Nat64,
+  exported_globals: IDL.Vec(ExportedGlobal),
+  wasm_memory_size: IDL.Nat64,
+  stable_memory_size: IDL.Nat64,
+  wasm_chunk_store: IDL.Vec(ChunkHash),
+  canister_version: IDL.Nat64,
+  certified_data: IDL.Vec(IDL.Nat8),
+  global_timer: IDL.Opt(GlobalTimer),
+  on_low_wasm_memory_hook_status: IDL.Opt(OnLowWasmMemoryHookStatus),
+});
+
+export interface ReadCanisterSnapshotMetadataResponse {
+  source: { taken_from_canister: unknown } | { metadata_upload: unknown };
+  taken_at_timestamp: bigint;
+  wasm_module_size: bigint;
+  exported_globals: ExportedGlobal[];
+  wasm_memory_size: bigint;
+  stable_memory_size: bigint;
+  wasm_chunk_store: ChunkHash[];
+  canister_version: bigint;
+  certified_data: Uint8Array;
+  global_timer: [] | [GlobalTimer];
+  on_low_wasm_memory_hook_status: [] | [OnLowWasmMemoryHookStatus];
+}
+
+export function decodeReadCanisterSnapshotMetadataResponse(
+  arg: Uint8Array,
+): ReadCanisterSnapshotMetadataResponse {
+  const payload = decodeCandid<ReadCanisterSnapshotMetadataResponse>(
+    [ReadCanisterSnapshotMetadataResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode ReadCanisterSnapshotMetadataResponse');
+  }
+
+  return payload;
+}
+
+const SnapshotDataRange = IDL.Record({
+  offset: IDL.Nat64,
+  size: IDL.Nat64,
+});
+
+export interface SnapshotDataRange {
+  offset: bigint;
+  size: bigint;
+}
+
+const ReadCanisterSnapshotDataRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  snapshot_id: SnapshotId,
+  kind: IDL.Variant({
+    wasm_module: SnapshotDataRange,
+    main_memory: SnapshotDataRange,
+    stable_memory: SnapshotDataRange,
+    wasm_chunk: ChunkHash,
+  }),
+});
+
+export interface ReadCanisterSnapshotDataRequest {
+  canister_id: Principal;
+  snapshot_id: Uint8Array;
+  kind:
+    | { wasm_module: SnapshotDataRange }
+    | { main_memory: SnapshotDataRange }
+    | { stable_memory: SnapshotDataRange }
+    | { wasm_chunk: ChunkHash };
+}
+
+export function encodeReadCanisterSnapshotDataRequest(
+  arg: ReadCanisterSnapshotDataRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([ReadCanisterSnapshotDataRequest], [arg]));
+}
+
+const ReadCanisterSnapshotDataResponse = IDL.Record({
+  chunk: IDL.Vec(IDL.Nat8),
+});
+
+export interface ReadCanisterSnapshotDataResponse {
+  chunk: Uint8Array;
+}
+
+export function decodeReadCanisterSnapshotDataResponse(
+  arg: Uint8Array,
+): ReadCanisterSnapshotDataResponse {
+  const payload = decodeCandid<ReadCanisterSnapshotDataResponse>(
+    [ReadCanisterSnapshotDataResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode ReadCanisterSnapshotDataResponse');
+  }
+
+  return payload;
+}
+
+const UploadCanisterSnapshotMetadataRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  replace_snapshot: IDL.Opt(SnapshotId),
+  wasm_module_size: IDL.Nat64,
+  exported_globals: IDL.Vec(ExportedGlobal),
+  wasm_memory_size: IDL.Nat64,
+  stable_memory_size: IDL.Nat64,
+  certified_data: IDL.Vec(IDL.Nat8),
+  global_timer: IDL.Opt(GlobalTimer),
+  on_low_wasm_memory_hook_status: IDL.Opt(OnLowWasmMemoryHookStatus),
+});
+
+export interface UploadCanisterSnapshotMetadataRequest {
+  canister_id: Principal;
+  replace_snapshot: [] | [Uint8Array];
+  wasm_module_size: bigint;
+  exported_globals: ExportedGlobal[];
+  wasm_memory_size: bigint;
+  stable_memory_size: bigint;
+  certified_data: Uint8Array;
+  global_timer: [] | [GlobalTimer];
+  on_low_wasm_memory_hook_status: [] | [OnLowWasmMemoryHookStatus];
+}
+
+export function encodeUploadCanisterSnapshotMetadataRequest(
+  arg: UploadCanisterSnapshotMetadataRequest,
+): Uint8Array {
+  return new Uint8Array(
+    IDL.encode([UploadCanisterSnapshotMetadataRequest], [arg]),
+  );
+}
+
+const UploadCanisterSnapshotMetadataResponse = IDL.Record({
+  snapshot_id: SnapshotId,
+});
+
+export interface UploadCanisterSnapshotMetadataResponse {
+  snapshot_id: Uint8Array;
+}
+
+export function decodeUploadCanisterSnapshotMetadataResponse(
+  arg: Uint8Array,
+): UploadCanisterSnapshotMetadataResponse {
+  const payload = decodeCandid<UploadCanisterSnapshotMetadataResponse>(
+    [UploadCanisterSnapshotMetadataResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode UploadCanisterSnapshotMetadataResponse');
+  }
+
+  return payload;
+}
+
+const SnapshotDataOffset = IDL.Record({
+  offset: IDL.Nat64,
+});
+
+export interface SnapshotDataOffset {
+  offset: bigint;
+}
+
+const UploadCanisterSnapshotDataRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  snapshot_id: SnapshotId,
+  kind: IDL.Variant({
+    wasm_module: SnapshotDataOffset,
+    main_memory: SnapshotDataOffset,
+    stable_memory: SnapshotDataOffset,
+    wasm_chunk: IDL.Null,
+  }),
+  chunk: IDL.Vec(IDL.Nat8),
+});
+
+export interface UploadCanisterSnapshotDataRequest {
+  canister_id: Principal;
+  snapshot_id: Uint8Array;
+  kind:
+    | { wasm_module: SnapshotDataOffset }
+    | { main_memory: SnapshotDataOffset }
+    | { stable_memory: SnapshotDataOffset }
+    | { wasm_chunk: null };
+  chunk: Uint8Array;
+}
+
+export function encodeUploadCanisterSnapshotDataRequest(
+  arg: UploadCanisterSnapshotDataRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([UploadCanisterSnapshotDataRequest], [arg]));
+}
+
+// Canister logs types
+
+const CanisterLogRange = IDL.Record({
+  start: IDL.Nat64,
+  end: IDL.Nat64,
+});
+
+export interface CanisterLogRange {
+  start: bigint;
+  end: bigint;
+}
+
+const CanisterLogFilter = IDL.Variant({
+  by_idx: CanisterLogRange,
+  by_timestamp_nanos: CanisterLogRange,
+});
+
+export type CanisterLogFilter =
+  | { by_idx: CanisterLogRange }
+  | { by_timestamp_nanos: CanisterLogRange };
+
+const FetchCanisterLogsRequest = IDL.Record({
+  canister_id: IDL.Principal,
+  filter: IDL.Opt(CanisterLogFilter),
+});
+
+export interface FetchCanisterLogsRequest {
+  canister_id: Principal;
+  filter: [] | [CanisterLogFilter];
+}
+
+export function encodeFetchCanisterLogsRequest(
+  arg: FetchCanisterLogsRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([FetchCanisterLogsRequest], [arg]));
+}
+
+const CanisterLogRecord = IDL.Record({
+  idx: IDL.Nat64,
+  timestamp_nanos: IDL.Nat64,
+  content: IDL.Vec(IDL.Nat8),
+});
+
+export interface CanisterLogRecord {
+  idx: bigint;
+  timestamp_nanos: bigint;
+  content: Uint8Array;
+}
+
+const FetchCanisterLogsResponse = IDL.Record({
+  canister_log_records: IDL.Vec(CanisterLogRecord),
+});
+
+export interface FetchCanisterLogsResponse {
+  canister_log_records: CanisterLogRecord[];
+}
+
+export function decodeFetchCanisterLogsResponse(
+  arg: Uint8Array,
+): FetchCanisterLogsResponse {
+  const payload = decodeCandid<FetchCanisterLogsResponse>(
+    [FetchCanisterLogsResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode FetchCanisterLogsResponse');
+  }
+
+  return payload;
+}
+
+// Threshold signature types
+
+const EcdsaCurve = IDL.Variant({
+  secp256k1: IDL.Null,
+});
+
+export type EcdsaCurve = { secp256k1: null };
+
+const EcdsaKeyId = IDL.Record({
+  curve: EcdsaCurve,
+  name: IDL.Text,
+});
+
+export interface EcdsaKeyId {
+  curve: EcdsaCurve;
+  name: string;
+}
+
+const EcdsaPublicKeyRequest = IDL.Record({
+  canister_id: IDL.Opt(IDL.Principal),
+  derivation_path: IDL.Vec(IDL.Vec(IDL.Nat8)),
+  key_id: EcdsaKeyId,
+});
+
+export interface EcdsaPublicKeyRequest {
+  canister_id: [] | [Principal];
+  derivation_path: Uint8Array[];
+  key_id: EcdsaKeyId;
+}
+
+export function encodeEcdsaPublicKeyRequest(
+  arg: EcdsaPublicKeyRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([EcdsaPublicKeyRequest], [arg]));
+}
+
+const ThresholdPublicKeyResponse = IDL.Record({
+  public_key: IDL.Vec(IDL.Nat8),
+  chain_code: IDL.Vec(IDL.Nat8),
+});
+
+export interface ThresholdPublicKeyResponse {
+  public_key: Uint8Array;
+  chain_code: Uint8Array;
+}
+
+export function decodeEcdsaPublicKeyResponse(
+  arg: Uint8Array,
+): ThresholdPublicKeyResponse {
+  const payload = decodeCandid<ThresholdPublicKeyResponse>(
+    [ThresholdPublicKeyResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode EcdsaPublicKeyResponse');
+  }
+
+  return payload;
+}
+
+const SignWithEcdsaRequest = IDL.Record({
+  message_hash: IDL.Vec(IDL.Nat8),
+  derivation_path: IDL.Vec(IDL.Vec(IDL.Nat8)),
+  key_id: EcdsaKeyId,
+});
+
+export interface SignWithEcdsaRequest {
+  message_hash: Uint8Array;
+  derivation_path: Uint8Array[];
+  key_id: EcdsaKeyId;
+}
+
+export function encodeSignWithEcdsaRequest(
+  arg: SignWithEcdsaRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([SignWithEcdsaRequest], [arg]));
+}
+
+const ThresholdSignatureResponse = IDL.Record({
+  signature: IDL.Vec(IDL.Nat8),
+});
+
+export interface ThresholdSignatureResponse {
+  signature: Uint8Array;
+}
+
+export function decodeSignWithEcdsaResponse(
+  arg: Uint8Array,
+): ThresholdSignatureResponse {
+  const payload = decodeCandid<ThresholdSignatureResponse>(
+    [ThresholdSignatureResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode SignWithEcdsaResponse');
+  }
+
+  return payload;
+}
+
+const SchnorrAlgorithm = IDL.Variant({
+  bip340secp256k1: IDL.Null,
+  ed25519: IDL.Null,
+});
+
+export type SchnorrAlgorithm = { bip340secp256k1: null } | { ed25519: null };
+
+const SchnorrKeyId = IDL.Record({
+  algorithm: SchnorrAlgorithm,
+  name: IDL.Text,
+});
+
+export interface SchnorrKeyId {
+  algorithm: SchnorrAlgorithm;
+  name: string;
+}
+
+const SchnorrPublicKeyRequest = IDL.Record({
+  canister_id: IDL.Opt(IDL.Principal),
+  derivation_path: IDL.Vec(IDL.Vec(IDL.Nat8)),
+  key_id: SchnorrKeyId,
+});
+
+export interface SchnorrPublicKeyRequest {
+  canister_id: [] | [Principal];
+  derivation_path: Uint8Array[];
+  key_id: SchnorrKeyId;
+}
+
+export function encodeSchnorrPublicKeyRequest(
+  arg: SchnorrPublicKeyRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([SchnorrPublicKeyRequest], [arg]));
+}
+
+export function decodeSchnorrPublicKeyResponse(
+  arg: Uint8Array,
+): ThresholdPublicKeyResponse {
+  const payload = decodeCandid<ThresholdPublicKeyResponse>(
+    [ThresholdPublicKeyResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode SchnorrPublicKeyResponse');
+  }
+
+  return payload;
+}
+
+const SchnorrAux = IDL.Variant({
+  bip341: IDL.Record({
+    merkle_root_hash: IDL.Vec(IDL.Nat8),
+  }),
+});
+
+export type SchnorrAux = { bip341: { merkle_root_hash: Uint8Array } };
+
+const SignWithSchnorrRequest = IDL.Record({
+  message: IDL.Vec(IDL.Nat8),
+  derivation_path: IDL.Vec(IDL.Vec(IDL.Nat8)),
+  key_id: SchnorrKeyId,
+  aux: IDL.Opt(SchnorrAux),
+});
+
+export interface SignWithSchnorrRequest {
+  message: Uint8Array;
+  derivation_path: Uint8Array[];
+  key_id: SchnorrKeyId;
+  aux: [] | [SchnorrAux];
+}
+
+export function encodeSignWithSchnorrRequest(
+  arg: SignWithSchnorrRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([SignWithSchnorrRequest], [arg]));
+}
+
+export function decodeSignWithSchnorrResponse(
+  arg: Uint8Array,
+): ThresholdSignatureResponse {
+  const payload = decodeCandid<ThresholdSignatureResponse>(
+    [ThresholdSignatureResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode SignWithSchnorrResponse');
+  }
+
+  return payload;
+}
+
+// Randomness types
+
+const RawRandResponse = IDL.Vec(IDL.Nat8);
+
+export function decodeRawRandResponse(arg: Uint8Array): Uint8Array {
+  const payload = decodeCandid<Uint8Array>([RawRandResponse], arg);
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode RawRandResponse');
+  }
+
+  return payload;
+}
+
+// vetKD types
+
+const VetKdCurve = IDL.Variant({
+  bls12_381_g2: IDL.Null,
+});
+
+export type VetKdCurve = { bls12_381_g2: null };
+
+const VetKdKeyId = IDL.Record({
+  curve: VetKdCurve,
+  name: IDL.Text,
+});
+
+export interface VetKdKeyId {
+  curve: VetKdCurve;
+  name: string;
+}
+
+const VetKdPublicKeyRequest = IDL.Record({
+  canister_id: IDL.Opt(IDL.Principal),
+  context: IDL.Vec(IDL.Nat8),
+  key_id: VetKdKeyId,
+});
+
+export interface VetKdPublicKeyRequest {
+  canister_id: [] | [Principal];
+  context: Uint8Array;
+  key_id: VetKdKeyId;
+}
+
+export function encodeVetKdPublicKeyRequest(
+  arg: VetKdPublicKeyRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([VetKdPublicKeyRequest], [arg]));
+}
+
+const VetKdPublicKeyResponse = IDL.Record({
+  public_key: IDL.Vec(IDL.Nat8),
+});
+
+export interface VetKdPublicKeyResponse {
+  public_key: Uint8Array;
+}
+
+export function decodeVetKdPublicKeyResponse(
+  arg: Uint8Array,
+): VetKdPublicKeyResponse {
+  const payload = decodeCandid<VetKdPublicKeyResponse>(
+    [VetKdPublicKeyResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode VetKdPublicKeyResponse');
+  }
+
+  return payload;
+}
+
+const VetKdDeriveKeyRequest = IDL.Record({
+  input: IDL.Vec(IDL.Nat8),
+  context: IDL.Vec(IDL.Nat8),
+  transport_public_key: IDL.Vec(IDL.Nat8),
+  key_id: VetKdKeyId,
+});
+
+export interface VetKdDeriveKeyRequest {
+  input: Uint8Array;
+  context: Uint8Array;
+  transport_public_key: Uint8Array;
+  key_id: VetKdKeyId;
+}
+
+export function encodeVetKdDeriveKeyRequest(
+  arg: VetKdDeriveKeyRequest,
+): Uint8Array {
+  return new Uint8Array(IDL.encode([VetKdDeriveKeyRequest], [arg]));
+}
+
+const VetKdDeriveKeyResponse = IDL.Record({
+  encrypted_key: IDL.Vec(IDL.Nat8),
+});
+
+export interface VetKdDeriveKeyResponse {
+  encrypted_key: Uint8Array;
+}
+
+export function decodeVetKdDeriveKeyResponse(
+  arg: Uint8Array,
+): VetKdDeriveKeyResponse {
+  const payload = decodeCandid<VetKdDeriveKeyResponse>(
+    [VetKdDeriveKeyResponse],
+    arg,
+  );
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode VetKdDeriveKeyResponse');
+  }
+
+  return payload;
+}
+
+// HTTPS outcall transform types
+
+const HttpHeader = IDL.Record({
+  name: IDL.Text,
+  value: IDL.Text,
+});
+
+export interface HttpHeader {
+  name: string;
+  value: string;
+}
+
+const HttpRequestResult = IDL.Record({
+  status: IDL.Nat,
+  headers: IDL.Vec(HttpHeader),
+  body: IDL.Vec(IDL.Nat8),
+});
+
+export interface HttpRequestResult {
+  status: bigint;
+  headers: HttpHeader[];
+  body: Uint8Array;
+}
+
+const TransformArgs = IDL.Record({
+  response: HttpRequestResult,
+  context: IDL.Vec(IDL.Nat8),
+});
+
+export interface TransformArgs {
+  response: HttpRequestResult;
+  context: Uint8Array;
+}
+
+export function encodeTransformArgs(arg: TransformArgs): Uint8Array {
+  return new Uint8Array(IDL.encode([TransformArgs], [arg]));
+}
+
+export function decodeHttpRequestResult(arg: Uint8Array): HttpRequestResult {
+  const payload = decodeCandid<HttpRequestResult>([HttpRequestResult], arg);
+
+  if (isNil(payload)) {
+    throw new Error('Failed to decode HttpRequestResult');
+  }
+
+  return payload;
+}
@@ -2,7 +2,17 @@ import { IDL } from '@icp-sdk/core/candid';
 import { Principal } from '@icp-sdk/core/principal';
 import { Identity } from '@icp-sdk/core/agent';
 import { PocketIcClient } from './pocket-ic-client';
-import { decodeCandid } from './util';
+import {
+  CallWithCycles,
+  CanisterCallResult,
+  GetInterceptors,
+  decodeCandid,
+  interceptCall,
+  noCallWithCycles,
+  noInterceptors,
+  toCanisterCallResult,
+  toPrincipal,
+} from './util';
 
 /**
  * Typesafe method of a canister.
@@ -85,12 +95,204 @@ export type Actor<T extends ActorInterface<T> = ActorInterface> = T & {
    * ```
    */
   setIdentity(identity: Identity): void;
+
+  /**
+   * Create a view of the actor that sends all calls as the given Identity or Principal.
+   * The view has its own sender, so calls made through it do not affect
+   * the original actor or other views. This makes it safe to run calls
+   * for several users concurrently.
+   *
+   * @param sender The Identity or Principal to send calls as.
+   * @returns A new {@link Actor} bound to the given sender.
+   *
+   * @see [Identity](https://js.icp.build/core/latest/libs/agent/api/interfaces/identity/)
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, generateRandomIdentity } from '@dfinity/pic';
+   * import { _SERVICE, idlFactory } from '../declarations';
+   *
+   * const wasmPath = resolve('..', '..', 'canister.wasm');
+   *
+   * const pic = await PocketIc.create();
+   * const fixture = await pic.setupCanister<_SERVICE>(idlFactory, wasmPath);
+   * const { actor } = fixture;
+   *
+   * const alice = generateRandomIdentity();
+   * const bob = generateRandomIdentity();
+   *
+   * await Promise.all([
+   *   actor.as(alice).greet('Alice'),
+   *   actor.as(bob).greet('Bob'),
+   * ]);
+   * ```
+   */
+  as(sender: Identity | Principal): Actor<T>;
+
+  /**
+   * Create a view of the actor that attaches the given amount of cycles to every call.
+   * Ingress messages cannot carry cycles, so these calls are routed through
+   * a proxy canister that PocketIC installs on first use. The called canister
+   * therefore sees the proxy canister as the caller, not the sender of the actor.
+   *
+   * The cycles are taken from the proxy canister after topping it up with
+   * the same amount. Query methods are called as update methods.
+   *
+   * @param cycles The amount of cycles to attach to every call.
+   * @returns A new {@link CyclesActor} that attaches the cycles.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc } from '@dfinity/pic';
+   * import { _SERVICE, idlFactory } from '../declarations';
+   *
+   * const wasmPath = resolve('..', '..', 'canister.wasm');
+   *
+   * const pic = await PocketIc.create();
+   * const fixture = await pic.setupCanister<_SERVICE>(idlFactory, wasmPath);
+   * const { actor } = fixture;
+   *
+   * const { result, cyclesRefunded } = await actor
+   *   .withCycles(1_000_000n)
+   *   .deposit();
+   * ```
+   */
+  withCycles(cycles: bigint): CyclesActor<T>;
 };
 
+/**
+ * The result of a canister call made with a {@link CyclesActor}.
+ *
+ * @category Types
+ */
+export interface CyclesActorResult<T> {
+  /**
+   * The decoded response of the call.
+   */
+  result: T;
+
+  /**
+   * The amount of cycles that the called canister did not accept.
+   */
+  cyclesRefunded: bigint;
+}
+
+/**
+ * Typesafe method of a canister that attaches cycles to the call
+ * and returns a {@link CyclesActorResult}.
+ *
+ * @category Types
+ */
+export interface CyclesActorMethod<Args extends any[] = any[], Ret = any> {
+  (...args: Args): Promise<CyclesActorResult<Ret>>;
+}
+
+/**
+ * Candid interface of a canister where every method attaches cycles to the call,
+ * see {@link Actor.withCycles}.
+ *
+ * @category API
+ * @typeParam T The type of the {@link Actor}. Must implement {@link ActorInterface}.
+ */
+export type CyclesActor<T extends ActorInterface<T> = ActorInterface> = {
+  [K in keyof T]: CyclesActorMethod<
+    Parameters<T[K]>,
+    Awaited<ReturnType<T[K]>>
+  >;
+};
+
+/**
+ * The result of a canister call made with a {@link ResultActor}.
+ * Contains either the decoded response of the call in `ok`,
+ * or the details of the reject in `err`, see {@link CanisterRejectInfo}.
+ *
+ * @category Types
+ */
+export type ActorResult<T> = CanisterCallResult<T>;
+
+/**
+ * Typesafe method of a canister that returns an {@link ActorResult}
+ * instead of throwing when the call is rejected.
+ *
+ * @category Types
+ */
+export interface ResultActorMethod<Args extends any[] = any[], Ret = any> {
+  (...args: Args): Promise<ActorResult<Ret>>;
+}
+
+/**
+ * Candid interface of a canister where every method returns an {@link ActorResult}.
+ *
+ * @category Types
+ */
+export type ResultActorInterface<T extends ActorInterface<T> = ActorInterface> =
+  {
+    [K in keyof T]: ResultActorMethod<
+      Parameters<T[K]>,
+      Awaited<ReturnType<T[K]>>
+    >;
+  };
+
+/**
+ * A type-safe class that implements the Candid interface of a canister.
+ * In contrast to a normal {@link Actor}, the methods of a {@link ResultActor}
+ * do not throw when a call is rejected, but return an {@link ActorResult} instead.
+ * This is acquired by calling {@link PocketIc.createActor | createActor}
+ * with the `result` mode.
+ *
+ * @category API
+ * @typeParam T The type of the {@link Actor}. Must implement {@link ActorInterface}.
+ * @interface
+ */
+export type ResultActor<T extends ActorInterface<T> = ActorInterface> =
+  ResultActorInterface<T> & {
+    /**
+     * @ignore
+     */
+    new (): ResultActor<T>;
+
+    /**
+     * Set a Principal to be used as sender for all calls to the canister.
+     *
+     * @param principal The Principal to set.
+     *
+     * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+     */
+    setPrincipal(principal: Principal): void;
+
+    /**
+     * Set a Principal to be used as sender for all calls to the canister.
+     * This is a convenience method over {@link setPrincipal} that accepts an
+     * Identity and internally extracts the Principal.
+     *
+     * @param identity The identity to set.
+     *
+     * @see [Identity](https://js.icp.build/core/latest/libs/agent/api/interfaces/identity/)
+     * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+     */
+    setIdentity(identity: Identity): void;
+
+    /**
+     * Create a view of the actor that sends all calls as the given Identity or Principal.
+     * The view has its own sender, so calls made through it do not affect
+     * the original actor or other views.
+     *
+     * @param sender The Identity or Principal to send calls as.
+     * @returns A new {@link ResultActor} bound to the given sender.
+     *
+     * @see [Identity](https://js.icp.build/core/latest/libs/agent/api/interfaces/identity/)
+     * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+     */
+    as(sender: Identity | Principal): ResultActor<T>;
+  };
+
 export function createActorClass<T extends ActorInterface<T> = ActorInterface>(
   interfaceFactory: IDL.InterfaceFactory,
   canisterId: Principal,
   pocketIcClient: PocketIcClient,
+  getInterceptors: GetInterceptors = noInterceptors,
+  callWithCycles: CallWithCycles = noCallWithCycles,
 ): Actor<T> {
   const service = interfaceFactory({ IDL });
   let sender: Principal | null = null;
@@ -118,14 +320,20 @@ export function createActorClass<T extends ActorInterface<T> = ActorInterface>(
       const arg = IDL.encode(func.argTypes, args);
       const sender = getSender();
 
-      const res = await pocketIcClient.queryCall({
-        canisterId,
-        sender,
-        method,
-        payload: new Uint8Array(arg),
-      });
+      return await interceptCall(
+        getInterceptors(),
+        { canisterId, method, args, sender },
+        async () => {
+          const res = await pocketIcClient.queryCall({
+            canisterId,
+            sender,
+            method,
+            payload: new Uint8Array(arg),
+          });
 
-      return decodeCandid(func.retTypes, res.body);
+          return decodeCandid(func.retTypes, res.body);
+        },
+      );
     };
   }
 
@@ -134,14 +342,51 @@ export function createActorClass<T extends ActorInterface<T> = ActorInterface>(
       const arg = IDL.encode(func.argTypes, args);
       const sender = getSender();
 
-      const res = await pocketIcClient.updateCall({
-        canisterId,
-        sender,
-        method,
-        payload: new Uint8Array(arg),
-      });
+      return await interceptCall(
+        getInterceptors(),
+        { canisterId, method, args, sender },
+        async () => {
+          const res = await pocketIcClient.updateCall({
+            canisterId,
+            sender,
+            method,
+            payload: new Uint8Array(arg),
+          });
+
+          return decodeCandid(func.retTypes, res.body);
+        },
+      );
+    };
+  }
+
+  function createCyclesMethod(
+    method: string,
+    func: IDL.FuncClass,
+    cycles: bigint,
+  ): CyclesActorMethod {
+    return async function (...args) {
+      const arg = IDL.encode(func.argTypes, args);
+      const sender = getSender();
+      let cyclesRefunded = 0n;
+
+      const result = await interceptCall(
+        getInterceptors(),
+        { canisterId, method, args, sender },
+        async () => {
+          const res = await callWithCycles({
+            canisterId,
+            sender,
+            method,
+            payload: new Uint8Array(arg),
+            cycles,
+          });
+          cyclesRefunded = res.cyclesRefunded;
 
-      return decodeCandid(func.retTypes, res.body);
+          return decodeCandid(func.retTypes, res.body);
+        },
+      );
+
+      return { result, cyclesRefunded };
     };
   }
 
@@ -155,9 +400,83 @@ export function createActorClass<T extends ActorInterface<T> = ActorInterface>(
     sender = identity.getPrincipal();
   };
 
+  Actor.prototype.as = function (newSender: Identity | Principal): Actor<T> {
+    const ActorView = createActorClass<T>(
+      interfaceFactory,
+      canisterId,
+      pocketIcClient,
+      getInterceptors,
+      callWithCycles,
+    );
+    const view = new ActorView();
+    view.setPrincipal(toPrincipal(newSender));
+
+    return view;
+  };
+
+  Actor.prototype.withCycles = function (cycles: bigint): CyclesActor<T> {
+    const cyclesActor: Record<string, CyclesActorMethod> = {};
+    service._fields.forEach(([methodName, func]) => {
+      cyclesActor[methodName] = createCyclesMethod(methodName, func, cycles);
+    });
+
+    return cyclesActor as CyclesActor<T>;
+  };
+
   service._fields.forEach(([methodName, func]) => {
     Actor.prototype[methodName] = createActorMethod(methodName, func);
   });
 
   return Actor as never as Actor<T>;
 }
+
+export function createResultActorClass<
+  T extends ActorInterface<T> = ActorInterface,
+>(
+  interfaceFactory: IDL.InterfaceFactory,
+  canisterId: Principal,
+  pocketIcClient: PocketIcClient,
+  getInterceptors: GetInterceptors = noInterceptors,
+): ResultActor<T> {
+  const service = interfaceFactory({ IDL });
+  const BaseActor = createActorClass<Record<string, ActorMethod>>(
+    interfaceFactory,
+    canisterId,
+    pocketIcClient,
+    getInterceptors,
+  );
+  const actor = new BaseActor();
+
+  function ResultActor() {}
+
+  ResultActor.prototype.setPrincipal = function (newSender: Principal): void {
+    actor.setPrincipal(newSender);
+  };
+
+  ResultActor.prototype.setIdentity = function (identity: Identity): void {
+    actor.setIdentity(identity);
+  };
+
+  ResultActor.prototype.as = function (
+    newSender: Identity | Principal,
+  ): ResultActor<T> {
+    const ResultActorView = createResultActorClass<T>(
+      interfaceFactory,
+      canisterId,
+      pocketIcClient,
+      getInterceptors,
+    );
+    const view = new ResultActorView();
+    view.setPrincipal(toPrincipal(newSender));
+
+    return view;
+  };
+
+  service._fields.forEach(([methodName]) => {
+    ResultActor.prototype[methodName] = function (...args: unknown[]) {
+      return toCanisterCallResult(actor[methodName](...args));
+    };
+  });
+
+  return ResultActor as never as ResultActor<T>;
+}
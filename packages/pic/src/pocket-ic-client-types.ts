@@ -8,7 +8,7 @@ import {
   isNil,
   isNotNil,
 } from './util';
-import { TopologyValidationError } from './error';
+import { CanisterRejectError, TopologyValidationError } from './error';
 import { CanisterCyclesCostSchedule } from './pocket-ic-types';
 
 export { CanisterCyclesCostSchedule };
@@ -30,6 +30,9 @@ export interface CreateInstanceRequest {
   ingressMaxRetries?: number;
   icpConfig?: IcpConfig;
   icpFeatures?: IcpFeatures;
+  bitcoindAddr?: string[];
+  stateDir?: string;
+  resume?: boolean;
 }
 
 export interface SubnetConfig<
@@ -110,6 +113,7 @@ export interface IcpFeatures {
   nnsGovernance?: IcpFeaturesConfig;
   sns?: IcpFeaturesConfig;
   ii?: IcpFeaturesConfig;
+  bitcoin?: IcpFeaturesConfig;
   nnsUi?: IcpFeaturesConfig;
 }
 
@@ -117,6 +121,8 @@ export interface EncodedCreateInstanceRequest {
   subnet_config_set: EncodedCreateInstanceSubnetConfig;
   icp_config?: EncodedIcpConfig;
   icp_features?: EncodedIcpFeatures;
+  bitcoind_addr?: string[];
+  state_dir?: string;
 }
 
 export interface EncodedCreateInstanceSubnetConfig {
@@ -155,6 +161,7 @@ export interface EncodedIcpFeatures {
   nns_governance?: EncodedIcpFeaturesConfig;
   sns?: EncodedIcpFeaturesConfig;
   ii?: EncodedIcpFeaturesConfig;
+  bitcoin?: EncodedIcpFeaturesConfig;
   nns_ui?: EncodedIcpFeaturesConfig;
 }
 
@@ -294,6 +301,9 @@ function encodeIcpFeatures(icpFeatures: IcpFeatures): EncodedIcpFeatures {
       : undefined,
     sns: icpFeatures.sns ? encodeIcpFeaturesConfig(icpFeatures.sns) : undefined,
     ii: icpFeatures.ii ? encodeIcpFeaturesConfig(icpFeatures.ii) : undefined,
+    bitcoin: icpFeatures.bitcoin
+      ? encodeIcpFeaturesConfig(icpFeatures.bitcoin)
+      : undefined,
     nns_ui: undefined, // Currently not supported.
   };
 }
@@ -308,6 +318,23 @@ export function encodeCreateInstanceRequest(
     application: [defaultApplicationSubnet],
   };
 
+  // The topology of a resumed instance is restored from the state directory.
+  if (defaultOptions.resume) {
+    return {
+      subnet_config_set: {
+        system: [],
+        application: [],
+        cloud_engine: [],
+        verified_application: [],
+      },
+      icp_config: defaultOptions.icpConfig
+        ? encodeIcpConfig(defaultOptions.icpConfig)
+        : undefined,
+      bitcoind_addr: defaultOptions.bitcoindAddr,
+      state_dir: defaultOptions.stateDir,
+    };
+  }
+
   const options: EncodedCreateInstanceRequest = {
     subnet_config_set: {
       nns: encodeSubnetConfig(defaultOptions.nns),
@@ -331,6 +358,8 @@ export function encodeCreateInstanceRequest(
     icp_features: defaultOptions.icpFeatures
       ? encodeIcpFeatures(defaultOptions.icpFeatures)
       : undefined,
+    bitcoind_addr: defaultOptions.bitcoindAddr,
+    state_dir: defaultOptions.stateDir,
   };
 
   if (
@@ -352,6 +381,26 @@ export function encodeCreateInstanceRequest(
 
 //#endregion CreateInstance
 
+//#region ListInstances
+
+export type EncodedListInstancesResponse = string[];
+
+export type ListInstancesResponse = number[];
+
+const DELETED_INSTANCE_STATE = 'Deleted';
+
+// The server lists the state of every instance it has created, indexed by
+// instance ID, including instances that were deleted since.
+export function decodeListInstancesResponse(
+  res: EncodedListInstancesResponse,
+): ListInstancesResponse {
+  return res.flatMap((state, instanceId) =>
+    state.startsWith(DELETED_INSTANCE_STATE) ? [] : [instanceId],
+  );
+}
+
+//#endregion ListInstances
+
 //#region GetPubKey
 
 export interface GetPubKeyRequest {
@@ -1073,19 +1122,35 @@ export type EncodedCanisterCallResponse = EncodedCanisterCallResult<string>;
 
 export function decodeCanisterCallResponse(
   res: EncodedCanisterCallResponse,
+  req: CanisterCallContext,
 ): CanisterCallResponse {
-  const okRes = decodeResultResponse<string>(res);
+  const okRes = decodeResultResponse<string>(res, req);
 
   return {
     body: base64Decode(okRes),
   };
 }
 
-function decodeResultResponse<T>(res: EncodedCanisterCallResult<T>): T {
+export const CANISTER_NOT_FOUND_ERROR_CODE = 301;
+
+export interface CanisterCallContext {
+  canisterId: Principal;
+  method: string;
+}
+
+function decodeResultResponse<T>(
+  res: EncodedCanisterCallResult<T>,
+  { canisterId, method }: CanisterCallContext,
+): T {
   if ('Err' in res) {
-    throw new Error(
-      `Canister call failed: ${res.Err.reject_message}. Reject code: ${res.Err.reject_code}. Error code: ${res.Err.error_code}. Certified: ${res.Err.certified}`,
-    );
+    throw new CanisterRejectError({
+      rejectCode: res.Err.reject_code,
+      errorCode: res.Err.error_code,
+      rejectMessage: res.Err.reject_message,
+      certified: res.Err.certified,
+      canisterId,
+      method,
+    });
   }
 
   return res.Ok;
@@ -1093,6 +1158,25 @@ function decodeResultResponse<T>(res: EncodedCanisterCallResult<T>): T {
 
 //#endregion CanisterCall
 
+//#region CallObserver
+
+export type CanisterCallKind = 'query' | 'update';
+
+export interface ObservedCanisterCall {
+  kind: CanisterCallKind;
+  request: CanisterCallRequest;
+  startedAt: Date;
+  durationMs: number;
+  response?: CanisterCallResponse;
+  error?: unknown;
+}
+
+export type CanisterCallObserver = (
+  call: ObservedCanisterCall,
+) => void | Promise<void>;
+
+//#endregion CallObserver
+
 //#region SubmitCanisterCall
 
 export type SubmitCanisterCallRequest = CanisterCallRequest;
@@ -1105,7 +1189,7 @@ export function encodeSubmitCanisterCallRequest(
   return encodeCanisterCallRequest(req);
 }
 
-export interface SubmitCanisterCallResponse {
+export interface SubmitCanisterCallResponse extends CanisterCallContext {
   effectivePrincipal: EffectivePrincipal | null;
   messageId: Uint8Array;
 }
@@ -1120,12 +1204,15 @@ export type EncodedSubmitCanisterCallResponse =
 
 export function decodeSubmitCanisterCallResponse(
   res: EncodedSubmitCanisterCallResponse,
+  req: SubmitCanisterCallRequest,
 ): SubmitCanisterCallResponse {
-  const okRes = decodeResultResponse<EncodedCanisterCallId>(res);
+  const okRes = decodeResultResponse<EncodedCanisterCallId>(res, req);
 
   return {
     effectivePrincipal: decodeEffectivePrincipal(okRes.effective_principal),
     messageId: okRes.message_id,
+    canisterId: req.canisterId,
+    method: req.method,
   };
 }
 
@@ -1133,7 +1220,7 @@ export function decodeSubmitCanisterCallResponse(
 
 //#region IngressStatus
 
-export interface IngressStatusRequest {
+export interface IngressStatusRequest extends CanisterCallContext {
   messageId: EncodedCanisterCallId;
   caller?: Principal;
 }
@@ -1158,13 +1245,14 @@ export type EncodedIngressStatusResponse = EncodedCanisterCallResponse | {};
 
 export function decodeIngressStatusResponse(
   res: EncodedIngressStatusResponse,
+  req: IngressStatusRequest,
 ): IngressStatusResponse | null {
   if (isNil(res)) {
     return null;
   }
 
   if ('Ok' in res || 'Err' in res) {
-    return decodeCanisterCallResponse(res);
+    return decodeCanisterCallResponse(res, req);
   }
 
   throw new Error(`Unexpected ingress status response ${res}`);
@@ -1193,8 +1281,9 @@ export type EncodedAwaitCanisterCallResponse = EncodedCanisterCallResponse;
 
 export function decodeAwaitCanisterCallResponse(
   res: EncodedAwaitCanisterCallResponse,
+  req: AwaitCanisterCallRequest,
 ): AwaitCanisterCallResponse {
-  return decodeCanisterCallResponse(res);
+  return decodeCanisterCallResponse(res, req);
 }
 
 //#endregion AwaitCanisterCall
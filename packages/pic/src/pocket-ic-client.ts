@@ -1,6 +1,10 @@
 import { JSONParse } from 'json-with-bigint';
 import { Http2Client } from './http2-client';
-import { ServerRequestTimeoutError } from './error';
+import {
+  CanisterRejectError,
+  ServerError,
+  ServerRequestTimeoutError,
+} from './error';
 import {
   EncodedAddCyclesRequest,
   EncodedAddCyclesResponse,
@@ -88,20 +92,48 @@ import {
   EncodedAutoProgressRequest,
   EncodedHttpGatewayRequest,
   EncodedHttpGatewayResponse,
+  CanisterCallKind,
+  CanisterCallObserver,
+  ObservedCanisterCall,
+  EncodedListInstancesResponse,
+  ListInstancesResponse,
+  decodeListInstancesResponse,
 } from './pocket-ic-client-types';
-import { base64DecodePrincipal, isNil } from './util';
+import { base64DecodePrincipal, hexEncode, isNil } from './util';
 import { Principal } from '@icp-sdk/core/principal';
 
 const PROCESSING_TIME_VALUE_MS = 30_000;
 
+// The maximum time to live of an ingress message on the IC, 5 minutes in nanoseconds.
+const MAX_INGRESS_TTL_NANOS = 5n * 60n * 1_000_000_000n;
+
+// The server error for messages that completed but whose reply or reject was pruned.
+const PRUNED_INGRESS_STATUS_PATTERN = /has been pruned/;
+
+interface PendingCanisterCall {
+  request: CanisterCallRequest;
+  startedAt: Date;
+}
+
+interface InFlightMessage {
+  message: SubmitCanisterCallResponse;
+  // The instance time when the message was first seen without a status,
+  // which is no earlier than the time it was submitted.
+  firstSeenAtNanos: bigint | null;
+}
+
 export class PocketIcClient {
   private isInstanceDeleted = false;
   private httpGatewayInstanceId: number | null = null;
+  private readonly callObservers: CanisterCallObserver[] = [];
+  private readonly pendingCalls = new Map<string, PendingCanisterCall>();
+  private readonly inFlightMessages = new Map<string, InFlightMessage>();
 
   private constructor(
     private readonly serverClient: Http2Client,
-    private readonly instancePath: string,
-    private readonly instanceId: number,
+    private instancePath: string,
+    private instanceId: number,
+    private readonly createRequest?: CreateInstanceRequest,
   ) {}
 
   public static async create(
@@ -112,6 +144,20 @@ export class PocketIcClient {
       req?.processingTimeoutMs ?? PROCESSING_TIME_VALUE_MS;
     const serverClient = new Http2Client(url, processingTimeoutMs);
 
+    const instanceId = await PocketIcClient.createInstance(serverClient, req);
+
+    return new PocketIcClient(
+      serverClient,
+      `/instances/${instanceId}`,
+      instanceId,
+      req,
+    );
+  }
+
+  private static async createInstance(
+    serverClient: Http2Client,
+    req?: CreateInstanceRequest,
+  ): Promise<number> {
     const res = await serverClient.jsonPost<
       EncodedCreateInstanceRequest,
       CreateInstanceResponse
@@ -126,7 +172,21 @@ export class PocketIcClient {
       throw new Error(res.Error.message);
     }
 
-    const instanceId = res.Created.instance_id;
+    return res.Created.instance_id;
+  }
+
+  public static async connect(
+    url: string,
+    instanceId: number,
+  ): Promise<PocketIcClient> {
+    const serverClient = new Http2Client(url, PROCESSING_TIME_VALUE_MS);
+
+    const instanceIds = await PocketIcClient.getInstanceIds(serverClient);
+    if (!instanceIds.includes(instanceId)) {
+      throw new Error(
+        `Instance ${instanceId} does not exist or was deleted on the PocketIC server at ${url}`,
+      );
+    }
 
     return new PocketIcClient(
       serverClient,
@@ -135,6 +195,54 @@ export class PocketIcClient {
     );
   }
 
+  public static async listInstances(
+    url: string,
+  ): Promise<ListInstancesResponse> {
+    const serverClient = new Http2Client(url, PROCESSING_TIME_VALUE_MS);
+
+    return await PocketIcClient.getInstanceIds(serverClient);
+  }
+
+  private static async getInstanceIds(
+    serverClient: Http2Client,
+  ): Promise<ListInstancesResponse> {
+    const res = await serverClient.jsonGet<EncodedListInstancesResponse>({
+      path: '/instances',
+    });
+
+    return decodeListInstancesResponse(res);
+  }
+
+  public getInstanceId(): number {
+    return this.instanceId;
+  }
+
+  public getStateDir(): string | null {
+    return this.createRequest?.stateDir ?? null;
+  }
+
+  // Replaces the deleted instance with a new one that is resumed from the
+  // state directory, keeping the options the instance was created with.
+  public async resumeInstance(): Promise<void> {
+    if (!this.isInstanceDeleted) {
+      throw new Error('The instance must be deleted before it is resumed');
+    }
+
+    if (isNil(this.createRequest?.stateDir)) {
+      throw new Error('The instance was not created with a state directory');
+    }
+
+    const instanceId = await PocketIcClient.createInstance(this.serverClient, {
+      ...this.createRequest,
+      resume: true,
+    });
+
+    this.instanceId = instanceId;
+    this.instancePath = `/instances/${instanceId}`;
+    this.isInstanceDeleted = false;
+    this.httpGatewayInstanceId = null;
+  }
+
   public async deleteInstance(): Promise<void> {
     this.assertInstanceNotDeleted();
 
@@ -144,6 +252,8 @@ export class PocketIcClient {
     });
 
     this.isInstanceDeleted = true;
+    this.pendingCalls.clear();
+    this.inFlightMessages.clear();
   }
 
   public async getControllers(
@@ -314,13 +424,32 @@ export class PocketIcClient {
     );
   }
 
+  public addCallObserver(observer: CanisterCallObserver): void {
+    this.callObservers.push(observer);
+  }
+
+  public removeCallObserver(observer: CanisterCallObserver): void {
+    const index = this.callObservers.indexOf(observer);
+
+    if (index !== -1) {
+      this.callObservers.splice(index, 1);
+    }
+
+    // Deferred calls that are awaited later are no longer observed.
+    if (this.callObservers.length === 0) {
+      this.pendingCalls.clear();
+    }
+  }
+
   public async updateCall(
     req: CanisterCallRequest,
   ): Promise<CanisterCallResponse> {
     this.assertInstanceNotDeleted();
 
-    const res = await this.submitCall(req);
-    return await this.awaitCall(res);
+    return await this.observeCall('update', req, new Date(), async () => {
+      const res = await this.submitIngressMessage(req);
+      return await this.awaitIngressMessage(res);
+    });
   }
 
   public async queryCall(
@@ -328,12 +457,14 @@ export class PocketIcClient {
   ): Promise<CanisterCallResponse> {
     this.assertInstanceNotDeleted();
 
-    const res = await this.post<
-      EncodedCanisterCallRequest,
-      EncodedCanisterCallResponse
-    >('/read/query', encodeCanisterCallRequest(req));
+    return await this.observeCall('query', req, new Date(), async () => {
+      const res = await this.post<
+        EncodedCanisterCallRequest,
+        EncodedCanisterCallResponse
+      >('/read/query', encodeCanisterCallRequest(req));
 
-    return decodeCanisterCallResponse(res);
+      return decodeCanisterCallResponse(res, req);
+    });
   }
 
   public async submitCall(
@@ -341,12 +472,31 @@ export class PocketIcClient {
   ): Promise<SubmitCanisterCallResponse> {
     this.assertInstanceNotDeleted();
 
-    const res = await this.post<
-      EncodedSubmitCanisterCallRequest,
-      EncodedSubmitCanisterCallResponse
-    >('/update/submit_ingress_message', encodeSubmitCanisterCallRequest(req));
+    if (this.callObservers.length === 0) {
+      return this.trackInFlightMessage(await this.submitIngressMessage(req));
+    }
 
-    return decodeSubmitCanisterCallResponse(res);
+    const startedAt = new Date();
+    try {
+      const res = this.trackInFlightMessage(
+        await this.submitIngressMessage(req),
+      );
+      this.pendingCalls.set(hexEncode(res.messageId), {
+        request: req,
+        startedAt,
+      });
+
+      return res;
+    } catch (error) {
+      await this.notifyCallObservers({
+        kind: 'update',
+        request: req,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        error,
+      });
+      throw error;
+    }
   }
 
   public async ingressStatus(
@@ -359,7 +509,7 @@ export class PocketIcClient {
       EncodedIngressStatusResponse
     >('/read/ingress_status', encodeIngressStatusRequest(req));
 
-    return decodeIngressStatusResponse(res);
+    return decodeIngressStatusResponse(res, req);
   }
 
   public async awaitCall(
@@ -367,13 +517,110 @@ export class PocketIcClient {
   ): Promise<AwaitCanisterCallResponse> {
     this.assertInstanceNotDeleted();
 
+    const messageId = hexEncode(req.messageId);
+    this.inFlightMessages.delete(messageId);
+
+    const pendingCall = this.pendingCalls.get(messageId);
+    if (isNil(pendingCall)) {
+      return await this.awaitIngressMessage(req);
+    }
+
+    this.pendingCalls.delete(messageId);
+    return await this.observeCall(
+      'update',
+      pendingCall.request,
+      pendingCall.startedAt,
+      () => this.awaitIngressMessage(req),
+    );
+  }
+
+  public async getInFlightMessageCount(): Promise<number> {
+    this.assertInstanceNotDeleted();
+
+    if (this.inFlightMessages.size === 0) {
+      return 0;
+    }
+
+    const { nanosSinceEpoch } = await this.getTime();
+    for (const [messageId, inFlightMessage] of this.inFlightMessages) {
+      if (await this.isIngressMessageCompleted(inFlightMessage.message)) {
+        this.inFlightMessages.delete(messageId);
+        continue;
+      }
+
+      // The server does not distinguish messages that are still being
+      // processed from unknown or expired ones, so messages without a status
+      // are dropped once they must have expired.
+      inFlightMessage.firstSeenAtNanos ??= nanosSinceEpoch;
+      if (
+        nanosSinceEpoch - inFlightMessage.firstSeenAtNanos >
+        MAX_INGRESS_TTL_NANOS
+      ) {
+        this.inFlightMessages.delete(messageId);
+      }
+    }
+
+    return this.inFlightMessages.size;
+  }
+
+  private trackInFlightMessage(
+    res: SubmitCanisterCallResponse,
+  ): SubmitCanisterCallResponse {
+    this.inFlightMessages.set(hexEncode(res.messageId), {
+      message: res,
+      firstSeenAtNanos: null,
+    });
+
+    return res;
+  }
+
+  private async isIngressMessageCompleted(
+    message: SubmitCanisterCallResponse,
+  ): Promise<boolean> {
+    try {
+      const status = await this.ingressStatus({
+        messageId: encodeAwaitCanisterCallRequest(message),
+        canisterId: message.canisterId,
+        method: message.method,
+      });
+
+      return !isNil(status);
+    } catch (error) {
+      // A rejected message has completed, and the server responds with an
+      // error for messages whose result was already pruned.
+      if (
+        error instanceof CanisterRejectError ||
+        (error instanceof ServerError &&
+          PRUNED_INGRESS_STATUS_PATTERN.test(error.serverMessage))
+      ) {
+        return true;
+      }
+
+      throw error;
+    }
+  }
+
+  private async submitIngressMessage(
+    req: SubmitCanisterCallRequest,
+  ): Promise<SubmitCanisterCallResponse> {
+    const res = await this.post<
+      EncodedSubmitCanisterCallRequest,
+      EncodedSubmitCanisterCallResponse
+    >('/update/submit_ingress_message', encodeSubmitCanisterCallRequest(req));
+
+    return decodeSubmitCanisterCallResponse(res, req);
+  }
+
+  private async awaitIngressMessage(
+    req: AwaitCanisterCallRequest,
+  ): Promise<AwaitCanisterCallResponse> {
     try {
       const res = await this.post<
         EncodedAwaitCanisterCallRequest,
         EncodedAwaitCanisterCallResponse
       >('/update/await_ingress_message', encodeAwaitCanisterCallRequest(req));
 
-      return decodeAwaitCanisterCallResponse(res);
+      return decodeAwaitCanisterCallResponse(res, req);
     } catch (err) {
       if (err instanceof ServerRequestTimeoutError) {
         throw new Error(
@@ -387,6 +634,52 @@ export class PocketIcClient {
     }
   }
 
+  private async observeCall(
+    kind: CanisterCallKind,
+    request: CanisterCallRequest,
+    startedAt: Date,
+    call: () => Promise<CanisterCallResponse>,
+  ): Promise<CanisterCallResponse> {
+    if (this.callObservers.length === 0) {
+      return await call();
+    }
+
+    let response: CanisterCallResponse;
+    try {
+      response = await call();
+    } catch (error) {
+      await this.notifyCallObservers({
+        kind,
+        request,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        error,
+      });
+      throw error;
+    }
+
+    await this.notifyCallObservers({
+      kind,
+      request,
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      response,
+    });
+
+    return response;
+  }
+
+  private async notifyCallObservers(call: ObservedCanisterCall): Promise<void> {
+    // An observer that fails must not change the outcome of the call.
+    for (const observer of this.callObservers) {
+      try {
+        await observer(call);
+      } catch (error) {
+        console.error('Error observing canister call:', error);
+      }
+    }
+  }
+
   public async autoProgress(): Promise<void> {
     await this.post<EncodedAutoProgressRequest, {}>('/auto_progress', {
       artificial_delay_ms: 0,
@@ -2,8 +2,15 @@ import { IDL } from '@icp-sdk/core/candid';
 import { Principal } from '@icp-sdk/core/principal';
 import { Identity } from '@icp-sdk/core/agent';
 import { PocketIcClient } from './pocket-ic-client';
-import { ActorInterface, ActorMethod } from './pocket-ic-actor';
-import { decodeCandid } from './util';
+import { ActorInterface, ActorMethod, ActorResult } from './pocket-ic-actor';
+import {
+  GetInterceptors,
+  decodeCandid,
+  interceptDeferredCall,
+  noInterceptors,
+  toCanisterCallResult,
+  toPrincipal,
+} from './util';
 
 export interface DeferredActorMethod<
   Args extends unknown[] = unknown[],
@@ -75,6 +82,116 @@ export type DeferredActor<T extends ActorInterface<T> = ActorInterface> =
      * ```
      */
     setIdentity(identity: Identity): void;
+
+    /**
+     * Create a view of the actor that sends all calls as the given Identity or Principal.
+     * The view has its own sender, so calls made through it do not affect
+     * the original actor or other views. This makes it safe to submit calls
+     * for several users concurrently.
+     *
+     * @param sender The Identity or Principal to send calls as.
+     * @returns A new {@link DeferredActor} bound to the given sender.
+     *
+     * @see [Identity](https://js.icp.build/core/latest/libs/agent/api/interfaces/identity/)
+     * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+     *
+     * @example
+     * ```ts
+     * import { PocketIc, generateRandomIdentity } from '@dfinity/pic';
+     * import { _SERVICE, idlFactory } from '../declarations';
+     *
+     * const pic = await PocketIc.create();
+     * const deferredActor = pic.createDeferredActor<_SERVICE>(
+     *   idlFactory,
+     *   canisterId,
+     * );
+     *
+     * const alice = generateRandomIdentity();
+     * const executeGreet = await deferredActor.as(alice).greet('Alice');
+     * const greeting = await executeGreet();
+     * ```
+     */
+    as(sender: Identity | Principal): DeferredActor<T>;
+  };
+
+/**
+ * Typesafe method of a canister that submits a call and returns a function
+ * to execute it. The execute function resolves to an {@link ActorResult}
+ * instead of throwing when the call is rejected.
+ *
+ * @category Types
+ */
+export interface ResultDeferredActorMethod<
+  Args extends unknown[] = unknown[],
+  Ret = unknown,
+> {
+  (...args: Args): Promise<() => Promise<ActorResult<Ret>>>;
+}
+
+/**
+ * Candid interface of a canister where every method returns a deferred {@link ActorResult}.
+ *
+ * @category Types
+ */
+export type ResultDeferredActorInterface<
+  T extends ActorInterface<T> = ActorInterface,
+> = {
+  [K in keyof T]: ResultDeferredActorMethod<
+    Parameters<T[K]>,
+    Awaited<ReturnType<T[K]>>
+  >;
+};
+
+/**
+ * A {@link DeferredActor} whose calls do not throw when they are rejected,
+ * but resolve to an {@link ActorResult} instead.
+ * This is acquired by calling {@link PocketIc.createDeferredActor | createDeferredActor}
+ * with the `result` mode.
+ *
+ * @category API
+ * @typeParam T The type of the {@link DeferredActor}. Must implement {@link ActorInterface}.
+ * @interface
+ */
+export type ResultDeferredActor<T extends ActorInterface<T> = ActorInterface> =
+  ResultDeferredActorInterface<T> & {
+    /**
+     * @ignore
+     */
+    new (): ResultDeferredActor<T>;
+
+    /**
+     * Set a Principal to be used as sender for all calls to the canister.
+     *
+     * @param principal The Principal to set.
+     *
+     * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+     */
+    setPrincipal(principal: Principal): void;
+
+    /**
+     * Set a Principal to be used as sender for all calls to the canister.
+     * This is a convenience method over {@link setPrincipal} that accepts an
+     * Identity and internally extracts the Principal.
+     *
+     * @param identity The identity to set.
+     *
+     * @see [Identity](https://js.icp.build/core/latest/libs/agent/api/interfaces/identity/)
+     * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+     */
+    setIdentity(identity: Identity): void;
+
+    /**
+     * Create a view of the actor that sends all calls as the given Identity or Principal.
+     * The view has its own sender, so calls made through it do not affect
+     * the original actor or other views.
+     *
+     * @param sender The Identity or Principal to send calls as.
+     * @returns A new {@link ResultDeferredActor} bound to the given sender.
+     *
+     * @see [Identity](https://js.icp.build/core/latest/libs/agent/api/interfaces/identity/)
+     * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+     */
+    as(sender: Identity | Principal): ResultDeferredActor<T>;
   };
 
 export function createDeferredActorClass<
@@ -83,6 +200,7 @@ export function createDeferredActorClass<
   interfaceFactory: IDL.InterfaceFactory,
   canisterId: Principal,
   pocketIcClient: PocketIcClient,
+  getInterceptors: GetInterceptors = noInterceptors,
 ): DeferredActor<T> {
   const service = interfaceFactory({ IDL });
   let sender: Principal | null = null;
@@ -95,21 +213,24 @@ export function createDeferredActorClass<
       const arg = IDL.encode(func.argTypes, args);
       const sender = getSender();
 
-      const messageId = await pocketIcClient.submitCall({
-        canisterId,
-        sender,
-        method,
-        payload: new Uint8Array(arg),
-      });
-
-      return function () {
-        return new Promise(async resolve => {
-          const res = await pocketIcClient.awaitCall(messageId);
-          const decodedRes = decodeCandid(func.retTypes, res.body);
-
-          return resolve(decodedRes);
-        });
-      };
+      return await interceptDeferredCall(
+        getInterceptors(),
+        { canisterId, method, args, sender },
+        async () => {
+          const messageId = await pocketIcClient.submitCall({
+            canisterId,
+            sender,
+            method,
+            payload: new Uint8Array(arg),
+          });
+
+          return async function () {
+            const res = await pocketIcClient.awaitCall(messageId);
+
+            return decodeCandid(func.retTypes, res.body);
+          };
+        },
+      );
     };
   }
 
@@ -127,6 +248,21 @@ export function createDeferredActorClass<
     sender = identity.getPrincipal();
   };
 
+  DeferredActor.prototype.as = function (
+    newSender: Identity | Principal,
+  ): DeferredActor<T> {
+    const DeferredActorView = createDeferredActorClass<T>(
+      interfaceFactory,
+      canisterId,
+      pocketIcClient,
+      getInterceptors,
+    );
+    const view = new DeferredActorView();
+    view.setPrincipal(toPrincipal(newSender));
+
+    return view;
+  };
+
   service._fields.forEach(([methodName, func]) => {
     DeferredActor.prototype[methodName] = createDeferredActorMethod(
       methodName,
@@ -136,3 +272,63 @@ export function createDeferredActorClass<
 
   return DeferredActor as never as DeferredActor<T>;
 }
+
+export function createResultDeferredActorClass<
+  T extends ActorInterface<T> = ActorInterface,
+>(
+  interfaceFactory: IDL.InterfaceFactory,
+  canisterId: Principal,
+  pocketIcClient: PocketIcClient,
+  getInterceptors: GetInterceptors = noInterceptors,
+): ResultDeferredActor<T> {
+  const service = interfaceFactory({ IDL });
+  const BaseDeferredActor = createDeferredActorClass<
+    Record<string, ActorMethod>
+  >(interfaceFactory, canisterId, pocketIcClient, getInterceptors);
+  const actor = new BaseDeferredActor();
+
+  const ResultDeferredActor = function () {};
+
+  ResultDeferredActor.prototype.setPrincipal = function (
+    newSender: Principal,
+  ): void {
+    actor.setPrincipal(newSender);
+  };
+
+  ResultDeferredActor.prototype.setIdentity = function (
+    identity: Identity,
+  ): void {
+    actor.setIdentity(identity);
+  };
+
+  ResultDeferredActor.prototype.as = function (
+    newSender: Identity | Principal,
+  ): ResultDeferredActor<T> {
+    const ResultDeferredActorView = createResultDeferredActorClass<T>(
+      interfaceFactory,
+      canisterId,
+      pocketIcClient,
+      getInterceptors,
+    );
+    const view = new ResultDeferredActorView();
+    view.setPrincipal(toPrincipal(newSender));
+
+    return view;
+  };
+
+  service._fields.forEach(([methodName]) => {
+    ResultDeferredActor.prototype[methodName] = async function (
+      ...args: unknown[]
+    ) {
+      const submitted = await toCanisterCallResult(actor[methodName](...args));
+
+      if ('err' in submitted) {
+        return async () => submitted;
+      }
+
+      return () => toCanisterCallResult(submitted.ok());
+    };
+  });
+
+  return ResultDeferredActor as never as ResultDeferredActor<T>;
+}
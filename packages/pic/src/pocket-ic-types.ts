@@ -85,6 +85,54 @@ export interface CreateInstanceOptions {
    * Determines what ICP features should be enabled for the PocketIC instance.
    */
   icpFeatures?: IcpFeatures;
+
+  /**
+   * The socket addresses of `bitcoind` nodes, in the `ip:port` format
+   * (for example `127.0.0.1:18444`), that the Bitcoin adapter of the Bitcoin
+   * subnet should connect to, for example a local `bitcoind` running in regtest mode.
+   * Host names are not resolved.
+   * Requires the {@link CreateInstanceOptions.bitcoin | Bitcoin subnet} to be configured.
+   */
+  bitcoindAddr?: string[];
+
+  /**
+   * Whether to start an in-process Bitcoin regtest network and connect the
+   * Bitcoin adapter of the Bitcoin subnet to it, see {@link BitcoinRegtest}.
+   * The network is available as {@link PocketIc.bitcoin} and is stopped
+   * by {@link PocketIc.tearDown}.
+   *
+   * The network listens on `127.0.0.1`, so the PocketIC server must run on
+   * the same machine. The Bitcoin subnet is created if it is not configured,
+   * and the {@link IcpFeatures.bitcoin | Bitcoin canister} is deployed to it,
+   * so canisters can query balances and UTXOs through the management canister.
+   *
+   * The blocks of the network are not written to the
+   * {@link CreateInstanceOptions.stateDir | state directory}, so this option
+   * cannot be used with {@link CreateInstanceOptions.resume | resume}.
+   * Defaults to `false`.
+   */
+  bitcoinRegtest?: boolean;
+
+  /**
+   * A directory that the full state of the PocketIC instance, including its
+   * topology, time and all subnets, is written to when the instance is deleted
+   * with {@link PocketIc.tearDown}.
+   * The directory must be empty or not exist yet,
+   * unless {@link CreateInstanceOptions.resume | resume} is set.
+   * {@link PocketIc.create} throws if it already holds files otherwise.
+   */
+  stateDir?: string;
+
+  /**
+   * Whether to restore the PocketIC instance from the state that a previous
+   * instance wrote to {@link CreateInstanceOptions.stateDir | stateDir}.
+   * The restored state is written back to the same directory when the
+   * instance is deleted again.
+   *
+   * The topology of a resumed instance is taken from the state directory,
+   * so {@link PocketIc.create} throws if subnets or ICP features are configured.
+   */
+  resume?: boolean;
 }
 
 /**
@@ -358,6 +406,10 @@ export interface IcpFeatures {
    * Deploys the Internet Identity canister.
    */
   ii?: IcpFeaturesConfig;
+  /**
+   * Deploys the Bitcoin canister to the Bitcoin subnet, configured for the regtest network.
+   */
+  bitcoin?: IcpFeaturesConfig;
   /**
    * Currently not supported.
    */
@@ -664,6 +716,54 @@ export interface StopCanisterOptions {
   targetSubnetId?: Principal;
 }
 
+/**
+ * Options for uninstalling the code of a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface UninstallCodeOptions {
+  /**
+   * The Principal of the canister to uninstall the code of.
+   */
+  canisterId: Principal;
+
+  /**
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
+   */
+  sender?: Principal;
+
+  /**
+   * The ID of the subnet that the canister resides on.
+   */
+  targetSubnetId?: Principal;
+}
+
+/**
+ * Options for deleting a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface DeleteCanisterOptions {
+  /**
+   * The Principal of the canister to delete.
+   */
+  canisterId: Principal;
+
+  /**
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
+   */
+  sender?: Principal;
+
+  /**
+   * The ID of the subnet that the canister resides on.
+   */
+  targetSubnetId?: Principal;
+}
+
 /**
  * Options for installing a WASM module to a given canister.
  *
@@ -893,36 +993,60 @@ export interface CanisterStatusResult {
 
 //#endregion CanisterLifecycle
 
-//#region CanisterCall
+//#region CanisterSnapshots
 
 /**
- * Options for making a query call to a given canister.
+ * A snapshot of a canister's state.
  *
  * @category Types
- * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
  */
-export interface QueryCallOptions {
+export interface CanisterSnapshot {
   /**
-   * The Principal to send the request as.
-   * Defaults to the anonymous principal.
+   * The ID of the snapshot.
+   * Use this ID to load or delete the snapshot.
    */
-  sender?: Principal;
+  id: Uint8Array;
 
   /**
-   * The Principal of the canister to query.
+   * The time at which the snapshot was taken,
+   * in nanoseconds since the Unix epoch.
+   */
+  takenAtTimestamp: bigint;
+
+  /**
+   * The total size of the snapshot in bytes.
+   */
+  totalSize: bigint;
+}
+
+/**
+ * Options for taking a snapshot of a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface TakeCanisterSnapshotOptions {
+  /**
+   * The Principal of the canister to take a snapshot of.
    */
   canisterId: Principal;
 
   /**
-   * The method to call on the canister.
+   * The ID of an existing snapshot to replace with the new snapshot.
    */
-  method: string;
+  replaceSnapshot?: Uint8Array;
 
   /**
-   * A Candid encoded argument to pass to the canister's method.
-   * Defaults to an empty Uint8Array.
+   * Whether to uninstall the canister's code after taking the snapshot.
+   * Defaults to `false`.
    */
-  arg?: Uint8Array;
+  uninstallCode?: boolean;
+
+  /**
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
+   */
+  sender?: Principal;
 
   /**
    * The ID of the subnet that the canister resides on.
@@ -931,13 +1055,22 @@ export interface QueryCallOptions {
 }
 
 /**
- * Options for making an update call to a given canister.
+ * Options for loading a snapshot into a given canister.
  *
  * @category Types
  * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
  */
+export interface LoadCanisterSnapshotOptions {
+  /**
+   * The Principal of the canister to load the snapshot into.
+   */
+  canisterId: Principal;
+
+  /**
+   * The ID of the snapshot to load.
+   */
+  snapshotId: Uint8Array;
 
-export interface UpdateCallOptions {
   /**
    * The Principal to send the request as.
    * Defaults to the anonymous principal.
@@ -945,20 +1078,28 @@ export interface UpdateCallOptions {
   sender?: Principal;
 
   /**
-   * The Principal of the canister to update.
+   * The ID of the subnet that the canister resides on.
    */
-  canisterId: Principal;
+  targetSubnetId?: Principal;
+}
 
+/**
+ * Options for listing the snapshots of a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface ListCanisterSnapshotsOptions {
   /**
-   * The method to call on the canister.
+   * The Principal of the canister to list the snapshots of.
    */
-  method: string;
+  canisterId: Principal;
 
   /**
-   * A Candid encoded argument to pass to the canister's method.
-   * Defaults to an empty Uint8Array.
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
    */
-  arg?: Uint8Array;
+  sender?: Principal;
 
   /**
    * The ID of the subnet that the canister resides on.
@@ -966,149 +1107,1513 @@ export interface UpdateCallOptions {
   targetSubnetId?: Principal;
 }
 
-//#endregion CanisterCall
-
-//#region HTTPS Outcalls
-
 /**
- * A pending HTTPS outcall.
+ * Options for deleting a snapshot of a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
  */
-export interface PendingHttpsOutcall {
+export interface DeleteCanisterSnapshotOptions {
   /**
-   * The subnet ID to that the HTTPS Outcall is being sent from.
+   * The Principal of the canister that the snapshot belongs to.
    */
-  subnetId: Principal;
+  canisterId: Principal;
 
   /**
-   * The HTTPS Outcall request Id. Use this Id when setting a mock response
-   * for this request.
+   * The ID of the snapshot to delete.
    */
-  requestId: number;
+  snapshotId: Uint8Array;
 
   /**
-   * The HTTP method used for this request.
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
    */
-  httpMethod: CanisterHttpMethod;
+  sender?: Principal;
 
   /**
-   * The target URL of the pending request.
+   * The ID of the subnet that the canister resides on.
    */
-  url: string;
+  targetSubnetId?: Principal;
+}
 
+/**
+ * Options for downloading a snapshot of a given canister to a local directory.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface DownloadCanisterSnapshotOptions {
   /**
-   * The headers of the pending request.
+   * The Principal of the canister that the snapshot belongs to.
    */
-  headers: CanisterHttpHeader[];
+  canisterId: Principal;
 
   /**
-   * The body of the pending request.
+   * The ID of the snapshot to download.
    */
-  body: Uint8Array;
+  snapshotId: Uint8Array;
 
   /**
-   * The maximum number of bytes expected in the response body that was set
-   * by the canister making the request.
+   * The directory to write the snapshot to.
+   * The directory is created if it does not exist.
+   *
+   * After downloading, the directory will have the following structure:
+   * ```text
+   *   |-- wasm_chunk_store/
+   *   |-- metadata.json
+   *   |-- stable_memory.bin
+   *   |-- wasm_memory.bin
+   *   |-- wasm_module.bin
+   * ```
    */
-  maxResponseBytes?: number;
+  snapshotDir: string;
+
+  /**
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
+   */
+  sender?: Principal;
+
+  /**
+   * The ID of the subnet that the canister resides on.
+   */
+  targetSubnetId?: Principal;
 }
 
 /**
- * The HTTP method used for an HTTPS outcall.
+ * Options for uploading a snapshot from a local directory to a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
  */
-export enum CanisterHttpMethod {
+export interface UploadCanisterSnapshotOptions {
   /**
-   * A GET request.
+   * The Principal of the canister to upload the snapshot to.
    */
-  GET = 'GET',
+  canisterId: Principal;
 
   /**
-   * A POST request.
+   * The directory to read the snapshot from.
+   * See {@link DownloadCanisterSnapshotOptions.snapshotDir} for the expected structure.
    */
-  POST = 'POST',
+  snapshotDir: string;
 
   /**
-   * A HEAD request.
+   * The ID of an existing snapshot to replace with the uploaded snapshot.
    */
-  HEAD = 'HEAD',
-}
+  replaceSnapshot?: Uint8Array;
 
-/**
- * An HTTP header for an HTTPS outcall.
- */
-export type CanisterHttpHeader = [string, string];
-
-/**
- * Options for mocking a response to a pending HTTPS outcall.
- */
-export interface MockPendingHttpsOutcallOptions {
   /**
-   * The subnet ID to that the HTTPS Outcall is being sent from.
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
    */
-  subnetId: Principal;
+  sender?: Principal;
 
   /**
-   * The HTTPS Outcall request Id to mock a response for.
+   * The ID of the subnet that the canister resides on.
    */
-  requestId: number;
+  targetSubnetId?: Principal;
+}
+
+//#endregion CanisterSnapshots
 
+//#region CanisterLogs
+
+/**
+ * An inclusive range used to filter canister log records.
+ *
+ * @category Types
+ */
+export interface CanisterLogRange {
   /**
-   * The response to mock for the pending HTTPS outcall.
+   * The start of the range.
    */
-  response: HttpsOutcallResponseMock;
+  start: bigint;
 
   /**
-   * Additional responses to mock for the pending HTTPS outcall.
-   *
-   * If non-empty, the total number of responses (one plus the number of additional responses)
-   * must be equal to the size of the subnet on which the canister making the HTTP outcall is deployed.
+   * The end of the range.
    */
-  additionalResponses?: HttpsOutcallResponseMock[];
+  end: bigint;
 }
 
 /**
- * An HTTPS Outcall response mock.
+ * A filter for canister log records.
+ * Records can be filtered either by their index or by their timestamp
+ * in nanoseconds since the Unix epoch.
+ *
+ * @category Types
  */
-export type HttpsOutcallResponseMock =
-  | HttpsOutcallSuccessResponse
-  | HttpsOutcallRejectResponse;
+export type CanisterLogFilter =
+  | { byIdx: CanisterLogRange }
+  | { byTimestampNanos: CanisterLogRange };
 
-export interface HttpsOutcallSuccessResponse {
+/**
+ * Options for fetching the logs of a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface FetchCanisterLogsOptions {
   /**
-   * The type of the response, either `'success'` or `'response'`.
+   * The Principal of the canister to fetch the logs of.
    */
-  type: 'success';
+  canisterId: Principal;
 
   /**
-   * The status code of the response.
+   * An optional filter to restrict which log records are returned.
    */
-  statusCode: number;
+  filter?: CanisterLogFilter;
 
   /**
-   * The headers of the response.
+   * The Principal to send the request as.
+   * The sender must be allowed to read the logs by the canister's
+   * {@link CanisterSettings.logVisibility | log visibility} setting.
+   * Defaults to the anonymous principal.
    */
-  headers: CanisterHttpHeader[];
+  sender?: Principal;
 
   /**
-   * The body of the response.
+   * The ID of the subnet that the canister resides on.
    */
-  body: Uint8Array;
+  targetSubnetId?: Principal;
 }
 
-export interface HttpsOutcallRejectResponse {
+/**
+ * A single canister log record.
+ *
+ * @category Types
+ */
+export interface CanisterLogRecord {
   /**
-   * The type of the response, either `'reject'` or `'response'`.
+   * The index of the log record.
    */
-  type: 'reject';
+  idx: bigint;
 
   /**
-   * The status code of the response.
+   * The time at which the log record was created,
+   * in nanoseconds since the Unix epoch.
    */
-  statusCode: number;
+  timestampNanos: bigint;
 
   /**
-   * The message of the response.
+   * The raw content of the log record.
+   * Use {@link decodeCanisterLogContent} to decode it as text.
    */
-  message: string;
+  content: Uint8Array;
 }
 
-//#endregion HTTPS Outcalls
+//#endregion CanisterLogs
+
+//#region CanisterCall
+
+/**
+ * The mode of an {@link Actor} or {@link DeferredActor}.
+ * - `throw`: Rejected calls throw a {@link CanisterRejectError}.
+ * - `result`: Calls return an {@link ActorResult} that contains either
+ *   the decoded response or the details of the reject.
+ *
+ * @category Types
+ */
+export type ActorMode = 'throw' | 'result';
+
+/**
+ * Options for creating an {@link Actor} or {@link DeferredActor}.
+ *
+ * @category Types
+ */
+export interface CreateActorOptions<M extends ActorMode = ActorMode> {
+  /**
+   * The mode of the actor, see {@link ActorMode}.
+   * Defaults to `throw`.
+   */
+  mode?: M;
+
+  /**
+   * Interceptors to run for every call made by this actor, see {@link ActorInterceptor}.
+   * These run after any interceptors registered on the PocketIC instance
+   * with {@link PocketIc.addInterceptor | addInterceptor}.
+   */
+  interceptors?: ActorInterceptor[];
+}
+
+/**
+ * The context of a call made by an {@link Actor} or {@link DeferredActor}.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface ActorCallContext {
+  /**
+   * The Principal of the canister that is called.
+   */
+  canisterId: Principal;
+
+  /**
+   * The method that is called on the canister.
+   */
+  method: string;
+
+  /**
+   * The arguments that the method is called with, before Candid encoding.
+   */
+  args: unknown[];
+
+  /**
+   * The Principal that the call is sent as.
+   */
+  sender: Principal;
+}
+
+/**
+ * The context of a call that completed successfully.
+ *
+ * @category Types
+ */
+export interface ActorCallSuccessContext extends ActorCallContext {
+  /**
+   * The decoded result of the call.
+   */
+  result: unknown;
+
+  /**
+   * The time it took for the call to complete, in milliseconds.
+   */
+  durationMs: number;
+}
+
+/**
+ * The context of a call that failed.
+ *
+ * @category Types
+ */
+export interface ActorCallErrorContext extends ActorCallContext {
+  /**
+   * The error that the call failed with.
+   * This is usually a {@link CanisterRejectError}.
+   */
+  error: unknown;
+
+  /**
+   * The time it took for the call to fail, in milliseconds.
+   */
+  durationMs: number;
+}
+
+/**
+ * Hooks that are run around every call made by an {@link Actor} or {@link DeferredActor}.
+ * Interceptors can be registered per actor with {@link CreateActorOptions.interceptors}
+ * or for every actor of a PocketIC instance with {@link PocketIc.addInterceptor | addInterceptor}.
+ *
+ * Hooks are awaited in the order that the interceptors were registered.
+ * Throwing from {@link onBeforeCall} aborts the call with the thrown error,
+ * which can be used to inject faults.
+ *
+ * @category Types
+ */
+export interface ActorInterceptor {
+  /**
+   * Called before the call is sent to the canister.
+   *
+   * @param context The context of the call, see {@link ActorCallContext}.
+   */
+  onBeforeCall?(context: ActorCallContext): void | Promise<void>;
+
+  /**
+   * Called after the call completed successfully.
+   *
+   * @param context The context of the call, see {@link ActorCallSuccessContext}.
+   */
+  onAfterCall?(context: ActorCallSuccessContext): void | Promise<void>;
+
+  /**
+   * Called after the call failed.
+   * The error is rethrown after all interceptors have been called.
+   *
+   * @param context The context of the call, see {@link ActorCallErrorContext}.
+   */
+  onError?(context: ActorCallErrorContext): void | Promise<void>;
+}
+
+/**
+ * Options for making a query call to a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface QueryCallOptions {
+  /**
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
+   */
+  sender?: Principal;
+
+  /**
+   * The Principal of the canister to query.
+   */
+  canisterId: Principal;
+
+  /**
+   * The method to call on the canister.
+   */
+  method: string;
+
+  /**
+   * A Candid encoded argument to pass to the canister's method.
+   * Defaults to an empty Uint8Array.
+   */
+  arg?: Uint8Array;
+
+  /**
+   * The ID of the subnet that the canister resides on.
+   */
+  targetSubnetId?: Principal;
+}
+
+/**
+ * Options for making an update call to a given canister.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+
+export interface UpdateCallOptions {
+  /**
+   * The Principal to send the request as.
+   * Defaults to the anonymous principal.
+   */
+  sender?: Principal;
+
+  /**
+   * The Principal of the canister to update.
+   */
+  canisterId: Principal;
+
+  /**
+   * The method to call on the canister.
+   */
+  method: string;
+
+  /**
+   * A Candid encoded argument to pass to the canister's method.
+   * Defaults to an empty Uint8Array.
+   */
+  arg?: Uint8Array;
+
+  /**
+   * The ID of the subnet that the canister resides on.
+   */
+  targetSubnetId?: Principal;
+}
+
+/**
+ * Options for making an update call that attaches cycles.
+ *
+ * Ingress messages cannot carry cycles, so these calls are routed through
+ * a proxy canister that PocketIC installs on first use. The called canister
+ * therefore sees the proxy canister as the caller, not the `sender`.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface UpdateCallWithCyclesOptions extends Omit<
+  UpdateCallOptions,
+  'targetSubnetId'
+> {
+  /**
+   * The amount of cycles to attach to the call.
+   * The proxy canister is topped up with this amount before the call is made.
+   */
+  cycles: bigint;
+}
+
+/**
+ * The result of an update call that attached cycles,
+ * see {@link UpdateCallWithCyclesOptions}.
+ *
+ * @category Types
+ */
+export interface UpdateCallWithCyclesResult {
+  /**
+   * The Candid-encoded response of the update call.
+   */
+  body: Uint8Array;
+
+  /**
+   * The amount of cycles that the called canister did not accept.
+   */
+  cyclesRefunded: bigint;
+}
+
+/**
+ * The reject code of a rejected canister call.
+ *
+ * @category Types
+ * @see [Reject codes](https://internetcomputer.org/docs/references/ic-interface-spec#reject-codes)
+ */
+export enum RejectCode {
+  /**
+   * Fatal system error, retry unlikely to be useful.
+   */
+  SYS_FATAL = 1,
+
+  /**
+   * Transient system error, retry might be possible.
+   */
+  SYS_TRANSIENT = 2,
+
+  /**
+   * Invalid destination, e.g. the canister does not exist.
+   */
+  DESTINATION_INVALID = 3,
+
+  /**
+   * Explicit reject by the canister.
+   */
+  CANISTER_REJECT = 4,
+
+  /**
+   * Canister error, e.g. a trap or running out of cycles.
+   */
+  CANISTER_ERROR = 5,
+}
+
+/**
+ * Details of a rejected canister call.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface CanisterRejectInfo {
+  /**
+   * The reject code of the call, see {@link RejectCode}.
+   */
+  rejectCode: RejectCode;
+
+  /**
+   * The IC error code of the call, e.g. `503` for `IC0503`.
+   */
+  errorCode: number;
+
+  /**
+   * The reject message of the call.
+   */
+  rejectMessage: string;
+
+  /**
+   * Whether the reject was certified.
+   */
+  certified: boolean;
+
+  /**
+   * The Principal of the canister that was called.
+   */
+  canisterId: Principal;
+
+  /**
+   * The method that was called on the canister.
+   */
+  method: string;
+}
+
+//#endregion CanisterCall
+
+//#region ThresholdSignatures
+
+/**
+ * Options for verifying a threshold ECDSA signature produced by the
+ * `sign_with_ecdsa` management canister method.
+ *
+ * @category Types
+ */
+export interface VerifyEcdsaSignatureOptions {
+  /**
+   * The SEC1 encoded public key returned by the `ecdsa_public_key`
+   * management canister method.
+   */
+  publicKey: Uint8Array;
+
+  /**
+   * The 32 byte hash of the message that was signed.
+   */
+  messageHash: Uint8Array;
+
+  /**
+   * The 64 byte signature, encoded as the concatenation of `r` and `s`.
+   */
+  signature: Uint8Array;
+}
+
+/**
+ * The algorithm of a threshold Schnorr key.
+ *
+ * @category Types
+ */
+export type SchnorrAlgorithm = 'bip340secp256k1' | 'ed25519';
+
+/**
+ * Options for verifying a threshold Schnorr signature produced by the
+ * `sign_with_schnorr` management canister method.
+ *
+ * @category Types
+ */
+export interface VerifySchnorrSignatureOptions {
+  /**
+   * The algorithm of the key that produced the signature, see {@link SchnorrAlgorithm}.
+   */
+  algorithm: SchnorrAlgorithm;
+
+  /**
+   * The public key returned by the `schnorr_public_key` management canister method.
+   * For `bip340secp256k1` this is a 33 byte SEC1 compressed public key,
+   * for `ed25519` a 32 byte public key.
+   */
+  publicKey: Uint8Array;
+
+  /**
+   * The message that was signed.
+   */
+  message: Uint8Array;
+
+  /**
+   * The 64 byte signature.
+   */
+  signature: Uint8Array;
+}
+
+/**
+ * Options for getting the public key of a threshold ECDSA key,
+ * see {@link PocketIc.getEcdsaPublicKey}.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface GetEcdsaPublicKeyOptions {
+  /**
+   * The Principal of the canister to get the public key for.
+   * Defaults to the proxy canister that signs messages with
+   * {@link PocketIc.signWithEcdsa}.
+   */
+  canisterId?: Principal;
+
+  /**
+   * The derivation path of the key.
+   * Defaults to an empty derivation path.
+   */
+  derivationPath?: Uint8Array[];
+
+  /**
+   * The name of the master key, one of `key_1`, `test_key_1` or `dfx_test_key`.
+   * Defaults to `dfx_test_key`.
+   */
+  keyName?: string;
+}
+
+/**
+ * Options for signing a message hash with threshold ECDSA,
+ * see {@link PocketIc.signWithEcdsa}.
+ *
+ * @category Types
+ */
+export interface SignWithEcdsaOptions {
+  /**
+   * The 32 byte hash of the message to sign.
+   */
+  messageHash: Uint8Array;
+
+  /**
+   * The derivation path of the key.
+   * Defaults to an empty derivation path.
+   */
+  derivationPath?: Uint8Array[];
+
+  /**
+   * The name of the master key, one of `key_1`, `test_key_1` or `dfx_test_key`.
+   * Defaults to `dfx_test_key`.
+   */
+  keyName?: string;
+}
+
+/**
+ * Options for getting the public key of a threshold Schnorr key,
+ * see {@link PocketIc.getSchnorrPublicKey}.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface GetSchnorrPublicKeyOptions {
+  /**
+   * The algorithm of the key, see {@link SchnorrAlgorithm}.
+   */
+  algorithm: SchnorrAlgorithm;
+
+  /**
+   * The Principal of the canister to get the public key for.
+   * Defaults to the proxy canister that signs messages with
+   * {@link PocketIc.signWithSchnorr}.
+   */
+  canisterId?: Principal;
+
+  /**
+   * The derivation path of the key.
+   * Defaults to an empty derivation path.
+   */
+  derivationPath?: Uint8Array[];
+
+  /**
+   * The name of the master key, one of `key_1`, `test_key_1` or `dfx_test_key`.
+   * Defaults to `dfx_test_key`.
+   */
+  keyName?: string;
+}
+
+/**
+ * Options for signing a message with threshold Schnorr,
+ * see {@link PocketIc.signWithSchnorr}.
+ *
+ * @category Types
+ */
+export interface SignWithSchnorrOptions {
+  /**
+   * The algorithm of the key, see {@link SchnorrAlgorithm}.
+   */
+  algorithm: SchnorrAlgorithm;
+
+  /**
+   * The message to sign.
+   */
+  message: Uint8Array;
+
+  /**
+   * The derivation path of the key.
+   * Defaults to an empty derivation path.
+   */
+  derivationPath?: Uint8Array[];
+
+  /**
+   * The name of the master key, one of `key_1`, `test_key_1` or `dfx_test_key`.
+   * Defaults to `dfx_test_key`.
+   */
+  keyName?: string;
+
+  /**
+   * The 32 byte Merkle root hash to tweak the key with, as specified by BIP341.
+   * Only supported by the `bip340secp256k1` algorithm.
+   */
+  merkleRootHash?: Uint8Array;
+}
+
+/**
+ * The public key of a threshold key.
+ *
+ * @category Types
+ */
+export interface ThresholdPublicKey {
+  /**
+   * The public key, encoded as described by the management canister method
+   * that returned it.
+   */
+  publicKey: Uint8Array;
+
+  /**
+   * The chain code of the key, which can be used to derive child keys.
+   */
+  chainCode: Uint8Array;
+}
+
+//#endregion ThresholdSignatures
+
+//#region VetKeys
+
+/**
+ * A transport key pair used to receive an encrypted vetKey from the
+ * `vetkd_derive_key` management canister method.
+ *
+ * @category Types
+ */
+export interface VetKdTransportKey {
+  /**
+   * The 32 byte secret key. Keep this on the client and use it to decrypt
+   * the encrypted vetKey, see {@link decryptVetKey}.
+   */
+  secretKey: Uint8Array;
+
+  /**
+   * The 48 byte compressed BLS12-381 G1 public key. Pass this to the
+   * canister as the `transport_public_key` of the `vetkd_derive_key` call.
+   */
+  publicKey: Uint8Array;
+}
+
+/**
+ * Options for decrypting and verifying an encrypted vetKey.
+ *
+ * @category Types
+ */
+export interface DecryptVetKeyOptions {
+  /**
+   * The encrypted key returned by the `vetkd_derive_key` management canister method.
+   */
+  encryptedKey: Uint8Array;
+
+  /**
+   * The secret key of the transport key pair the key was encrypted for.
+   */
+  transportSecretKey: Uint8Array;
+
+  /**
+   * The derived public key returned by the `vetkd_public_key` management
+   * canister method, for the same canister and context as the derived key.
+   */
+  derivedPublicKey: Uint8Array;
+
+  /**
+   * The input the key was derived for.
+   */
+  input: Uint8Array;
+}
+
+/**
+ * Options for getting the derived public key of a vetKD key,
+ * see {@link PocketIc.vetKdPublicKey}.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface VetKdPublicKeyOptions {
+  /**
+   * The Principal of the canister to get the derived public key for.
+   * Defaults to the proxy canister that derives keys with
+   * {@link PocketIc.deriveVetKey}.
+   */
+  canisterId?: Principal;
+
+  /**
+   * The context that the key is derived for.
+   * Defaults to an empty context.
+   */
+  context?: Uint8Array;
+
+  /**
+   * The name of the master key, one of `key_1`, `test_key_1` or `dfx_test_key`.
+   * Defaults to `dfx_test_key`.
+   */
+  keyName?: string;
+}
+
+/**
+ * Options for deriving a vetKey, see {@link PocketIc.deriveVetKey}.
+ *
+ * @category Types
+ */
+export interface DeriveVetKeyOptions {
+  /**
+   * The input to derive the key for.
+   */
+  input: Uint8Array;
+
+  /**
+   * The context that the key is derived for.
+   * Defaults to an empty context.
+   */
+  context?: Uint8Array;
+
+  /**
+   * The name of the master key, one of `key_1`, `test_key_1` or `dfx_test_key`.
+   * Defaults to `dfx_test_key`.
+   */
+  keyName?: string;
+}
+
+/**
+ * A vetKey derived with {@link PocketIc.deriveVetKey}.
+ *
+ * @category Types
+ */
+export interface DerivedVetKey {
+  /**
+   * The 48 byte vetKey, a compressed BLS12-381 G1 point.
+   */
+  vetKey: Uint8Array;
+
+  /**
+   * The 96 byte derived public key that the vetKey was verified against.
+   */
+  derivedPublicKey: Uint8Array;
+}
+
+//#endregion VetKeys
+
+//#region CallTracing
+
+/**
+ * A canister call recorded by a {@link CallTracer}.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface CallTraceEntry {
+  /**
+   * Whether the call was a query or an update call.
+   */
+  kind: 'query' | 'update';
+
+  /**
+   * The Principal that the call was sent as.
+   */
+  sender: Principal;
+
+  /**
+   * The Principal of the canister that was called.
+   */
+  canisterId: Principal;
+
+  /**
+   * The method that was called on the canister.
+   */
+  method: string;
+
+  /**
+   * The decoded arguments of the call if the canister's interface is known,
+   * otherwise the raw Candid encoded arguments.
+   */
+  args: unknown[] | Uint8Array;
+
+  /**
+   * The decoded reply of the call if the canister's interface is known,
+   * otherwise the raw Candid encoded reply.
+   * Not set if the call failed.
+   */
+  reply?: unknown[] | Uint8Array;
+
+  /**
+   * The details of the reject if the canister rejected the call.
+   */
+  reject?: CanisterRejectInfo;
+
+  /**
+   * The message of the error if the call failed for any other reason.
+   */
+  error?: string;
+
+  /**
+   * The wall-clock time at which the call was made.
+   */
+  startedAt: Date;
+
+  /**
+   * The wall-clock time it took for the call to complete, in milliseconds.
+   */
+  durationMs: number;
+
+  /**
+   * The time of the PocketIC instance after the call completed,
+   * in milliseconds since the Unix epoch.
+   * `null` if the time could not be read.
+   */
+  instanceTime: number | null;
+}
+
+//#endregion CallTracing
+
+//#region Ticking
+
+/**
+ * Options for ticking until the calls submitted through a PocketIC instance complete,
+ * see {@link PocketIc.tickUntilCallsComplete}.
+ *
+ * @category Types
+ */
+export interface TickUntilCallsCompleteOptions {
+  /**
+   * The maximum number of ticks to execute before giving up.
+   * Defaults to `100`.
+   */
+  maxTicks?: number;
+}
+
+/**
+ * The result of ticking until the calls submitted through a PocketIC instance complete,
+ * see {@link PocketIc.tickUntilCallsComplete}.
+ *
+ * @category Types
+ */
+export interface TickUntilCallsCompleteResult {
+  /**
+   * The number of ticks that were executed.
+   */
+  ticks: number;
+
+  /**
+   * The HTTPS outcalls that are pending and must be answered before the
+   * ingress messages that wait for them can complete.
+   */
+  pendingHttpsOutcalls: PendingHttpsOutcall[];
+}
+
+/**
+ * Options for ticking until a condition is met, see {@link PocketIc.tickUntil}.
+ *
+ * @category Types
+ */
+export interface TickUntilOptions {
+  /**
+   * The maximum number of ticks to execute before giving up.
+   * Defaults to `100`.
+   */
+  maxTicks?: number;
+
+  /**
+   * How far to advance the time of the instance before every tick, in milliseconds.
+   * This is useful to wait for timers. Defaults to not advancing the time.
+   */
+  advanceTimeMs?: number;
+}
+
+//#endregion Ticking
+
+//#region Timers
+
+/**
+ * Options for reading the global timer of a canister,
+ * see {@link PocketIc.getGlobalTimer}.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface GetGlobalTimerOptions {
+  /**
+   * The Principal of the canister to read the global timer of.
+   */
+  canisterId: Principal;
+
+  /**
+   * The Principal to send the request as. This must be a controller of the canister.
+   * Defaults to the anonymous principal.
+   */
+  sender?: Principal;
+
+  /**
+   * The ID of the subnet that the canister resides on.
+   */
+  targetSubnetId?: Principal;
+}
+
+/**
+ * Options for advancing time to the next global timer of a canister,
+ * see {@link PocketIc.advanceToNextTimer}.
+ *
+ * @category Types
+ */
+export interface AdvanceToNextTimerOptions extends GetGlobalTimerOptions {
+  /**
+   * The maximum number of ticks to execute while waiting for the timer to run.
+   * Defaults to `100`.
+   */
+  maxTicks?: number;
+}
+
+//#endregion Timers
+
+//#region Clock
+
+/**
+ * The fake timers of a test runner that can be bound to a {@link VirtualClock}.
+ * Both the `jest` and the `vi` objects implement this interface.
+ *
+ * @category Types
+ */
+export interface FakeTimers {
+  /**
+   * Set the current time of the fake timers.
+   */
+  setSystemTime(now: number | Date): unknown;
+
+  /**
+   * Advance the fake timers by the given number of milliseconds,
+   * running any timers that become due.
+   */
+  advanceTimersByTime(msToRun: number): unknown;
+}
+
+//#endregion Clock
+
+//#region Checkpoints
+
+/**
+ * A checkpoint of a PocketIC instance that can be restored with {@link PocketIc.restore}.
+ * The checkpoint is a copy of the instance's state directory, remove it with
+ * {@link PocketIc.discard} once it is no longer needed.
+ *
+ * @category Types
+ */
+export interface InstanceCheckpoint {
+  /**
+   * The directory holding the copy of the instance's state.
+   */
+  stateDir: string;
+
+  /**
+   * The Principal of the proxy canister that calls with cycles, threshold
+   * signatures, key derivation and randomness are routed through,
+   * or `null` if it was not installed when the checkpoint was taken.
+   */
+  proxyCanisterId: Principal | null;
+}
+
+//#endregion Checkpoints
+
+//#region HTTPS Outcalls
+
+/**
+ * A pending HTTPS outcall.
+ */
+export interface PendingHttpsOutcall {
+  /**
+   * The subnet ID to that the HTTPS Outcall is being sent from.
+   */
+  subnetId: Principal;
+
+  /**
+   * The HTTPS Outcall request Id. Use this Id when setting a mock response
+   * for this request.
+   */
+  requestId: number;
+
+  /**
+   * The HTTP method used for this request.
+   */
+  httpMethod: CanisterHttpMethod;
+
+  /**
+   * The target URL of the pending request.
+   */
+  url: string;
+
+  /**
+   * The headers of the pending request.
+   */
+  headers: CanisterHttpHeader[];
+
+  /**
+   * The body of the pending request.
+   */
+  body: Uint8Array;
+
+  /**
+   * The maximum number of bytes expected in the response body that was set
+   * by the canister making the request.
+   */
+  maxResponseBytes?: number;
+}
+
+/**
+ * The HTTP method used for an HTTPS outcall.
+ */
+export enum CanisterHttpMethod {
+  /**
+   * A GET request.
+   */
+  GET = 'GET',
+
+  /**
+   * A POST request.
+   */
+  POST = 'POST',
+
+  /**
+   * A HEAD request.
+   */
+  HEAD = 'HEAD',
+}
+
+/**
+ * An HTTP header for an HTTPS outcall.
+ */
+export type CanisterHttpHeader = [string, string];
+
+/**
+ * Options for mocking a response to a pending HTTPS outcall.
+ */
+export interface MockPendingHttpsOutcallOptions {
+  /**
+   * The subnet ID to that the HTTPS Outcall is being sent from.
+   */
+  subnetId: Principal;
+
+  /**
+   * The HTTPS Outcall request Id to mock a response for.
+   */
+  requestId: number;
+
+  /**
+   * The response to mock for the pending HTTPS outcall.
+   */
+  response: HttpsOutcallResponseMock;
+
+  /**
+   * Additional responses to mock for the pending HTTPS outcall.
+   *
+   * If non-empty, the total number of responses (one plus the number of additional responses)
+   * must be equal to the size of the subnet on which the canister making the HTTP outcall is deployed.
+   */
+  additionalResponses?: HttpsOutcallResponseMock[];
+}
+
+/**
+ * An HTTPS Outcall response mock.
+ */
+export type HttpsOutcallResponseMock =
+  | HttpsOutcallSuccessResponse
+  | HttpsOutcallRejectResponse;
+
+export interface HttpsOutcallSuccessResponse {
+  /**
+   * The type of the response, either `'success'` or `'response'`.
+   */
+  type: 'success';
+
+  /**
+   * The status code of the response.
+   */
+  statusCode: number;
+
+  /**
+   * The headers of the response.
+   */
+  headers: CanisterHttpHeader[];
+
+  /**
+   * The body of the response.
+   */
+  body: Uint8Array;
+}
+
+export interface HttpsOutcallRejectResponse {
+  /**
+   * The type of the response, either `'reject'` or `'response'`.
+   */
+  type: 'reject';
+
+  /**
+   * The status code of the response.
+   */
+  statusCode: number;
+
+  /**
+   * The message of the response.
+   */
+  message: string;
+}
+
+/**
+ * The transform function of a canister that makes HTTPS outcalls.
+ *
+ * @category Types
+ * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+ */
+export interface HttpsOutcallTransform {
+  /**
+   * The Principal of the canister that exposes the transform function.
+   */
+  canisterId: Principal;
+
+  /**
+   * The name of the transform query method.
+   */
+  method: string;
+
+  /**
+   * The context that the canister passes to the transform function.
+   * Defaults to an empty context.
+   */
+  context?: Uint8Array;
+}
+
+/**
+ * Options for invoking the transform function of a canister,
+ * see {@link PocketIc.invokeHttpTransform}.
+ *
+ * @category Types
+ */
+export interface InvokeHttpTransformOptions extends HttpsOutcallTransform {
+  /**
+   * The response to transform.
+   */
+  response: HttpsOutcallSuccessResponse;
+}
+
+/**
+ * Options for mocking divergent responses to a pending HTTPS outcall,
+ * see {@link PocketIc.mockDivergentOutcall}.
+ *
+ * @category Types
+ */
+export interface MockDivergentOutcallOptions {
+  /**
+   * The number of replicas to mock a response for, at least `1`.
+   * Defaults to the number of nodes of the subnet that made the outcall.
+   */
+  replicas?: number;
+
+  /**
+   * Builds the response that the replica with the given index receives.
+   *
+   * @param replica The index of the replica, starting at `0`.
+   * @returns The response for the replica.
+   */
+  responses: (replica: number) => HttpsOutcallResponseMock;
+
+  /**
+   * The transform function that the canister applies to the responses.
+   * If provided, it is called for every successful response to determine
+   * whether the responses converge. If omitted, the responses are compared
+   * as they are.
+   */
+  transform?: HttpsOutcallTransform;
+}
+
+/**
+ * The result of mocking divergent responses to a pending HTTPS outcall,
+ * see {@link PocketIc.mockDivergentOutcall}.
+ *
+ * @category Types
+ */
+export interface MockDivergentOutcallResult {
+  /**
+   * The responses that were mocked, one per replica.
+   */
+  responses: HttpsOutcallResponseMock[];
+
+  /**
+   * The responses after applying the transform function, one per replica.
+   * Reject responses are not transformed.
+   */
+  transformedResponses: HttpsOutcallResponseMock[];
+
+  /**
+   * The size of the largest group of equal transformed responses.
+   */
+  matchingResponses: number;
+
+  /**
+   * The number of equal transformed responses that is required for consensus.
+   * Like the IC, this tolerates `f = floor((n - 1) / 3)` faulty replicas out
+   * of `n` replicas, so `n - f` equal responses are required.
+   */
+  threshold: number;
+
+  /**
+   * Whether at least {@link threshold} transformed responses are equal,
+   * i.e. whether the replicas can reach consensus on the response.
+   */
+  converged: boolean;
+}
+
+/**
+ * Describes which pending HTTPS outcalls an {@link HttpsOutcallHandler} answers.
+ *
+ * @category Types
+ */
+export interface HttpsOutcallMatcher {
+  /**
+   * The HTTP method of the outcall. Outcalls with any method match if this is omitted.
+   */
+  method?: CanisterHttpMethod;
+
+  /**
+   * The URL of the outcall. A string must match the URL exactly,
+   * a regular expression is tested against the URL.
+   */
+  url: string | RegExp;
+
+  /**
+   * Headers that the outcall must include. Header names are matched
+   * case-insensitively, header values must match exactly.
+   * Headers of the outcall that are not listed here are ignored.
+   */
+  headers?: CanisterHttpHeader[];
+}
+
+/**
+ * Builds the mocked response for a pending HTTPS outcall.
+ *
+ * @category Types
+ * @param outcall The pending HTTPS outcall to respond to.
+ * @returns The response to mock for the outcall.
+ */
+export type HttpsOutcallHandler = (
+  outcall: PendingHttpsOutcall,
+) => HttpsOutcallResponseMock | Promise<HttpsOutcallResponseMock>;
+
+/**
+ * Options for flushing pending HTTPS outcalls, see {@link HttpsOutcallRouter.flush}.
+ *
+ * @category Types
+ */
+export interface FlushHttpsOutcallsOptions {
+  /**
+   * The maximum number of ticks to execute before giving up.
+   * Defaults to `100`.
+   */
+  maxTicks?: number;
+}
+
+/**
+ * How an {@link HttpsOutcallCassette} answers outcalls.
+ *
+ * - `record`: outcalls are forwarded to a real server and the responses are recorded.
+ * - `replay`: outcalls are answered with the responses recorded earlier.
+ *
+ * @category Types
+ */
+export type HttpsOutcallCassetteMode = 'record' | 'replay';
+
+/**
+ * Options for loading an {@link HttpsOutcallCassette}.
+ *
+ * @category Types
+ */
+export interface HttpsOutcallCassetteOptions {
+  /**
+   * The path of the cassette JSON file.
+   */
+  path: string;
+
+  /**
+   * Whether to record or replay outcalls, see {@link HttpsOutcallCassetteMode}.
+   */
+  mode: HttpsOutcallCassetteMode;
+
+  /**
+   * The base URL of the server that outcalls are forwarded to while recording,
+   * for example a local stand-in for a staging API. The path and query of the
+   * outcall URL are appended to this URL. If omitted, outcalls are sent to
+   * their original URL.
+   */
+  forwardUrl?: string;
+}
+
+//#endregion HTTPS Outcalls
+
+//#region Bitcoin
+
+/**
+ * A reference to an output of a Bitcoin transaction.
+ *
+ * @category Types
+ */
+export interface BitcoinOutPoint {
+  /**
+   * The ID of the transaction, in the reversed hex notation that
+   * block explorers and `bitcoind` use.
+   */
+  txid: string;
+
+  /**
+   * The index of the output in the transaction.
+   */
+  vout: number;
+}
+
+/**
+ * An output of a Bitcoin transaction.
+ *
+ * @category Types
+ */
+export interface BitcoinTransactionOutput {
+  /**
+   * The value of the output in satoshis.
+   */
+  value: bigint;
+
+  /**
+   * The script that locks the output.
+   */
+  scriptPubKey: Uint8Array;
+
+  /**
+   * The regtest address that the output pays to,
+   * or `null` if the script has no address.
+   */
+  address: string | null;
+}
+
+/**
+ * A Bitcoin transaction that was sent to a {@link BitcoinRegtest} network.
+ *
+ * @category Types
+ */
+export interface BitcoinTransaction {
+  /**
+   * The ID of the transaction, in the reversed hex notation that
+   * block explorers and `bitcoind` use.
+   */
+  txid: string;
+
+  /**
+   * The serialized transaction, including witness data.
+   */
+  raw: Uint8Array;
+
+  /**
+   * The outputs that the transaction spends.
+   */
+  inputs: BitcoinOutPoint[];
+
+  /**
+   * The outputs that the transaction creates.
+   */
+  outputs: BitcoinTransactionOutput[];
+}
+
+/**
+ * An unspent output of a {@link BitcoinRegtest} network.
+ *
+ * @category Types
+ */
+export interface BitcoinUtxo {
+  /**
+   * The output, see {@link BitcoinOutPoint}.
+   */
+  outpoint: BitcoinOutPoint;
+
+  /**
+   * The value of the output in satoshis.
+   */
+  value: bigint;
+
+  /**
+   * The height of the block that created the output.
+   */
+  height: number;
+}
+
+//#endregion Bitcoin
+
+//#region Live
+
+/**
+ * Options for making a PocketIC instance live, see {@link PocketIc.makeLive}.
+ *
+ * @category Types
+ */
+export interface MakeLiveOptions {
+  /**
+   * Answers HTTPS outcalls while the instance is live. Pending outcalls are
+   * polled in the background and answered with the response of this handler
+   * until {@link PocketIc.stopLive} is called. If the handler throws, the outcall
+   * is rejected with the error message.
+   *
+   * Use {@link forwardHttpsOutcalls} to forward outcalls to a local HTTP server.
+   */
+  httpsOutcallHandler?: HttpsOutcallHandler;
+
+  /**
+   * How often to poll for pending HTTPS outcalls, in milliseconds.
+   * Only used together with {@link MakeLiveOptions.httpsOutcallHandler}.
+   * Defaults to `100`.
+   */
+  httpsOutcallPollIntervalMs?: number;
+}
+
+//#endregion Live
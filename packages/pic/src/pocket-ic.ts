@@ -1,19 +1,61 @@
 import { Principal } from '@icp-sdk/core/principal';
 import { IDL } from '@icp-sdk/core/candid';
 import {
+  canisterLogRecordFromIDL,
+  httpRequestResultFromIDL,
+  httpRequestResultToIDL,
+  httpsOutcallConsensus,
+  canisterSnapshotFromIDL,
+  decodeSnapshotMetadata,
+  encodeSnapshotMetadata,
+  ensureDir,
+  exists,
+  isNonEmptyDir,
+  copyDir,
+  removeDir,
+  replaceDir,
+  tmpDir,
+  tmpDirNextTo,
   isNil,
+  isNotNil,
   logVisibilityFromIDL,
+  optCanisterLogFilterToIDL,
   optLogVisibilityToIDL,
   optSnapshotVisibilityToIDL,
   optional,
+  schnorrAlgorithmToIDL,
+  generateVetKdTransportKey,
+  decryptVetKey,
+  proxyCanisterWasm,
+  encodeProxyCallRequest,
+  decodeProxyCallResponse,
+  CallWithCyclesRequest,
   readFileAsBytes,
+  readFileAsString,
   sha256,
+  snapshotDirPaths,
+  snapshotWasmChunkPath,
   splitIntoChunks,
+  writeFileAsBytes,
+  writeFileAsString,
 } from './util';
 import { PocketIcClient } from './pocket-ic-client';
-import { ActorInterface, Actor, createActorClass } from './pocket-ic-actor';
+import { CallTracer } from './call-tracer';
+import { HttpsOutcallPoller } from './https-outcall-poller';
+import { HttpsOutcallRouter } from './https-outcall-router';
+import { VirtualClock } from './virtual-clock';
+import { BitcoinRegtest } from './bitcoin-regtest';
 import {
+  ActorInterface,
+  Actor,
+  ResultActor,
+  createActorClass,
+  createResultActorClass,
+} from './pocket-ic-actor';
+import {
+  ActorInterceptor,
   CanisterFixture,
+  CreateActorOptions,
   CreateCanisterOptions,
   CreateInstanceOptions,
   InstallCodeOptions,
@@ -25,13 +67,59 @@ import {
   UpdateCanisterSettingsOptions,
   StartCanisterOptions,
   StopCanisterOptions,
+  UninstallCodeOptions,
+  DeleteCanisterOptions,
   QueryCallOptions,
   UpdateCallOptions,
+  UpdateCallWithCyclesOptions,
+  UpdateCallWithCyclesResult,
   PendingHttpsOutcall,
   MockPendingHttpsOutcallOptions,
+  MakeLiveOptions,
+  MockDivergentOutcallOptions,
+  MockDivergentOutcallResult,
+  HttpsOutcallResponseMock,
+  HttpsOutcallSuccessResponse,
+  InvokeHttpTransformOptions,
+  TickUntilCallsCompleteOptions,
+  TickUntilCallsCompleteResult,
+  TickUntilOptions,
+  GetGlobalTimerOptions,
+  AdvanceToNextTimerOptions,
+  InstanceCheckpoint,
   CanisterStatusOptions,
   CanisterStatusResult,
+  CanisterSnapshot,
+  TakeCanisterSnapshotOptions,
+  LoadCanisterSnapshotOptions,
+  ListCanisterSnapshotsOptions,
+  DeleteCanisterSnapshotOptions,
+  DownloadCanisterSnapshotOptions,
+  UploadCanisterSnapshotOptions,
+  FetchCanisterLogsOptions,
+  CanisterLogRecord,
+  GetEcdsaPublicKeyOptions,
+  SignWithEcdsaOptions,
+  GetSchnorrPublicKeyOptions,
+  SignWithSchnorrOptions,
+  ThresholdPublicKey,
+  VetKdPublicKeyOptions,
+  DeriveVetKeyOptions,
+  DerivedVetKey,
+  SubnetStateType,
+  IcpFeaturesConfig,
 } from './pocket-ic-types';
+import {
+  CANISTER_NOT_FOUND_ERROR_CODE,
+  EffectivePrincipal,
+} from './pocket-ic-client-types';
+import {
+  CanisterNotFoundError,
+  CanisterRejectError,
+  ProxiedCanisterRejectError,
+  InactiveGlobalTimerError,
+  MaxTicksExceededError,
+} from './error';
 import {
   MANAGEMENT_CANISTER_ID,
   CanisterInstallMode,
@@ -43,14 +131,50 @@ import {
   encodeInstallChunkedCodeRequest,
   encodeInstallCodeRequest,
   encodeStartCanisterRequest,
+  encodeUninstallCodeRequest,
+  encodeDeleteCanisterRequest,
   encodeUpdateCanisterSettingsRequest,
   encodeUploadChunkRequest,
   decodeCanisterStatusResponse,
   encodeCanisterStatusRequest,
+  encodeTakeCanisterSnapshotRequest,
+  decodeTakeCanisterSnapshotResponse,
+  encodeLoadCanisterSnapshotRequest,
+  encodeListCanisterSnapshotsRequest,
+  decodeListCanisterSnapshotsResponse,
+  encodeDeleteCanisterSnapshotRequest,
+  encodeReadCanisterSnapshotMetadataRequest,
+  decodeReadCanisterSnapshotMetadataResponse,
+  encodeReadCanisterSnapshotDataRequest,
+  decodeReadCanisterSnapshotDataResponse,
+  ReadCanisterSnapshotDataRequest,
+  encodeUploadCanisterSnapshotMetadataRequest,
+  decodeUploadCanisterSnapshotMetadataResponse,
+  encodeUploadCanisterSnapshotDataRequest,
+  UploadCanisterSnapshotDataRequest,
+  encodeFetchCanisterLogsRequest,
+  encodeEcdsaPublicKeyRequest,
+  decodeEcdsaPublicKeyResponse,
+  encodeSignWithEcdsaRequest,
+  decodeSignWithEcdsaResponse,
+  encodeSchnorrPublicKeyRequest,
+  decodeSchnorrPublicKeyResponse,
+  encodeSignWithSchnorrRequest,
+  decodeSignWithSchnorrResponse,
+  decodeRawRandResponse,
+  encodeVetKdPublicKeyRequest,
+  decodeVetKdPublicKeyResponse,
+  encodeVetKdDeriveKeyRequest,
+  decodeVetKdDeriveKeyResponse,
+  encodeTransformArgs,
+  decodeHttpRequestResult,
+  decodeFetchCanisterLogsResponse,
 } from './management-canister';
 import {
   createDeferredActorClass,
+  createResultDeferredActorClass,
   DeferredActor,
+  ResultDeferredActor,
 } from './pocket-ic-deferred-actor';
 
 const NANOS_PER_MILLISECOND = BigInt(1_000_000);
@@ -62,6 +186,27 @@ const MAX_INSTALL_CODE_PAYLOAD_SIZE = 1_850_000;
 const WASM_CHUNK_SIZE = 1_000_000;
 const CHUNK_UPLOAD_BATCH_SIZE = 12;
 
+const DEFAULT_HTTPS_OUTCALL_POLL_INTERVAL_MS = 100;
+const DEFAULT_MAX_TICKS = 100;
+
+const RESUME_INCOMPATIBLE_OPTIONS = [
+  'nns',
+  'sns',
+  'ii',
+  'fiduciary',
+  'bitcoin',
+  'system',
+  'application',
+  'verifiedApplication',
+  'icpFeatures',
+] as const satisfies (keyof CreateInstanceOptions)[];
+
+const DEFAULT_THRESHOLD_KEY_NAME = 'dfx_test_key';
+// Threshold signing and key derivation fees are charged to the proxy canister
+// and the unused cycles are refunded, so this only needs to cover the most
+// expensive fee.
+const THRESHOLD_KEY_CYCLES = 100_000_000_000n;
+
 /**
  * This class represents the main PocketIC client.
  * It is responsible for interacting with the PocketIC server via the REST API.
@@ -112,8 +257,47 @@ const CHUNK_UPLOAD_BATCH_SIZE = 12;
  */
 export class PocketIc {
   private httpGatewayPort: number | null = null;
+  private readonly interceptors: ActorInterceptor[] = [];
+  private readonly interfaceFactories = new Map<string, IDL.InterfaceFactory>();
+  private tracer: CallTracer | null = null;
+  private httpsOutcallPoller: HttpsOutcallPoller | null = null;
+  private proxyCanisterId: Promise<Principal> | null = null;
+
+  /**
+   * Answers pending HTTPS outcalls with handlers registered for matching requests,
+   * see {@link HttpsOutcallRouter}.
+   */
+  public readonly httpsOutcalls: HttpsOutcallRouter;
+
+  /**
+   * Keeps the time of the instance in sync with the fake timers of the
+   * test runner, see {@link VirtualClock}.
+   */
+  public readonly clock: VirtualClock;
+
+  private constructor(
+    private readonly client: PocketIcClient,
+    private readonly bitcoinRegtest: BitcoinRegtest | null = null,
+  ) {
+    this.httpsOutcalls = new HttpsOutcallRouter(client);
+    this.clock = new VirtualClock(client);
+  }
+
+  /**
+   * The in-process Bitcoin regtest network that the Bitcoin adapter is connected to,
+   * see {@link BitcoinRegtest}.
+   * Requires the instance to be created with the
+   * {@link CreateInstanceOptions.bitcoinRegtest | bitcoinRegtest} option.
+   */
+  public get bitcoin(): BitcoinRegtest {
+    if (isNil(this.bitcoinRegtest)) {
+      throw new Error(
+        'The PocketIC instance was not created with the bitcoinRegtest option.',
+      );
+    }
 
-  private constructor(private readonly client: PocketIcClient) {}
+    return this.bitcoinRegtest;
+  }
 
   /**
    * Creates a PocketIC instance.
@@ -135,16 +319,178 @@ export class PocketIc {
    * await pic.tearDown();
    * await picServer.stop();
    * ```
+   *
+   * @example
+   * Expensive setups can be persisted to a state directory and resumed in later runs:
+   * ```ts
+   * import { PocketIc, PocketIcServer, SubnetStateType } from '@dfinity/pic';
+   *
+   * const stateDir = resolve(__dirname, '.pocket-ic-state');
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = existsSync(stateDir)
+   *   ? await PocketIc.create(picServer.getUrl(), { stateDir, resume: true })
+   *   : await PocketIc.create(picServer.getUrl(), {
+   *       stateDir,
+   *       nns: { state: { type: SubnetStateType.New } },
+   *     });
+   *
+   * // the state is written to `stateDir` on teardown
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
    */
   public static async create(
     url: string,
     options?: CreateInstanceOptions,
   ): Promise<PocketIc> {
-    const client = await PocketIcClient.create(url, options);
+    if (options?.resume) {
+      if (options.bitcoinRegtest) {
+        throw new Error(
+          'The Bitcoin subnet of a resumed PocketIC instance has already synced the blocks of another regtest network, so the bitcoinRegtest option cannot be used with the resume option.',
+        );
+      }
+
+      if (isNil(options.stateDir)) {
+        throw new Error(
+          'The stateDir option is required to resume a PocketIC instance.',
+        );
+      }
+
+      if (!(await exists(options.stateDir))) {
+        throw new Error(
+          `There is no PocketIC instance state to resume at ${options.stateDir}.`,
+        );
+      }
+
+      const topologyOptions = RESUME_INCOMPATIBLE_OPTIONS.filter(option =>
+        isNotNil(options[option]),
+      );
+      if (topologyOptions.length > 0) {
+        throw new Error(
+          `The topology of a resumed PocketIC instance is restored from its state directory, so the ${topologyOptions.join(', ')} options cannot be used with the resume option.`,
+        );
+      }
+    } else if (
+      isNotNil(options?.stateDir) &&
+      (await isNonEmptyDir(options.stateDir))
+    ) {
+      throw new Error(
+        `The state directory ${options.stateDir} is not empty, set the resume option to resume the PocketIC instance from it.`,
+      );
+    }
+
+    if (!options?.bitcoinRegtest) {
+      const client = await PocketIcClient.create(url, options);
+
+      return new PocketIc(client);
+    }
+
+    const bitcoinRegtest = await BitcoinRegtest.start();
+    try {
+      const client = await PocketIcClient.create(url, {
+        ...options,
+        bitcoin: options.bitcoin ?? { state: { type: SubnetStateType.New } },
+        icpFeatures: {
+          ...options.icpFeatures,
+          bitcoin:
+            options.icpFeatures?.bitcoin ?? IcpFeaturesConfig.DefaultConfig,
+        },
+        bitcoindAddr: [
+          ...(options.bitcoindAddr ?? []),
+          bitcoinRegtest.getAddress(),
+        ],
+      });
+
+      return new PocketIc(client, bitcoinRegtest);
+    } catch (error) {
+      await bitcoinRegtest.stop();
+      throw error;
+    }
+  }
+
+  /**
+   * Connects to an existing PocketIC instance, for example one that was created
+   * by another process with {@link create}. This allows several processes to
+   * share one running instance.
+   *
+   * Note that calling {@link tearDown} on any of the connected {@link PocketIc}
+   * objects deletes the instance for all of them. Call {@link disconnect} instead
+   * to leave the instance running for the other processes.
+   *
+   * @param url The URL of the PocketIC server that the instance runs on.
+   * @param instanceId The ID of the instance to connect to, see {@link getInstanceId}.
+   * @returns The connected PocketIC instance.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc } from '@dfinity/pic';
+   *
+   * const pic = await PocketIc.connect(
+   *   process.env.PIC_URL,
+   *   Number(process.env.PIC_INSTANCE_ID),
+   * );
+   *
+   * const time = await pic.getTime();
+   * ```
+   */
+  public static async connect(
+    url: string,
+    instanceId: number,
+  ): Promise<PocketIc> {
+    const client = await PocketIcClient.connect(url, instanceId);
 
     return new PocketIc(client);
   }
 
+  /**
+   * Lists the instances that are running on a PocketIC server.
+   * Instances that were deleted are not included.
+   *
+   * @param url The URL of the PocketIC server.
+   * @returns The IDs of the running instances.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const instanceIds = await PocketIc.listInstances(picServer.getUrl());
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public static async listInstances(url: string): Promise<number[]> {
+    return await PocketIcClient.listInstances(url);
+  }
+
+  /**
+   * Get the ID of this PocketIC instance on the server.
+   * Other processes can use it to connect to the instance with {@link connect}.
+   *
+   * @returns The ID of the instance.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * process.env.PIC_URL = picServer.getUrl();
+   * process.env.PIC_INSTANCE_ID = String(pic.getInstanceId());
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public getInstanceId(): number {
+    return this.client.getInstanceId();
+  }
+
   /**
    * A convenience method that creates a new canister,
    * installs the given WASM module to it and returns a typesafe {@link Actor}
@@ -386,6 +732,104 @@ export class PocketIc {
     });
   }
 
+  /**
+   * Uninstalls the code of the given canister.
+   * The canister's state is discarded, but the canister itself,
+   * its settings and its cycles balance are kept.
+   *
+   * @param options Options for uninstalling the code, see {@link UninstallCodeOptions}.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * await pic.uninstallCode({ canisterId });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async uninstallCode({
+    canisterId,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: UninstallCodeOptions): Promise<void> {
+    const payload = encodeUninstallCodeRequest({
+      canister_id: canisterId,
+      sender_canister_version: [],
+    });
+
+    await this.client.updateCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'uninstall_code',
+      payload,
+      effectivePrincipal: targetSubnetId
+        ? {
+            subnetId: targetSubnetId,
+          }
+        : undefined,
+    });
+  }
+
+  /**
+   * Deletes the given canister.
+   * The canister must be stopped before it can be deleted,
+   * see {@link stopCanister}.
+   * Calling {@link canisterStatus} on a deleted canister throws a
+   * {@link CanisterNotFoundError}.
+   *
+   * @param options Options for deleting the canister, see {@link DeleteCanisterOptions}.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * await pic.stopCanister({ canisterId });
+   * await pic.deleteCanister({ canisterId });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async deleteCanister({
+    canisterId,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: DeleteCanisterOptions): Promise<void> {
+    const payload = encodeDeleteCanisterRequest({
+      canister_id: canisterId,
+    });
+
+    await this.client.updateCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'delete_canister',
+      payload,
+      effectivePrincipal: targetSubnetId
+        ? {
+            subnetId: targetSubnetId,
+          }
+        : undefined,
+    });
+  }
+
   /**
    * Installs the given WASM module to the provided canister.
    * To create a canister to install code to, see {@link createCanister}.
@@ -657,6 +1101,8 @@ export class PocketIc {
 
   /**
    * Returns the status of the given canister.
+   * Throws a {@link CanisterNotFoundError} if the canister does not exist,
+   * for example because it was deleted with {@link deleteCanister}.
    *
    * @param options Options for querying the canister status, see {@link CanisterStatusOptions}.
    * @returns The canister status, see {@link CanisterStatusResult}.
@@ -687,12 +1133,23 @@ export class PocketIc {
       canister_id: canisterId,
     });
 
-    const res = await this.client.updateCall({
-      canisterId: MANAGEMENT_CANISTER_ID,
-      sender,
-      method: 'canister_status',
-      payload,
-    });
+    const res = await this.client
+      .updateCall({
+        canisterId: MANAGEMENT_CANISTER_ID,
+        sender,
+        method: 'canister_status',
+        payload,
+      })
+      .catch(error => {
+        if (
+          error instanceof CanisterRejectError &&
+          error.errorCode === CANISTER_NOT_FOUND_ERROR_CODE
+        ) {
+          throw new CanisterNotFoundError(canisterId, error);
+        }
+
+        throw error;
+      });
 
     const response = decodeCanisterStatusResponse(res.body);
 
@@ -726,81 +1183,926 @@ export class PocketIc {
   }
 
   /**
-   * Creates an {@link Actor} for the given canister.
-   * An {@link Actor} is a typesafe class that implements the Candid interface of a canister.
-   * To create a canister for the {@link Actor}, see {@link createCanister}.
-   * For a more convenient way of creating a PocketIC instance,
-   * creating a canister and installing code, see {@link setupCanister}.
+   * Takes a snapshot of the given canister's state.
+   * The snapshot can later be restored with {@link loadCanisterSnapshot}.
    *
-   * @param interfaceFactory The InterfaceFactory to use for the {@link Actor}.
-   * @param canisterId The Principal of the canister to create the {@link Actor} for.
-   * @typeParam T The type of the {@link Actor}. Must implement {@link ActorInterface}.
-   * @returns The {@link Actor} instance.
+   * @param options Options for taking the snapshot, see {@link TakeCanisterSnapshotOptions}.
+   * @returns The newly taken snapshot, see {@link CanisterSnapshot}.
    *
    * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
-   * @see [InterfaceFactory](https://js.icp.build/core/latest/libs/candid/api/namespaces/idl/type-aliases/interfacefactory/)
    *
    * @example
    * ```ts
    * import { Principal } from '@icp-sdk/core/principal';
    * import { PocketIc, PocketIcServer } from '@dfinity/pic';
-   * import { _SERVICE, idlFactory } from '../declarations';
    *
    * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
-   * const wasm = resolve('..', '..', 'canister.wasm');
    *
    * const picServer = await PocketIcServer.start();
    * const pic = await PocketIc.create(picServer.getUrl());
    *
-   * const canisterId = await pic.createCanister();
-   * await pic.installCode({ canisterId, wasm });
-   * const actor = pic.createActor<_SERVICE>({ idlFactory, canisterId });
+   * await pic.stopCanister({ canisterId });
+   * const snapshot = await pic.takeCanisterSnapshot({ canisterId });
+   * await pic.startCanister({ canisterId });
    *
    * await pic.tearDown();
    * await picServer.stop();
    * ```
    */
-  public createActor<T extends ActorInterface<T> = ActorInterface>(
-    interfaceFactory: IDL.InterfaceFactory,
-    canisterId: Principal,
-  ): Actor<T> {
-    const Actor = createActorClass<T>(
-      interfaceFactory,
-      canisterId,
-      this.client,
-    );
+  public async takeCanisterSnapshot({
+    canisterId,
+    replaceSnapshot,
+    uninstallCode,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: TakeCanisterSnapshotOptions): Promise<CanisterSnapshot> {
+    const payload = encodeTakeCanisterSnapshotRequest({
+      canister_id: canisterId,
+      replace_snapshot: optional(replaceSnapshot),
+      uninstall_code: optional(uninstallCode),
+      sender_canister_version: [],
+    });
 
-    return new Actor();
+    const res = await this.client.updateCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'take_canister_snapshot',
+      payload,
+      effectivePrincipal: targetSubnetId
+        ? {
+            subnetId: targetSubnetId,
+          }
+        : undefined,
+    });
+
+    return canisterSnapshotFromIDL(
+      decodeTakeCanisterSnapshotResponse(res.body),
+    );
   }
 
   /**
-   * Creates a {@link DeferredActor} for the given canister.
-   * A {@link DeferredActor} is a typesafe class that implements the Candid interface of a canister.
+   * Loads a previously taken snapshot into the given canister,
+   * restoring the canister's state to the point in time when the snapshot was taken.
+   * To take a snapshot, see {@link takeCanisterSnapshot}.
    *
-   * A {@link DeferredActor} in contrast to a normal {@link Actor} will submit the call to the PocketIc replica,
-   * but the call will not be executed immediately. Instead, the calls are queued and a `Promise` is returned
-   * by the {@link DeferredActor} that can be awaited to process the pending canister call.
+   * @param options Options for loading the snapshot, see {@link LoadCanisterSnapshotOptions}.
    *
-   * To create a canister for the {@link DeferredActor}, see {@link createCanister}.
-   * For a more convenient way of creating a PocketIC instance,
-   * creating a canister and installing code, see {@link setupCanister}.
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
    *
-   * @param interfaceFactory The InterfaceFactory to use for the {@link DeferredActor}.
-   * @param canisterId The Principal of the canister to create the {@link DeferredActor} for.
-   * @typeParam T The type of the {@link DeferredActor}. Must implement {@link ActorInterface}.
-   * @returns The {@link DeferredActor} instance.
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
    *
-   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
-   * @see [InterfaceFactory](https://js.icp.build/core/latest/libs/candid/api/namespaces/idl/type-aliases/interfacefactory/)
-   */
-  public createDeferredActor<T extends ActorInterface<T> = ActorInterface>(
-    interfaceFactory: IDL.InterfaceFactory,
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * await pic.stopCanister({ canisterId });
+   * const snapshot = await pic.takeCanisterSnapshot({ canisterId });
+   *
+   * // ...
+   *
+   * await pic.loadCanisterSnapshot({ canisterId, snapshotId: snapshot.id });
+   * await pic.startCanister({ canisterId });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async loadCanisterSnapshot({
+    canisterId,
+    snapshotId,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: LoadCanisterSnapshotOptions): Promise<void> {
+    const payload = encodeLoadCanisterSnapshotRequest({
+      canister_id: canisterId,
+      snapshot_id: snapshotId,
+      sender_canister_version: [],
+    });
+
+    await this.client.updateCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'load_canister_snapshot',
+      payload,
+      effectivePrincipal: targetSubnetId
+        ? {
+            subnetId: targetSubnetId,
+          }
+        : undefined,
+    });
+  }
+
+  /**
+   * Lists the snapshots of the given canister.
+   *
+   * @param options Options for listing the snapshots, see {@link ListCanisterSnapshotsOptions}.
+   * @returns The snapshots of the canister, see {@link CanisterSnapshot}.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const snapshots = await pic.listCanisterSnapshots({ canisterId });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async listCanisterSnapshots({
+    canisterId,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: ListCanisterSnapshotsOptions): Promise<CanisterSnapshot[]> {
+    const payload = encodeListCanisterSnapshotsRequest({
+      canister_id: canisterId,
+    });
+
+    const res = await this.client.updateCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'list_canister_snapshots',
+      payload,
+      effectivePrincipal: targetSubnetId
+        ? {
+            subnetId: targetSubnetId,
+          }
+        : undefined,
+    });
+
+    return decodeListCanisterSnapshotsResponse(res.body).map(
+      canisterSnapshotFromIDL,
+    );
+  }
+
+  /**
+   * Deletes a snapshot of the given canister.
+   *
+   * @param options Options for deleting the snapshot, see {@link DeleteCanisterSnapshotOptions}.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const [snapshot] = await pic.listCanisterSnapshots({ canisterId });
+   * await pic.deleteCanisterSnapshot({ canisterId, snapshotId: snapshot.id });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async deleteCanisterSnapshot({
+    canisterId,
+    snapshotId,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: DeleteCanisterSnapshotOptions): Promise<void> {
+    const payload = encodeDeleteCanisterSnapshotRequest({
+      canister_id: canisterId,
+      snapshot_id: snapshotId,
+    });
+
+    await this.client.updateCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'delete_canister_snapshot',
+      payload,
+      effectivePrincipal: targetSubnetId
+        ? {
+            subnetId: targetSubnetId,
+          }
+        : undefined,
+    });
+  }
+
+  /**
+   * Downloads a snapshot of the given canister to a local directory.
+   * The snapshot can later be uploaded to the same or another canister,
+   * on this or another PocketIC instance, with {@link uploadCanisterSnapshot}.
+   *
+   * @param options Options for downloading the snapshot, see {@link DownloadCanisterSnapshotOptions}.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * await pic.stopCanister({ canisterId });
+   * const snapshot = await pic.takeCanisterSnapshot({ canisterId });
+   *
+   * await pic.downloadCanisterSnapshot({
+   *   canisterId,
+   *   snapshotId: snapshot.id,
+   *   snapshotDir: resolve('fixtures', 'snapshot'),
+   * });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async downloadCanisterSnapshot({
+    canisterId,
+    snapshotId,
+    snapshotDir,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: DownloadCanisterSnapshotOptions): Promise<void> {
+    const effectivePrincipal = targetSubnetId
+      ? { subnetId: targetSubnetId }
+      : undefined;
+    const paths = snapshotDirPaths(snapshotDir);
+
+    const metadataPayload = encodeReadCanisterSnapshotMetadataRequest({
+      canister_id: canisterId,
+      snapshot_id: snapshotId,
+    });
+
+    const metadataRes = await this.client.updateCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'read_canister_snapshot_metadata',
+      payload: metadataPayload,
+      effectivePrincipal,
+    });
+    const metadata = decodeReadCanisterSnapshotMetadataResponse(
+      metadataRes.body,
+    );
+
+    await ensureDir(paths.wasmChunkStore);
+    await writeFileAsString(paths.metadata, encodeSnapshotMetadata(metadata));
+
+    const sections = [
+      ['wasm_module', metadata.wasm_module_size, paths.wasmModule],
+      ['main_memory', metadata.wasm_memory_size, paths.wasmMemory],
+      ['stable_memory', metadata.stable_memory_size, paths.stableMemory],
+    ] as const;
+
+    for (const [kind, size, filePath] of sections) {
+      const data = await this.readCanisterSnapshotData({
+        canisterId,
+        snapshotId,
+        kind,
+        size,
+        sender,
+        effectivePrincipal,
+      });
+
+      await writeFileAsBytes(filePath, data);
+    }
+
+    for (const { hash } of metadata.wasm_chunk_store) {
+      const payload = encodeReadCanisterSnapshotDataRequest({
+        canister_id: canisterId,
+        snapshot_id: snapshotId,
+        kind: { wasm_chunk: { hash } },
+      });
+
+      const res = await this.client.updateCall({
+        canisterId: MANAGEMENT_CANISTER_ID,
+        sender,
+        method: 'read_canister_snapshot_data',
+        payload,
+        effectivePrincipal,
+      });
+      const { chunk } = decodeReadCanisterSnapshotDataResponse(res.body);
+
+      await writeFileAsBytes(
+        snapshotWasmChunkPath(paths.wasmChunkStore, hash),
+        chunk,
+      );
+    }
+  }
+
+  /**
+   * Uploads a snapshot from a local directory to the given canister.
+   * The snapshot directory is typically created with {@link downloadCanisterSnapshot}.
+   * Once uploaded, the snapshot can be loaded into the canister with {@link loadCanisterSnapshot}.
+   *
+   * @param options Options for uploading the snapshot, see {@link UploadCanisterSnapshotOptions}.
+   * @returns The ID of the uploaded snapshot.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const snapshotId = await pic.uploadCanisterSnapshot({
+   *   canisterId,
+   *   snapshotDir: resolve('fixtures', 'snapshot'),
+   * });
+   *
+   * await pic.stopCanister({ canisterId });
+   * await pic.loadCanisterSnapshot({ canisterId, snapshotId });
+   * await pic.startCanister({ canisterId });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async uploadCanisterSnapshot({
+    canisterId,
+    snapshotDir,
+    replaceSnapshot,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: UploadCanisterSnapshotOptions): Promise<Uint8Array> {
+    const effectivePrincipal = targetSubnetId
+      ? { subnetId: targetSubnetId }
+      : undefined;
+    const paths = snapshotDirPaths(snapshotDir);
+
+    const metadata = decodeSnapshotMetadata(
+      await readFileAsString(paths.metadata),
+    );
+
+    const metadataPayload = encodeUploadCanisterSnapshotMetadataRequest({
+      canister_id: canisterId,
+      replace_snapshot: optional(replaceSnapshot),
+      wasm_module_size: metadata.wasm_module_size,
+      exported_globals: metadata.exported_globals,
+      wasm_memory_size: metadata.wasm_memory_size,
+      stable_memory_size: metadata.stable_memory_size,
+      certified_data: metadata.certified_data,
+      global_timer: metadata.global_timer,
+      on_low_wasm_memory_hook_status: metadata.on_low_wasm_memory_hook_status,
+    });
+
+    const metadataRes = await this.client.updateCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'upload_canister_snapshot_metadata',
+      payload: metadataPayload,
+      effectivePrincipal,
+    });
+    const { snapshot_id: snapshotId } =
+      decodeUploadCanisterSnapshotMetadataResponse(metadataRes.body);
+
+    const sections = [
+      ['wasm_module', paths.wasmModule],
+      ['main_memory', paths.wasmMemory],
+      ['stable_memory', paths.stableMemory],
+    ] as const;
+
+    for (const [kind, filePath] of sections) {
+      await this.uploadCanisterSnapshotData({
+        canisterId,
+        snapshotId,
+        kind,
+        data: await readFileAsBytes(filePath),
+        sender,
+        effectivePrincipal,
+      });
+    }
+
+    for (const { hash } of metadata.wasm_chunk_store) {
+      const chunk = await readFileAsBytes(
+        snapshotWasmChunkPath(paths.wasmChunkStore, hash),
+      );
+
+      const payload = encodeUploadCanisterSnapshotDataRequest({
+        canister_id: canisterId,
+        snapshot_id: snapshotId,
+        kind: { wasm_chunk: null },
+        chunk,
+      });
+
+      await this.client.updateCall({
+        canisterId: MANAGEMENT_CANISTER_ID,
+        sender,
+        method: 'upload_canister_snapshot_data',
+        payload,
+        effectivePrincipal,
+      });
+    }
+
+    return snapshotId;
+  }
+
+  /**
+   * Takes a checkpoint of the whole instance, that can be restored with
+   * {@link restore}, for example to roll back to a prepared state in
+   * `beforeEach` instead of rebuilding it.
+   *
+   * The instance must be created with a {@link CreateInstanceOptions.stateDir | state directory}
+   * and must not be in {@link makeLive | live mode}.
+   *
+   * The PocketIC server only writes the state of an instance when the instance
+   * is deleted, and only reads it when an instance is created from it.
+   * To take the checkpoint, the instance is therefore deleted, its state
+   * directory is copied, and a new instance is resumed from the state
+   * directory. This instance then sends all further requests to the new
+   * instance. As a result:
+   * - Every checkpoint costs a round trip of deleting and resuming the instance.
+   * - The ID of the instance changes, so other clients that are connected to
+   *   the instance with {@link connect} lose it.
+   * - Messages that have not completed yet are dropped, so deferred calls
+   *   should be awaited before taking a checkpoint.
+   *
+   * @returns The checkpoint, see {@link InstanceCheckpoint}.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl(), { stateDir });
+   *
+   * const fixture = await pic.setupCanister<_SERVICE>({ idlFactory, wasm });
+   * const checkpoint = await pic.checkpoint();
+   *
+   * // perform tests...
+   *
+   * await pic.restore(checkpoint);
+   * await pic.discard(checkpoint);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async checkpoint(): Promise<InstanceCheckpoint> {
+    const stateDir = this.assertCanCheckpoint();
+    const proxyCanisterId = await this.getInstalledProxyCanisterId();
+
+    const checkpointDir = await tmpDir('pic-checkpoint-');
+    try {
+      await this.client.deleteInstance();
+      try {
+        await copyDir(stateDir, checkpointDir);
+      } finally {
+        await this.client.resumeInstance();
+      }
+    } catch (error) {
+      await removeDir(checkpointDir);
+      throw error;
+    }
+
+    return { stateDir: checkpointDir, proxyCanisterId };
+  }
+
+  /**
+   * Restores the instance to the state it was in when a checkpoint was
+   * taken with {@link checkpoint}. A checkpoint can be restored any number
+   * of times, until it is removed with {@link discard}.
+   *
+   * The instance is deleted, its state directory is replaced with a copy of
+   * the checkpoint, and a new instance is resumed from it, see {@link checkpoint}.
+   * The state of canisters, subnets and the time of the instance are restored.
+   * If restoring fails, the instance is resumed from its current state.
+   *
+   * The following is not restored:
+   * - The ID of the instance, which changes, so other clients that are
+   *   connected to the instance with {@link connect} lose it.
+   * - Messages that have not completed yet, which are dropped.
+   * - The state of the {@link bitcoin | Bitcoin regtest network}.
+   * - HTTPS outcall handlers, interceptors and other state that is kept on
+   *   this object rather than on the PocketIC server.
+   * - Fake timers that are bound with {@link VirtualClock.bindFakeTimers},
+   *   which keep their time.
+   *
+   * @param checkpoint The checkpoint to restore, see {@link InstanceCheckpoint}.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl(), { stateDir });
+   *
+   * const fixture = await pic.setupCanister<_SERVICE>({ idlFactory, wasm });
+   * const checkpoint = await pic.checkpoint();
+   *
+   * // perform tests...
+   *
+   * await pic.restore(checkpoint);
+   * await pic.discard(checkpoint);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async restore(checkpoint: InstanceCheckpoint): Promise<void> {
+    const stateDir = this.assertCanCheckpoint();
+
+    const restoredDir = await tmpDirNextTo(stateDir);
+    try {
+      await copyDir(checkpoint.stateDir, restoredDir);
+
+      await this.client.deleteInstance();
+      try {
+        await replaceDir(stateDir, restoredDir);
+        this.proxyCanisterId = isNil(checkpoint.proxyCanisterId)
+          ? null
+          : Promise.resolve(checkpoint.proxyCanisterId);
+      } finally {
+        await this.client.resumeInstance();
+      }
+    } finally {
+      await removeDir(restoredDir);
+    }
+  }
+
+  /**
+   * Removes a checkpoint that was taken with {@link checkpoint}.
+   * The checkpoint can no longer be restored afterwards.
+   *
+   * @param checkpoint The checkpoint to remove, see {@link InstanceCheckpoint}.
+   */
+  public async discard(checkpoint: InstanceCheckpoint): Promise<void> {
+    await removeDir(checkpoint.stateDir);
+  }
+
+  private async getInstalledProxyCanisterId(): Promise<Principal | null> {
+    try {
+      return (await this.proxyCanisterId) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private assertCanCheckpoint(): string {
+    const stateDir = this.client.getStateDir();
+    if (isNil(stateDir)) {
+      throw new Error(
+        'The stateDir option is required to checkpoint a PocketIC instance.',
+      );
+    }
+
+    if (isNotNil(this.httpGatewayPort)) {
+      throw new Error(
+        'A PocketIC instance cannot be checkpointed in live mode.',
+      );
+    }
+
+    return stateDir;
+  }
+
+  /**
+   * Fetches the logs of the given canister.
+   * The sender must be allowed to read the logs by the canister's
+   * {@link CanisterSettings.logVisibility | log visibility} setting.
+   * Use {@link decodeCanisterLogContent} to decode the content of each
+   * record as text.
+   *
+   * @param options Options for fetching the canister logs, see {@link FetchCanisterLogsOptions}.
+   * @returns The canister's log records, see {@link CanisterLogRecord}.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import {
+   *   PocketIc,
+   *   PocketIcServer,
+   *   decodeCanisterLogContent,
+   * } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const records = await pic.fetchCanisterLogs({
+   *   canisterId,
+   *   filter: { byIdx: { start: 0n, end: 9n } },
+   * });
+   * const messages = records.map(decodeCanisterLogContent);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async fetchCanisterLogs({
+    canisterId,
+    filter,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: FetchCanisterLogsOptions): Promise<CanisterLogRecord[]> {
+    const payload = encodeFetchCanisterLogsRequest({
+      canister_id: canisterId,
+      filter: optCanisterLogFilterToIDL(filter),
+    });
+
+    const res = await this.client.queryCall({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      sender,
+      method: 'fetch_canister_logs',
+      payload,
+      effectivePrincipal: targetSubnetId
+        ? {
+            subnetId: targetSubnetId,
+          }
+        : {
+            canisterId,
+          },
+    });
+
+    return decodeFetchCanisterLogsResponse(res.body).canister_log_records.map(
+      canisterLogRecordFromIDL,
+    );
+  }
+
+  /**
+   * Starts recording every canister call made through this PocketIC instance,
+   * including calls made by actors, deferred actors and methods such as
+   * {@link queryCall} and {@link updateCall}.
+   * Calling this method while tracing is already active returns the active tracer.
+   *
+   * @returns The tracer recording the calls, see {@link CallTracer}.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   * const tracer = pic.startTracing();
+   *
+   * // perform tests...
+   *
+   * await writeFile('trace.json', tracer.toJson());
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public startTracing(): CallTracer {
+    if (!isNil(this.tracer)) {
+      return this.tracer;
+    }
+
+    this.tracer = new CallTracer(
+      canisterId => this.interfaceFactories.get(canisterId.toText()),
+      () => this.getTime(),
+    );
+    this.client.addCallObserver(this.tracer.observer);
+
+    return this.tracer;
+  }
+
+  /**
+   * Stops recording canister calls.
+   * The calls recorded so far remain available on the tracer
+   * returned by {@link startTracing}.
+   */
+  public stopTracing(): void {
+    if (isNil(this.tracer)) {
+      return;
+    }
+
+    this.client.removeCallObserver(this.tracer.observer);
+    this.tracer = null;
+  }
+
+  /**
+   * Registers an interceptor that runs around every call made by the actors
+   * of this PocketIC instance, including actors that were already created.
+   * Interceptors registered here run before any interceptors passed to
+   * {@link createActor} or {@link createDeferredActor}.
+   *
+   * @param interceptor The interceptor to register, see {@link ActorInterceptor}.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const callCounts = new Map<string, number>();
+   * pic.addInterceptor({
+   *   onBeforeCall: ({ method }) => {
+   *     callCounts.set(method, (callCounts.get(method) ?? 0) + 1);
+   *   },
+   * });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public addInterceptor(interceptor: ActorInterceptor): void {
+    this.interceptors.push(interceptor);
+  }
+
+  /**
+   * Removes an interceptor that was registered with {@link addInterceptor}.
+   *
+   * @param interceptor The interceptor to remove, see {@link ActorInterceptor}.
+   */
+  public removeInterceptor(interceptor: ActorInterceptor): void {
+    const index = this.interceptors.indexOf(interceptor);
+
+    if (index !== -1) {
+      this.interceptors.splice(index, 1);
+    }
+  }
+
+  /**
+   * Creates an {@link Actor} for the given canister.
+   * An {@link Actor} is a typesafe class that implements the Candid interface of a canister.
+   * To create a canister for the {@link Actor}, see {@link createCanister}.
+   * For a more convenient way of creating a PocketIC instance,
+   * creating a canister and installing code, see {@link setupCanister}.
+   *
+   * @param interfaceFactory The InterfaceFactory to use for the {@link Actor}.
+   * @param canisterId The Principal of the canister to create the {@link Actor} for.
+   * @param options Options for creating the {@link Actor}, see {@link CreateActorOptions}.
+   * Pass `{ mode: 'result' }` to create a {@link ResultActor} instead.
+   * @typeParam T The type of the {@link Actor}. Must implement {@link ActorInterface}.
+   * @returns The {@link Actor} instance.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   * @see [InterfaceFactory](https://js.icp.build/core/latest/libs/candid/api/namespaces/idl/type-aliases/interfacefactory/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   * import { _SERVICE, idlFactory } from '../declarations';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   * const wasm = resolve('..', '..', 'canister.wasm');
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const canisterId = await pic.createCanister();
+   * await pic.installCode({ canisterId, wasm });
+   * const actor = pic.createActor<_SERVICE>({ idlFactory, canisterId });
+   *
+   * const resultActor = pic.createActor<_SERVICE>(idlFactory, canisterId, {
+   *   mode: 'result',
+   * });
+   * const result = await resultActor.greet('Hello');
+   * if ('err' in result) {
+   *   console.error(result.err.rejectMessage);
+   * }
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public createActor<T extends ActorInterface<T> = ActorInterface>(
+    interfaceFactory: IDL.InterfaceFactory,
+    canisterId: Principal,
+    options?: CreateActorOptions<'throw'>,
+  ): Actor<T>;
+
+  /**
+   * Creates a {@link ResultActor} for the given canister.
+   * The methods of a {@link ResultActor} return an {@link ActorResult}
+   * instead of throwing when a call is rejected.
+   *
+   * @param interfaceFactory The InterfaceFactory to use for the {@link ResultActor}.
+   * @param canisterId The Principal of the canister to create the {@link ResultActor} for.
+   * @param options Options for creating the {@link ResultActor}, see {@link CreateActorOptions}.
+   * @typeParam T The type of the {@link Actor}. Must implement {@link ActorInterface}.
+   * @returns The {@link ResultActor} instance.
+   */
+  public createActor<T extends ActorInterface<T> = ActorInterface>(
+    interfaceFactory: IDL.InterfaceFactory,
+    canisterId: Principal,
+    options: CreateActorOptions<'result'> & { mode: 'result' },
+  ): ResultActor<T>;
+
+  public createActor<T extends ActorInterface<T> = ActorInterface>(
+    interfaceFactory: IDL.InterfaceFactory,
+    canisterId: Principal,
+    { mode = 'throw', interceptors = [] }: CreateActorOptions = {},
+  ): Actor<T> | ResultActor<T> {
+    this.interfaceFactories.set(canisterId.toText(), interfaceFactory);
+    const getInterceptors = (): ActorInterceptor[] => [
+      ...this.interceptors,
+      ...interceptors,
+    ];
+
+    if (mode === 'result') {
+      const ResultActor = createResultActorClass<T>(
+        interfaceFactory,
+        canisterId,
+        this.client,
+        getInterceptors,
+      );
+
+      return new ResultActor();
+    }
+
+    const Actor = createActorClass<T>(
+      interfaceFactory,
+      canisterId,
+      this.client,
+      getInterceptors,
+      request => this.callWithCycles(request),
+    );
+
+    return new Actor();
+  }
+
+  /**
+   * Creates a {@link DeferredActor} for the given canister.
+   * A {@link DeferredActor} is a typesafe class that implements the Candid interface of a canister.
+   *
+   * A {@link DeferredActor} in contrast to a normal {@link Actor} will submit the call to the PocketIc replica,
+   * but the call will not be executed immediately. Instead, the calls are queued and a `Promise` is returned
+   * by the {@link DeferredActor} that can be awaited to process the pending canister call.
+   *
+   * To create a canister for the {@link DeferredActor}, see {@link createCanister}.
+   * For a more convenient way of creating a PocketIC instance,
+   * creating a canister and installing code, see {@link setupCanister}.
+   *
+   * @param interfaceFactory The InterfaceFactory to use for the {@link DeferredActor}.
+   * @param canisterId The Principal of the canister to create the {@link DeferredActor} for.
+   * @param options Options for creating the {@link DeferredActor}, see {@link CreateActorOptions}.
+   * Pass `{ mode: 'result' }` to create a {@link ResultDeferredActor} instead.
+   * @typeParam T The type of the {@link DeferredActor}. Must implement {@link ActorInterface}.
+   * @returns The {@link DeferredActor} instance.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   * @see [InterfaceFactory](https://js.icp.build/core/latest/libs/candid/api/namespaces/idl/type-aliases/interfacefactory/)
+   */
+  public createDeferredActor<T extends ActorInterface<T> = ActorInterface>(
+    interfaceFactory: IDL.InterfaceFactory,
+    canisterId: Principal,
+    options?: CreateActorOptions<'throw'>,
+  ): DeferredActor<T>;
+
+  /**
+   * Creates a {@link ResultDeferredActor} for the given canister.
+   * The methods of a {@link ResultDeferredActor} return an {@link ActorResult}
+   * instead of throwing when a call is rejected.
+   *
+   * @param interfaceFactory The InterfaceFactory to use for the {@link ResultDeferredActor}.
+   * @param canisterId The Principal of the canister to create the {@link ResultDeferredActor} for.
+   * @param options Options for creating the {@link ResultDeferredActor}, see {@link CreateActorOptions}.
+   * @typeParam T The type of the {@link DeferredActor}. Must implement {@link ActorInterface}.
+   * @returns The {@link ResultDeferredActor} instance.
+   */
+  public createDeferredActor<T extends ActorInterface<T> = ActorInterface>(
+    interfaceFactory: IDL.InterfaceFactory,
     canisterId: Principal,
-  ): DeferredActor<T> {
+    options: CreateActorOptions<'result'> & { mode: 'result' },
+  ): ResultDeferredActor<T>;
+
+  public createDeferredActor<T extends ActorInterface<T> = ActorInterface>(
+    interfaceFactory: IDL.InterfaceFactory,
+    canisterId: Principal,
+    { mode = 'throw', interceptors = [] }: CreateActorOptions = {},
+  ): DeferredActor<T> | ResultDeferredActor<T> {
+    this.interfaceFactories.set(canisterId.toText(), interfaceFactory);
+    const getInterceptors = (): ActorInterceptor[] => [
+      ...this.interceptors,
+      ...interceptors,
+    ];
+
+    if (mode === 'result') {
+      const ResultDeferredActor = createResultDeferredActorClass<T>(
+        interfaceFactory,
+        canisterId,
+        this.client,
+        getInterceptors,
+      );
+
+      return new ResultDeferredActor();
+    }
+
     const DeferredActor = createDeferredActorClass<T>(
       interfaceFactory,
       canisterId,
       this.client,
+      getInterceptors,
     );
 
     return new DeferredActor();
@@ -890,13 +2192,62 @@ export class PocketIc {
    * await picServer.stop();
    * ```
    */
-  public async updateCall({
-    canisterId,
-    method,
-    arg = new Uint8Array(),
-    sender = Principal.anonymous(),
-    targetSubnetId,
-  }: UpdateCallOptions): Promise<Uint8Array> {
+  public async updateCall(options: UpdateCallOptions): Promise<Uint8Array>;
+
+  /**
+   * Makes an update call to the given canister that attaches cycles.
+   * The call is routed through a proxy canister, see {@link UpdateCallWithCyclesOptions}.
+   * The called canister sees the proxy canister as the caller, not the `sender`.
+   * If the call is rejected, a {@link ProxiedCanisterRejectError} is thrown,
+   * since the proxy canister does not receive the error code.
+   *
+   * @param options Options for making the update call, see {@link UpdateCallWithCyclesOptions}.
+   * @returns The Candid-encoded response of the update call and the refunded cycles,
+   * see {@link UpdateCallWithCyclesResult}.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const { body, cyclesRefunded } = await pic.updateCall({
+   *   canisterId,
+   *   method: 'deposit',
+   *   cycles: 1_000_000n,
+   * });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async updateCall(
+    options: UpdateCallWithCyclesOptions,
+  ): Promise<UpdateCallWithCyclesResult>;
+
+  public async updateCall(
+    options: UpdateCallOptions | UpdateCallWithCyclesOptions,
+  ): Promise<Uint8Array | UpdateCallWithCyclesResult> {
+    const {
+      canisterId,
+      method,
+      arg = new Uint8Array(),
+      sender = Principal.anonymous(),
+    } = options;
+
+    if ('cycles' in options && isNotNil(options.cycles)) {
+      return await this.callWithCycles({
+        canisterId,
+        method,
+        payload: new Uint8Array(arg),
+        sender,
+        cycles: options.cycles,
+      });
+    }
+
+    const targetSubnetId =
+      'targetSubnetId' in options ? options.targetSubnetId : undefined;
     const res = await this.client.updateCall({
       canisterId,
       method,
@@ -913,48 +2264,349 @@ export class PocketIc {
   }
 
   /**
-   * Deletes the PocketIC instance.
-   *
-   * @example
-   * ```ts
-   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
-   *
-   * const picServer = await PocketIcServer.start();
-   * const pic = await PocketIc.create(picServer.getUrl());
+   * Deletes the PocketIC instance.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async tearDown(): Promise<void> {
+    try {
+      await this.stopHttpsOutcallPoller();
+      await this.client.deleteInstance();
+    } finally {
+      await this.bitcoinRegtest?.stop();
+    }
+  }
+
+  /**
+   * Stops the work that this object does in the background, without deleting
+   * the PocketIC instance. Use this instead of {@link tearDown} when the instance
+   * is shared with other processes, see {@link connect}.
+   *
+   * The HTTPS outcall handler registered with {@link makeLive} no longer answers
+   * outcalls, and the Bitcoin regtest network started with the `bitcoinRegtest`
+   * option is stopped. The instance itself keeps running, including its HTTP
+   * gateway and auto progress if it was made live.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc } from '@dfinity/pic';
+   *
+   * const pic = await PocketIc.connect(
+   *   process.env.PIC_URL,
+   *   Number(process.env.PIC_INSTANCE_ID),
+   * );
+   *
+   * const time = await pic.getTime();
+   *
+   * await pic.disconnect();
+   * ```
+   */
+  public async disconnect(): Promise<void> {
+    try {
+      await this.stopHttpsOutcallPoller();
+    } finally {
+      await this.bitcoinRegtest?.stop();
+    }
+  }
+
+  /**
+   * Make the IC produce and progress by one block. Accepts a parameter `times` to tick multiple times,
+   * the default is `1`.
+   *
+   * @param times The number of new blocks to produce and progress by. Defaults to `1`.
+   *
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * await pic.tick();
+   *
+   * // or to tick multiple times
+   * await pic.tick(3);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async tick(times: number = 1): Promise<void> {
+    for (let i = 0; i < times; i++) {
+      await this.client.tick();
+    }
+  }
+
+  /**
+   * Make the IC produce and progress by blocks until every update call that
+   * was submitted through this instance, for example with a {@link DeferredActor},
+   * has completed, including the inter-canister calls that it waits for,
+   * or until HTTPS Outcalls are pending.
+   * Pending HTTPS Outcalls are returned so they can be answered,
+   * see {@link mockPendingHttpsOutcall} and {@link httpsOutcalls}.
+   *
+   * The PocketIC server does not report the messages that are queued on its
+   * subnets, so this does not wait until the instance is idle. Calls submitted
+   * by other clients, one-way inter-canister calls and timers are not waited
+   * for, use {@link tickUntil} with a predicate on the canister state for those.
+   * Calls that the server does not report a status for are dropped once they
+   * must have expired, i.e. after the time of the instance advanced by more
+   * than 5 minutes.
+   *
+   * @param options Options for ticking, see {@link TickUntilCallsCompleteOptions}.
+   * @returns The number of ticks that were executed and the pending HTTPS Outcalls,
+   * see {@link TickUntilCallsCompleteResult}.
+   * @throws {@link MaxTicksExceededError} If the calls have not completed after `maxTicks` ticks.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const executeTransfer = await deferredActor.transfer(recipient, amount);
+   * await pic.tickUntilCallsComplete();
+   * const result = await executeTransfer();
+   *
+   * const executeGoogleSearch = await deferredActor.google_search();
+   * const { pendingHttpsOutcalls } = await pic.tickUntilCallsComplete();
+   * await pic.mockPendingHttpsOutcall({
+   *   subnetId: pendingHttpsOutcalls[0].subnetId,
+   *   requestId: pendingHttpsOutcalls[0].requestId,
+   *   response: { type: 'success', statusCode: 200, headers: [], body },
+   * });
+   * await pic.tickUntilCallsComplete();
+   * const searchResult = await executeGoogleSearch();
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async tickUntilCallsComplete({
+    maxTicks = DEFAULT_MAX_TICKS,
+  }: TickUntilCallsCompleteOptions = {}): Promise<TickUntilCallsCompleteResult> {
+    for (let ticks = 0; ; ticks++) {
+      const inFlightMessages = await this.client.getInFlightMessageCount();
+      const pendingHttpsOutcalls = await this.client.getPendingHttpsOutcalls();
+
+      if (inFlightMessages === 0 || pendingHttpsOutcalls.length > 0) {
+        return { ticks, pendingHttpsOutcalls };
+      }
+
+      if (ticks === maxTicks) {
+        throw new MaxTicksExceededError(
+          maxTicks,
+          `ingress messages in flight: ${inFlightMessages}`,
+        );
+      }
+
+      await this.client.tick();
+    }
+  }
+
+  /**
+   * Make the IC produce and progress by blocks until the given predicate returns `true`.
+   * The predicate is checked before every tick, so no ticks are executed if it
+   * returns `true` straight away.
+   *
+   * @param predicate The condition to wait for.
+   * @param options Options for ticking, see {@link TickUntilOptions}.
+   * @returns The number of ticks that were executed.
+   * @throws {@link MaxTicksExceededError} If the predicate does not return `true` within `maxTicks` ticks.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const executeGoogleSearch = await deferredActor.google_search();
+   * await pic.tickUntil(
+   *   async () => (await pic.getPendingHttpsOutcalls()).length > 0,
+   * );
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async tickUntil(
+    predicate: () => boolean | Promise<boolean>,
+    { maxTicks = DEFAULT_MAX_TICKS, advanceTimeMs }: TickUntilOptions = {},
+  ): Promise<number> {
+    for (let ticks = 0; ; ticks++) {
+      if (await predicate()) {
+        return ticks;
+      }
+
+      if (ticks === maxTicks) {
+        throw new MaxTicksExceededError(
+          maxTicks,
+          'the predicate did not return true',
+        );
+      }
+
+      if (advanceTimeMs) {
+        await this.advanceTime(advanceTimeMs);
+      }
+      await this.client.tick();
+    }
+  }
+
+  /**
+   * Get the deadline of the global timer of the given canister.
+   *
+   * The global timer is not part of the canister status, so it is read from the
+   * metadata of a snapshot that is taken and deleted again by this method.
+   * This has side effects that a plain getter would not have:
+   *
+   * - The sender must be a controller of the canister.
+   * - The canister must have room for one more snapshot, reading the timer of a
+   *   canister that already has the maximum number of snapshots fails.
+   * - Taking the snapshot is charged to the canister like any other snapshot,
+   *   in proportion to the size of its memory, so its cycles balance decreases.
+   *
+   * @param options Options for reading the global timer, see {@link GetGlobalTimerOptions}.
+   * @returns The deadline of the global timer in nanoseconds since the Unix epoch,
+   * or `null` if the global timer is not active.
+   * @throws {@link CanisterRejectError} If the sender is not a controller of the canister,
+   * or the canister already has the maximum number of snapshots.
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const deadline = await pic.getGlobalTimer({ canisterId });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async getGlobalTimer({
+    canisterId,
+    sender = Principal.anonymous(),
+    targetSubnetId,
+  }: GetGlobalTimerOptions): Promise<bigint | null> {
+    const snapshot = await this.takeCanisterSnapshot({
+      canisterId,
+      sender,
+      targetSubnetId,
+    });
+
+    try {
+      const payload = encodeReadCanisterSnapshotMetadataRequest({
+        canister_id: canisterId,
+        snapshot_id: snapshot.id,
+      });
+
+      const res = await this.client.updateCall({
+        canisterId: MANAGEMENT_CANISTER_ID,
+        sender,
+        method: 'read_canister_snapshot_metadata',
+        payload,
+        effectivePrincipal: targetSubnetId
+          ? {
+              subnetId: targetSubnetId,
+            }
+          : undefined,
+      });
+      const [globalTimer] = decodeReadCanisterSnapshotMetadataResponse(
+        res.body,
+      ).global_timer;
+
+      return isNotNil(globalTimer) && 'active' in globalTimer
+        ? globalTimer.active
+        : null;
+    } finally {
+      await this.deleteCanisterSnapshot({
+        canisterId,
+        snapshotId: snapshot.id,
+        sender,
+        targetSubnetId,
+      });
+    }
+  }
+
+  /**
+   * Set the time of the IC to the deadline of the global timer of the given canister
+   * and make the IC produce and progress by blocks until the timer has run.
    *
-   * await pic.tearDown();
-   * await picServer.stop();
-   * ```
-   */
-  public async tearDown(): Promise<void> {
-    await this.client.deleteInstance();
-  }
-
-  /**
-   * Make the IC produce and progress by one block. Accepts a parameter `times` to tick multiple times,
-   * the default is `1`.
+   * The global timer is read once with {@link getGlobalTimer}, so the same
+   * requirements on the sender apply. The timer has run once a round was executed
+   * at or after its deadline. Calls that the timer makes, such as the self-calls
+   * that Motoko timers use to run their callbacks, need further ticks to complete,
+   * see {@link tick} and {@link tickUntil}.
    *
-   * @param times The number of new blocks to produce and progress by. Defaults to `1`.
+   * @param options Options for advancing to the next timer, see {@link AdvanceToNextTimerOptions}.
+   * @returns The deadline of the timer that was run, in nanoseconds since the Unix epoch.
+   * @throws {@link InactiveGlobalTimerError} If the canister's global timer is not active.
+   * @throws {@link MaxTicksExceededError} If no round was executed after the deadline within `maxTicks` ticks.
    *
+   * @example
    * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
    * import { PocketIc, PocketIcServer } from '@dfinity/pic';
    *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
    * const picServer = await PocketIcServer.start();
    * const pic = await PocketIc.create(picServer.getUrl());
    *
-   * await pic.tick();
-   *
-   * // or to tick multiple times
-   * await pic.tick(3);
+   * await pic.advanceToNextTimer({ canisterId });
    *
    * await pic.tearDown();
    * await picServer.stop();
    * ```
    */
-  public async tick(times: number = 1): Promise<void> {
-    for (let i = 0; i < times; i++) {
-      await this.client.tick();
+  public async advanceToNextTimer({
+    maxTicks = DEFAULT_MAX_TICKS,
+    ...options
+  }: AdvanceToNextTimerOptions): Promise<bigint> {
+    const deadline = await this.getGlobalTimer(options);
+    if (deadline === null) {
+      throw new InactiveGlobalTimerError(options.canisterId);
     }
+
+    const { nanosSinceEpoch } = await this.client.getTime();
+    const roundTime = deadline > nanosSinceEpoch ? deadline : nanosSinceEpoch;
+    if (deadline > nanosSinceEpoch) {
+      await this.client.setTime({ nanosSinceEpoch: deadline });
+    }
+
+    // The timer runs in the first round that executes at or after its deadline,
+    // and every round advances the time of the instance.
+    try {
+      await this.tickUntil(
+        async () => (await this.client.getTime()).nanosSinceEpoch > roundTime,
+        { maxTicks },
+      );
+    } catch (error) {
+      if (error instanceof MaxTicksExceededError) {
+        throw new MaxTicksExceededError(
+          maxTicks,
+          `no round was executed after the global timer deadline of canister ${options.canisterId.toText()}`,
+        );
+      }
+
+      throw error;
+    }
+
+    return deadline;
   }
 
   /**
@@ -1069,6 +2721,9 @@ export class PocketIc {
    * Use {@link setCertifiedTime} to set time and immediately have query calls and
    * read state requests reflect the new time.
    *
+   * This does not move fake timers bound to {@link clock}, use {@link VirtualClock.advance}
+   * to move both, or {@link VirtualClock.freeze} to pin the fake timers to the new time.
+   *
    * @param time The time to set in milliseconds since the Unix epoch.
    *
    * @example
@@ -1147,6 +2802,9 @@ export class PocketIc {
    * Use {@link advanceCertifiedTime} to advance time and immediately have query calls and
    * read state requests reflect the new time.
    *
+   * This does not move fake timers bound to {@link clock}, use {@link VirtualClock.advance}
+   * to move both, or {@link VirtualClock.freeze} to pin the fake timers to the new time.
+   *
    * @param duration The duration to advance the time by.
    *
    * @example
@@ -1399,133 +3057,532 @@ export class PocketIc {
   }
 
   /**
-   * Gets the current cycle balance of the specified canister.
+   * Gets the current cycle balance of the specified canister.
+   *
+   * @param canisterId The Principal of the canister to check.
+   * @returns The current cycles balance of the canister.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const cyclesBalance = await pic.getCyclesBalance(canisterId);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async getCyclesBalance(canisterId: Principal): Promise<bigint> {
+    const { cycles } = await this.client.getCyclesBalance({ canisterId });
+
+    return cycles;
+  }
+
+  /**
+   * Add cycles to the specified canister.
+   *
+   * @param canisterId The Principal of the canister to add cycles to.
+   * @param amount The amount of cycles to add.
+   * @returns The new cycle balance of the canister.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const newCyclesBalance = await pic.addCycles(canisterId, BigInt(10_000_000));
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async addCycles(
+    canisterId: Principal,
+    amount: bigint,
+  ): Promise<bigint> {
+    const { cycles } = await this.client.addCycles({ canisterId, amount });
+
+    return cycles;
+  }
+
+  /**
+   * Set the stable memory of a given canister.
+   *
+   * @param canisterId The Principal of the canister to set the stable memory of.
+   * @param stableMemory A blob containing the stable memory to set.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   * const stableMemory = new Uint8Array([0, 1, 2, 3, 4]);
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * await pic.setStableMemory(canisterId, stableMemory);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async setStableMemory(
+    canisterId: Principal,
+    stableMemory: Uint8Array,
+  ): Promise<void> {
+    const { blobId } = await this.client.uploadBlob({
+      blob: new Uint8Array(stableMemory),
+    });
+
+    await this.client.setStableMemory({ canisterId, blobId });
+  }
+
+  /**
+   * Get the stable memory of a given canister.
+   *
+   * @param canisterId The Principal of the canister to get the stable memory of.
+   * @returns A blob containing the canister's stable memory.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { Principal } from '@icp-sdk/core/principal';
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const stableMemory = await pic.getStableMemory(canisterId);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async getStableMemory(canisterId: Principal): Promise<Uint8Array> {
+    const { blob } = await this.client.getStableMemory({ canisterId });
+
+    return blob;
+  }
+
+  /**
+   * Gets the public key of a threshold ECDSA key over the secp256k1 curve.
+   *
+   * The instance must have a Fiduciary or II subnet, since PocketIC creates
+   * the `key_1`, `test_key_1` and `dfx_test_key` test keys on these subnets.
+   * The `ecdsa_public_key` management canister method can only be called
+   * by canisters, so the call is routed through a proxy canister that
+   * PocketIC installs on first use.
+   *
+   * @param options Options for getting the public key, see {@link GetEcdsaPublicKeyOptions}.
+   * @returns The SEC1 compressed public key and its chain code, see {@link ThresholdPublicKey}.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer, SubnetStateType } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl(), {
+   *   fiduciary: { state: { type: SubnetStateType.New } },
+   * });
+   *
+   * const { publicKey } = await pic.getEcdsaPublicKey({ canisterId });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async getEcdsaPublicKey({
+    canisterId,
+    derivationPath = [],
+    keyName = DEFAULT_THRESHOLD_KEY_NAME,
+  }: GetEcdsaPublicKeyOptions = {}): Promise<ThresholdPublicKey> {
+    const payload = encodeEcdsaPublicKeyRequest({
+      canister_id: optional(canisterId),
+      derivation_path: derivationPath,
+      key_id: { curve: { secp256k1: null }, name: keyName },
+    });
+
+    const { body } = await this.callWithCycles({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      method: 'ecdsa_public_key',
+      payload,
+      sender: Principal.anonymous(),
+      cycles: 0n,
+    });
+    const response = decodeEcdsaPublicKeyResponse(body);
+
+    return {
+      publicKey: response.public_key,
+      chainCode: response.chain_code,
+    };
+  }
+
+  /**
+   * Signs a message hash with a threshold ECDSA key over the secp256k1 curve.
+   *
+   * The `sign_with_ecdsa` management canister method can only be called by
+   * canisters, so the message hash is signed by a proxy canister that PocketIC
+   * installs on first use. Use {@link getEcdsaPublicKey} without a `canisterId`
+   * to get the public key that verifies the signature, and
+   * {@link verifyEcdsaSignature} to verify it.
+   *
+   * @param options Options for signing the message hash, see {@link SignWithEcdsaOptions}.
+   * @returns The 64 byte signature, encoded as the concatenation of `r` and `s`.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer, SubnetStateType, verifyEcdsaSignature } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl(), {
+   *   fiduciary: { state: { type: SubnetStateType.New } },
+   * });
+   *
+   * const messageHash = sha256(message);
+   * const signature = await pic.signWithEcdsa({ messageHash });
+   * const { publicKey } = await pic.getEcdsaPublicKey();
+   *
+   * expect(verifyEcdsaSignature({ publicKey, messageHash, signature })).toBe(true);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async signWithEcdsa({
+    messageHash,
+    derivationPath = [],
+    keyName = DEFAULT_THRESHOLD_KEY_NAME,
+  }: SignWithEcdsaOptions): Promise<Uint8Array> {
+    const payload = encodeSignWithEcdsaRequest({
+      message_hash: messageHash,
+      derivation_path: derivationPath,
+      key_id: { curve: { secp256k1: null }, name: keyName },
+    });
+
+    const { body } = await this.callWithCycles({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      method: 'sign_with_ecdsa',
+      payload,
+      sender: Principal.anonymous(),
+      cycles: THRESHOLD_KEY_CYCLES,
+    });
+
+    return decodeSignWithEcdsaResponse(body).signature;
+  }
+
+  /**
+   * Gets the public key of a threshold Schnorr key.
+   *
+   * The instance must have a Fiduciary or II subnet, since PocketIC creates
+   * the `key_1`, `test_key_1` and `dfx_test_key` test keys on these subnets.
+   * The `schnorr_public_key` management canister method can only be called
+   * by canisters, so the call is routed through a proxy canister that
+   * PocketIC installs on first use.
+   *
+   * @param options Options for getting the public key, see {@link GetSchnorrPublicKeyOptions}.
+   * @returns The public key and its chain code, see {@link ThresholdPublicKey}.
+   *
+   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer, SubnetStateType } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl(), {
+   *   fiduciary: { state: { type: SubnetStateType.New } },
+   * });
+   *
+   * const { publicKey } = await pic.getSchnorrPublicKey({
+   *   algorithm: 'ed25519',
+   *   canisterId,
+   * });
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async getSchnorrPublicKey({
+    algorithm,
+    canisterId,
+    derivationPath = [],
+    keyName = DEFAULT_THRESHOLD_KEY_NAME,
+  }: GetSchnorrPublicKeyOptions): Promise<ThresholdPublicKey> {
+    const payload = encodeSchnorrPublicKeyRequest({
+      canister_id: optional(canisterId),
+      derivation_path: derivationPath,
+      key_id: { algorithm: schnorrAlgorithmToIDL(algorithm), name: keyName },
+    });
+
+    const { body } = await this.callWithCycles({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      method: 'schnorr_public_key',
+      payload,
+      sender: Principal.anonymous(),
+      cycles: 0n,
+    });
+    const response = decodeSchnorrPublicKeyResponse(body);
+
+    return {
+      publicKey: response.public_key,
+      chainCode: response.chain_code,
+    };
+  }
+
+  /**
+   * Signs a message with a threshold Schnorr key.
    *
-   * @param canisterId The Principal of the canister to check.
-   * @returns The current cycles balance of the canister.
+   * The `sign_with_schnorr` management canister method can only be called by
+   * canisters, so the message is signed by a proxy canister that PocketIC
+   * installs on first use. Use {@link getSchnorrPublicKey} without a `canisterId`
+   * to get the public key that verifies the signature, and
+   * {@link verifySchnorrSignature} to verify it.
    *
-   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   * @param options Options for signing the message, see {@link SignWithSchnorrOptions}.
+   * @returns The 64 byte signature.
    *
    * @example
    * ```ts
-   * import { Principal } from '@icp-sdk/core/principal';
-   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
-   *
-   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   * import { PocketIc, PocketIcServer, SubnetStateType, verifySchnorrSignature } from '@dfinity/pic';
    *
    * const picServer = await PocketIcServer.start();
-   * const pic = await PocketIc.create(picServer.getUrl());
+   * const pic = await PocketIc.create(picServer.getUrl(), {
+   *   fiduciary: { state: { type: SubnetStateType.New } },
+   * });
    *
-   * const cyclesBalance = await pic.getCyclesBalance(canisterId);
+   * const algorithm = 'ed25519';
+   * const signature = await pic.signWithSchnorr({ algorithm, message });
+   * const { publicKey } = await pic.getSchnorrPublicKey({ algorithm });
+   *
+   * expect(
+   *   verifySchnorrSignature({ algorithm, publicKey, message, signature }),
+   * ).toBe(true);
    *
    * await pic.tearDown();
    * await picServer.stop();
    * ```
    */
-  public async getCyclesBalance(canisterId: Principal): Promise<bigint> {
-    const { cycles } = await this.client.getCyclesBalance({ canisterId });
+  public async signWithSchnorr({
+    algorithm,
+    message,
+    derivationPath = [],
+    keyName = DEFAULT_THRESHOLD_KEY_NAME,
+    merkleRootHash,
+  }: SignWithSchnorrOptions): Promise<Uint8Array> {
+    const payload = encodeSignWithSchnorrRequest({
+      message,
+      derivation_path: derivationPath,
+      key_id: { algorithm: schnorrAlgorithmToIDL(algorithm), name: keyName },
+      aux: isNil(merkleRootHash)
+        ? []
+        : [{ bip341: { merkle_root_hash: merkleRootHash } }],
+    });
 
-    return cycles;
+    const { body } = await this.callWithCycles({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      method: 'sign_with_schnorr',
+      payload,
+      sender: Principal.anonymous(),
+      cycles: THRESHOLD_KEY_CYCLES,
+    });
+
+    return decodeSignWithSchnorrResponse(body).signature;
   }
 
   /**
-   * Add cycles to the specified canister.
+   * Gets 32 random bytes from the `raw_rand` management canister method.
    *
-   * @param canisterId The Principal of the canister to add cycles to.
-   * @param amount The amount of cycles to add.
-   * @returns The new cycle balance of the canister.
+   * The `raw_rand` method can only be called by canisters, so the call is
+   * routed through a proxy canister that PocketIC installs on first use.
+   * The PocketIC server does not accept a seed for its randomness, so the bytes
+   * cannot be fixed in advance. Compare the bytes against the randomness that
+   * a canister received instead, for example by recording both in a test.
    *
-   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   * @returns The 32 random bytes.
    *
    * @example
    * ```ts
-   * import { Principal } from '@icp-sdk/core/principal';
    * import { PocketIc, PocketIcServer } from '@dfinity/pic';
    *
-   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
-   *
    * const picServer = await PocketIcServer.start();
    * const pic = await PocketIc.create(picServer.getUrl());
    *
-   * const newCyclesBalance = await pic.addCycles(canisterId, BigInt(10_000_000));
+   * const randomBytes = await pic.rawRand();
    *
    * await pic.tearDown();
    * await picServer.stop();
    * ```
    */
-  public async addCycles(
-    canisterId: Principal,
-    amount: bigint,
-  ): Promise<bigint> {
-    const { cycles } = await this.client.addCycles({ canisterId, amount });
+  public async rawRand(): Promise<Uint8Array> {
+    const { body } = await this.callWithCycles({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      method: 'raw_rand',
+      payload: new Uint8Array(IDL.encode([], [])),
+      sender: Principal.anonymous(),
+      cycles: 0n,
+    });
 
-    return cycles;
+    return decodeRawRandResponse(body);
   }
 
   /**
-   * Set the stable memory of a given canister.
+   * Gets the derived public key of a vetKD key over the BLS12-381 curve.
+   * Pass it to {@link decryptVetKey} to verify the vetKeys that a canister derived.
    *
-   * @param canisterId The Principal of the canister to set the stable memory of.
-   * @param stableMemory A blob containing the stable memory to set.
+   * The instance must have a Fiduciary or II subnet, since PocketIC creates
+   * the `key_1`, `test_key_1` and `dfx_test_key` test keys on these subnets.
+   * The `vetkd_public_key` management canister method can only be called
+   * by canisters, so the call is routed through a proxy canister that
+   * PocketIC installs on first use.
+   *
+   * @param options Options for getting the derived public key, see {@link VetKdPublicKeyOptions}.
+   * @returns The 96 byte derived public key, a compressed BLS12-381 G2 point.
    *
    * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
    *
    * @example
    * ```ts
-   * import { Principal } from '@icp-sdk/core/principal';
-   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
-   *
-   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
-   * const stableMemory = new Uint8Array([0, 1, 2, 3, 4]);
+   * import {
+   *   PocketIc,
+   *   PocketIcServer,
+   *   SubnetStateType,
+   *   decryptVetKey,
+   *   generateVetKdTransportKey,
+   * } from '@dfinity/pic';
    *
    * const picServer = await PocketIcServer.start();
-   * const pic = await PocketIc.create(picServer.getUrl());
+   * const pic = await PocketIc.create(picServer.getUrl(), {
+   *   fiduciary: { state: { type: SubnetStateType.New } },
+   * });
    *
-   * await pic.setStableMemory(canisterId, stableMemory);
+   * const transportKey = generateVetKdTransportKey();
+   * const encryptedKey = await actor.encrypted_symmetric_key_for_caller(
+   *   transportKey.publicKey,
+   * );
+   * const derivedPublicKey = await pic.vetKdPublicKey({
+   *   canisterId,
+   *   context: new TextEncoder().encode('notes'),
+   * });
+   *
+   * const vetKey = decryptVetKey({
+   *   encryptedKey,
+   *   transportSecretKey: transportKey.secretKey,
+   *   derivedPublicKey,
+   *   input: alice.getPrincipal().toUint8Array(),
+   * });
    *
    * await pic.tearDown();
    * await picServer.stop();
    * ```
    */
-  public async setStableMemory(
-    canisterId: Principal,
-    stableMemory: Uint8Array,
-  ): Promise<void> {
-    const { blobId } = await this.client.uploadBlob({
-      blob: new Uint8Array(stableMemory),
+  public async vetKdPublicKey({
+    canisterId,
+    context = new Uint8Array(),
+    keyName = DEFAULT_THRESHOLD_KEY_NAME,
+  }: VetKdPublicKeyOptions = {}): Promise<Uint8Array> {
+    const payload = encodeVetKdPublicKeyRequest({
+      canister_id: optional(canisterId),
+      context,
+      key_id: { curve: { bls12_381_g2: null }, name: keyName },
     });
 
-    await this.client.setStableMemory({ canisterId, blobId });
+    const { body } = await this.callWithCycles({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      method: 'vetkd_public_key',
+      payload,
+      sender: Principal.anonymous(),
+      cycles: 0n,
+    });
+
+    return decodeVetKdPublicKeyResponse(body).public_key;
   }
 
   /**
-   * Get the stable memory of a given canister.
+   * Derives a vetKey for the given input and decrypts it.
    *
-   * @param canisterId The Principal of the canister to get the stable memory of.
-   * @returns A blob containing the canister's stable memory.
+   * The `vetkd_derive_key` management canister method can only be called by
+   * canisters, so the key is derived by a proxy canister that PocketIC
+   * installs on first use. A fresh transport key is generated for every call,
+   * and the decrypted key is verified against the derived public key of the
+   * proxy canister, see {@link vetKdPublicKey}.
    *
-   * @see [Principal](https://js.icp.build/core/latest/libs/principal/api/classes/principal/)
+   * @param options Options for deriving the vetKey, see {@link DeriveVetKeyOptions}.
+   * @returns The vetKey and the derived public key it was verified against,
+   * see {@link DerivedVetKey}.
+   * @throws {@link VetKeyVerificationError} If the decrypted key does not match
+   * the derived public key and input.
    *
    * @example
    * ```ts
-   * import { Principal } from '@icp-sdk/core/principal';
-   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
-   *
-   * const canisterId = Principal.fromUint8Array(new Uint8Array([0]));
+   * import { PocketIc, PocketIcServer, SubnetStateType } from '@dfinity/pic';
    *
    * const picServer = await PocketIcServer.start();
-   * const pic = await PocketIc.create(picServer.getUrl());
+   * const pic = await PocketIc.create(picServer.getUrl(), {
+   *   fiduciary: { state: { type: SubnetStateType.New } },
+   * });
    *
-   * const stableMemory = await pic.getStableMemory(canisterId);
+   * const { vetKey } = await pic.deriveVetKey({
+   *   input: new TextEncoder().encode('alice'),
+   * });
    *
    * await pic.tearDown();
    * await picServer.stop();
    * ```
    */
-  public async getStableMemory(canisterId: Principal): Promise<Uint8Array> {
-    const { blob } = await this.client.getStableMemory({ canisterId });
+  public async deriveVetKey({
+    input,
+    context = new Uint8Array(),
+    keyName = DEFAULT_THRESHOLD_KEY_NAME,
+  }: DeriveVetKeyOptions): Promise<DerivedVetKey> {
+    const transportKey = generateVetKdTransportKey();
+    const payload = encodeVetKdDeriveKeyRequest({
+      input,
+      context,
+      transport_public_key: transportKey.publicKey,
+      key_id: { curve: { bls12_381_g2: null }, name: keyName },
+    });
 
-    return blob;
+    const { body } = await this.callWithCycles({
+      canisterId: MANAGEMENT_CANISTER_ID,
+      method: 'vetkd_derive_key',
+      payload,
+      sender: Principal.anonymous(),
+      cycles: THRESHOLD_KEY_CYCLES,
+    });
+    const derivedPublicKey = await this.vetKdPublicKey({ context, keyName });
+
+    const vetKey = decryptVetKey({
+      encryptedKey: decodeVetKdDeriveKeyResponse(body).encrypted_key,
+      transportSecretKey: transportKey.secretKey,
+      derivedPublicKey,
+      input,
+    });
+
+    return { vetKey, derivedPublicKey };
   }
 
   /**
@@ -1641,6 +3698,137 @@ export class PocketIc {
     });
   }
 
+  /**
+   * Call the HTTP transform function of a canister with a synthetic response,
+   * the same way that the IC does before replicas reach consensus on the
+   * response to an HTTPS Outcall. This allows testing transform functions
+   * without making an HTTPS Outcall.
+   *
+   * @param options Options for invoking the transform function, see {@link InvokeHttpTransformOptions}.
+   * @returns The transformed response.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const transformed = await pic.invokeHttpTransform({
+   *   canisterId,
+   *   method: 'transform',
+   *   response: {
+   *     type: 'success',
+   *     statusCode: 200,
+   *     headers: [['date', 'Thu, 01 Jan 2026 00:00:00 GMT']],
+   *     body: new TextEncoder().encode('{"price":5}'),
+   *   },
+   * });
+   * expect(transformed.headers).toEqual([]);
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async invokeHttpTransform({
+    canisterId,
+    method,
+    response,
+    context = new Uint8Array(),
+  }: InvokeHttpTransformOptions): Promise<HttpsOutcallSuccessResponse> {
+    // the IC calls transform functions on behalf of the management canister
+    const res = await this.client.queryCall({
+      canisterId,
+      sender: MANAGEMENT_CANISTER_ID,
+      method,
+      payload: encodeTransformArgs({
+        response: httpRequestResultToIDL(response),
+        context,
+      }),
+    });
+
+    return httpRequestResultFromIDL(decodeHttpRequestResult(res.body));
+  }
+
+  /**
+   * Mock a different response for every replica of the subnet that made a
+   * pending HTTPS Outcall, and check whether the canister's transform function
+   * makes enough of the responses equal for the replicas to reach consensus. This is useful to test that a transform
+   * function strips non-deterministic parts of a response, such as headers
+   * with timestamps.
+   *
+   * @param outcall The pending HTTPS Outcall to mock responses for.
+   * @param options Options for mocking the responses, see {@link MockDivergentOutcallOptions}.
+   * @returns The mocked responses and whether they converge, see {@link MockDivergentOutcallResult}.
+   *
+   * @example
+   * ```ts
+   * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * const executeGetPrice = await deferredActor.get_price();
+   * await pic.tick(2);
+   * const [pendingOutcall] = await pic.getPendingHttpsOutcalls();
+   *
+   * const { converged } = await pic.mockDivergentOutcall(pendingOutcall, {
+   *   responses: replica => ({
+   *     type: 'success',
+   *     statusCode: 200,
+   *     headers: [['date', `Thu, 01 Jan 2026 00:00:0${replica} GMT`]],
+   *     body: new TextEncoder().encode('{"price":5}'),
+   *   }),
+   *   transform: { canisterId, method: 'transform' },
+   * });
+   * expect(converged).toBe(true);
+   *
+   * const price = await executeGetPrice();
+   *
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   */
+  public async mockDivergentOutcall(
+    outcall: PendingHttpsOutcall,
+    { replicas, responses, transform }: MockDivergentOutcallOptions,
+  ): Promise<MockDivergentOutcallResult> {
+    const replicaCount =
+      replicas ?? (await this.getSubnetSize(outcall.subnetId));
+    if (!Number.isInteger(replicaCount) || replicaCount < 1) {
+      throw new Error(
+        `The number of replicas must be a positive integer, got ${replicaCount}.`,
+      );
+    }
+
+    const mockedResponses = Array.from({ length: replicaCount }, (_, replica) =>
+      responses(replica),
+    );
+
+    const transformedResponses: HttpsOutcallResponseMock[] = [];
+    for (const response of mockedResponses) {
+      transformedResponses.push(
+        transform && response.type === 'success'
+          ? await this.invokeHttpTransform({ ...transform, response })
+          : response,
+      );
+    }
+
+    const [response, ...additionalResponses] = mockedResponses;
+    await this.client.mockPendingHttpsOutcall({
+      subnetId: outcall.subnetId,
+      requestId: outcall.requestId,
+      response,
+      additionalResponses,
+    });
+
+    return {
+      responses: mockedResponses,
+      transformedResponses,
+      ...httpsOutcallConsensus(transformedResponses),
+    };
+  }
+
   /**
    * Make the PocketIC instance live by enabling auto progress and starting the HTTP Gateway.
    * If the server is already live, this method will return the HTTP Gateway URL.
@@ -1677,9 +3865,30 @@ export class PocketIc {
    * await picServer.stop();
    * ```
    *
+   * @example
+   * Answering HTTPS outcalls while the instance is live:
+   * ```ts
+   * import { PocketIc, PocketIcServer, forwardHttpsOutcalls } from '@dfinity/pic';
+   *
+   * const picServer = await PocketIcServer.start();
+   * const pic = await PocketIc.create(picServer.getUrl());
+   *
+   * await pic.makeLive({
+   *   httpsOutcallHandler: forwardHttpsOutcalls('http://localhost:8080'),
+   * });
+   *
+   * await pic.stopLive();
+   * await pic.tearDown();
+   * await picServer.stop();
+   * ```
+   *
+   * @param options Options for making the instance live, see {@link MakeLiveOptions}.
    * @returns The HTTP Gateway port.
    */
-  public async makeLive(): Promise<number> {
+  public async makeLive({
+    httpsOutcallHandler,
+    httpsOutcallPollIntervalMs = DEFAULT_HTTPS_OUTCALL_POLL_INTERVAL_MS,
+  }: MakeLiveOptions = {}): Promise<number> {
     const isLive = await this.client.autoProgressEnabled();
     if (isLive) {
       if (isNil(this.httpGatewayPort)) {
@@ -1687,12 +3896,21 @@ export class PocketIc {
           'Inconsistent state, PocketIC server is live but no HTTP Gateway URL is known',
         );
       }
-
-      return this.httpGatewayPort;
+    } else {
+      await this.client.autoProgress();
+      this.httpGatewayPort = await this.client.startHttpGateway();
     }
 
-    await this.client.autoProgress();
-    this.httpGatewayPort = await this.client.startHttpGateway();
+    if (httpsOutcallHandler) {
+      await this.stopHttpsOutcallPoller();
+
+      this.httpsOutcallPoller = new HttpsOutcallPoller(
+        this.client,
+        httpsOutcallHandler,
+        httpsOutcallPollIntervalMs,
+      );
+      this.httpsOutcallPoller.start();
+    }
 
     return this.httpGatewayPort;
   }
@@ -1734,10 +3952,85 @@ export class PocketIc {
   public async stopLive(): Promise<void> {
     this.httpGatewayPort = null;
 
+    await this.stopHttpsOutcallPoller();
+
     await this.client.stopHttpGateway();
     await this.client.stopProgress();
   }
 
+  private getProxyCanisterId(): Promise<Principal> {
+    if (isNil(this.proxyCanisterId)) {
+      this.proxyCanisterId = this.installProxyCanister().catch(error => {
+        this.proxyCanisterId = null;
+        throw error;
+      });
+    }
+
+    return this.proxyCanisterId;
+  }
+
+  private async installProxyCanister(): Promise<Principal> {
+    const canisterId = await this.createCanister();
+    await this.installCode({ canisterId, wasm: proxyCanisterWasm() });
+
+    return canisterId;
+  }
+
+  private async callWithCycles({
+    canisterId,
+    method,
+    payload,
+    sender,
+    cycles,
+  }: CallWithCyclesRequest): Promise<UpdateCallWithCyclesResult> {
+    const proxyCanisterId = await this.getProxyCanisterId();
+    if (cycles > 0n) {
+      await this.addCycles(proxyCanisterId, cycles);
+    }
+
+    const res = await this.client.updateCall({
+      canisterId: proxyCanisterId,
+      sender,
+      method: 'proxy',
+      payload: encodeProxyCallRequest({ canisterId, method, payload, cycles }),
+    });
+    const response = decodeProxyCallResponse(res.body);
+
+    if (response.type === 'reject') {
+      throw new ProxiedCanisterRejectError(
+        {
+          rejectCode: response.rejectCode,
+          rejectMessage: response.rejectMessage,
+          canisterId,
+          method,
+        },
+        proxyCanisterId,
+      );
+    }
+
+    return { body: response.body, cyclesRefunded: response.cyclesRefunded };
+  }
+
+  private async getSubnetSize(subnetId: Principal): Promise<number> {
+    const topology = await this.getTopology();
+    const subnet = topology.find(
+      subnet => subnet.id.compareTo(subnetId) === 'eq',
+    );
+
+    if (isNil(subnet)) {
+      throw new Error(
+        `Subnet ${subnetId.toText()} is not part of the topology`,
+      );
+    }
+
+    return subnet.size;
+  }
+
+  private async stopHttpsOutcallPoller(): Promise<void> {
+    await this.httpsOutcallPoller?.stop();
+    this.httpsOutcallPoller = null;
+  }
+
   private async installCodeChunked({
     wasm,
     arg,
@@ -1817,4 +4110,102 @@ export class PocketIc {
       effectivePrincipal,
     });
   }
+
+  private async readCanisterSnapshotData({
+    canisterId,
+    snapshotId,
+    kind,
+    size,
+    sender,
+    effectivePrincipal,
+  }: {
+    canisterId: Principal;
+    snapshotId: Uint8Array;
+    kind: 'wasm_module' | 'main_memory' | 'stable_memory';
+    size: bigint;
+    sender: Principal;
+    effectivePrincipal?: EffectivePrincipal;
+  }): Promise<Uint8Array> {
+    const data = new Uint8Array(Number(size));
+    const offsets: number[] = [];
+    for (let offset = 0; offset < data.byteLength; offset += WASM_CHUNK_SIZE) {
+      offsets.push(offset);
+    }
+
+    for (let i = 0; i < offsets.length; i += CHUNK_UPLOAD_BATCH_SIZE) {
+      const batch = offsets.slice(i, i + CHUNK_UPLOAD_BATCH_SIZE);
+
+      await Promise.all(
+        batch.map(async offset => {
+          const range = {
+            offset: BigInt(offset),
+            size: BigInt(Math.min(WASM_CHUNK_SIZE, data.byteLength - offset)),
+          };
+          const payload = encodeReadCanisterSnapshotDataRequest({
+            canister_id: canisterId,
+            snapshot_id: snapshotId,
+            kind: { [kind]: range } as ReadCanisterSnapshotDataRequest['kind'],
+          });
+          const response = await this.client.updateCall({
+            canisterId: MANAGEMENT_CANISTER_ID,
+            sender,
+            method: 'read_canister_snapshot_data',
+            payload,
+            effectivePrincipal,
+          });
+
+          const { chunk } = decodeReadCanisterSnapshotDataResponse(
+            response.body,
+          );
+          data.set(chunk, offset);
+        }),
+      );
+    }
+
+    return data;
+  }
+
+  private async uploadCanisterSnapshotData({
+    canisterId,
+    snapshotId,
+    kind,
+    data,
+    sender,
+    effectivePrincipal,
+  }: {
+    canisterId: Principal;
+    snapshotId: Uint8Array;
+    kind: 'wasm_module' | 'main_memory' | 'stable_memory';
+    data: Uint8Array;
+    sender: Principal;
+    effectivePrincipal?: EffectivePrincipal;
+  }): Promise<void> {
+    const chunks = splitIntoChunks(data, WASM_CHUNK_SIZE);
+
+    for (let i = 0; i < chunks.length; i += CHUNK_UPLOAD_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + CHUNK_UPLOAD_BATCH_SIZE);
+
+      await Promise.all(
+        batch.map(async (chunk, j) => {
+          const offset = BigInt((i + j) * WASM_CHUNK_SIZE);
+          const payload = encodeUploadCanisterSnapshotDataRequest({
+            canister_id: canisterId,
+            snapshot_id: snapshotId,
+            kind: {
+              [kind]: { offset },
+            } as UploadCanisterSnapshotDataRequest['kind'],
+            chunk,
+          });
+
+          await this.client.updateCall({
+            canisterId: MANAGEMENT_CANISTER_ID,
+            sender,
+            method: 'upload_canister_snapshot_data',
+            payload,
+            effectivePrincipal,
+          });
+        }),
+      );
+    }
+  }
 }
@@ -0,0 +1,4 @@
+// Generated by scripts/build-proxy-canister.mjs from proxy-canister.wat, do not edit.
+
+export const PROXY_CANISTER_WASM =
+  'AGFzbQEAAAABJwdgAAF/YAN/f38AYAJ/fwBgAABgAX8AYAh/f39/f39/fwBgAn5+AAKhAg0DaWMwEW1zZ19hcmdfZGF0YV9zaXplAAADaWMwEW1zZ19hcmdfZGF0YV9jb3B5AAEDaWMwFW1zZ19yZXBseV9kYXRhX2FwcGVuZAACA2ljMAltc2dfcmVwbHkAAwNpYzAPbXNnX3JlamVjdF9jb2RlAAADaWMwE21zZ19yZWplY3RfbXNnX3NpemUAAANpYzATbXNnX3JlamVjdF9tc2dfY29weQABA2ljMBZtc2dfY3ljbGVzX3JlZnVuZGVkMTI4AAQDaWMwCGNhbGxfbmV3AAUDaWMwEGNhbGxfZGF0YV9hcHBlbmQAAgNpYzASY2FsbF9jeWNsZXNfYWRkMTI4AAYDaWMwDGNhbGxfcGVyZm9ybQAAA2ljMAR0cmFwAAIDBQQDBAQEBAQBcAACBQMBAFAGDAJ/AEGACAt/AEERCwciAgZtZW1vcnkCABVjYW5pc3Rlcl91cGRhdGUgcHJveHkADQkIAQBBAAsCDxAKywEEeAEHfyMAQQAQABABIwAQAGohACMAKAIAIQIjAEEEaiEBIAEgAmooAgAhBCABIAJqQQRqIQMgAyAEaiEFIAVBEGohBiABIAIgAyAEQQBBAEEBQQAQCCAGIAAgBmsQCSAFQQhqKQMAIAUpAwAQChALBEBBAEEiEAwLCxYAIwAgADoAACMAQQFqEAcjACMBEAILHAEBf0EAEA4QACEBIwBBACABEAEjACABEAIQAwscAQF/EAQQDhAFIQEjAEEAIAEQBiMAIAEQAhADCwsoAQBBAAsiRmFpbGVkIHRvIHBlcmZvcm0gdGhlIHByb3hpZWQgY2FsbA==';
@@ -0,0 +1,100 @@
+;; A canister that forwards calls to other canisters, so that tests can make
+;; calls that ingress messages cannot make, such as calls that attach cycles or
+;; calls to management canister methods that only canisters may call.
+;;
+;; The `proxy` update method takes the following binary argument:
+;;   u32 LE callee length | callee | u32 LE method length | method |
+;;   u128 LE cycles | payload
+;;
+;; and replies with the following binary response:
+;;   u8 reject code (0 if the call was replied) | u128 LE refunded cycles |
+;;   reply data or reject message
+;;
+;; Rebuild `proxy-canister-wasm.ts` with `pnpm run build:proxy-canister`
+;; after changing this file.
+(module
+  (import "ic0" "msg_arg_data_size" (func $msg_arg_data_size (result i32)))
+  (import "ic0" "msg_arg_data_copy" (func $msg_arg_data_copy (param i32 i32 i32)))
+  (import "ic0" "msg_reply_data_append" (func $msg_reply_data_append (param i32 i32)))
+  (import "ic0" "msg_reply" (func $msg_reply))
+  (import "ic0" "msg_reject_code" (func $msg_reject_code (result i32)))
+  (import "ic0" "msg_reject_msg_size" (func $msg_reject_msg_size (result i32)))
+  (import "ic0" "msg_reject_msg_copy" (func $msg_reject_msg_copy (param i32 i32 i32)))
+  (import "ic0" "msg_cycles_refunded128" (func $msg_cycles_refunded128 (param i32)))
+  (import "ic0" "call_new" (func $call_new (param i32 i32 i32 i32 i32 i32 i32 i32)))
+  (import "ic0" "call_data_append" (func $call_data_append (param i32 i32)))
+  (import "ic0" "call_cycles_add128" (func $call_cycles_add128 (param i64 i64)))
+  (import "ic0" "call_perform" (func $call_perform (result i32)))
+  (import "ic0" "trap" (func $trap (param i32 i32)))
+
+  ;; Large enough for arguments and replies of the maximum message size.
+  (memory (export "memory") 80)
+
+  (table 2 funcref)
+  (elem (i32.const 0) $on_reply $on_reject)
+
+  (data (i32.const 0) "Failed to perform the proxied call")
+
+  (global $buffer i32 (i32.const 1024))
+  (global $header_size i32 (i32.const 17))
+
+  (func $proxy (export "canister_update proxy")
+    (local $end i32)
+    (local $callee i32)
+    (local $callee_size i32)
+    (local $method i32)
+    (local $method_size i32)
+    (local $cycles i32)
+    (local $payload i32)
+
+    (call $msg_arg_data_copy (global.get $buffer) (i32.const 0) (call $msg_arg_data_size))
+    (local.set $end (i32.add (global.get $buffer) (call $msg_arg_data_size)))
+
+    (local.set $callee_size (i32.load (global.get $buffer)))
+    (local.set $callee (i32.add (global.get $buffer) (i32.const 4)))
+
+    (local.set $method_size (i32.load (i32.add (local.get $callee) (local.get $callee_size))))
+    (local.set $method (i32.add (i32.add (local.get $callee) (local.get $callee_size)) (i32.const 4)))
+
+    (local.set $cycles (i32.add (local.get $method) (local.get $method_size)))
+    (local.set $payload (i32.add (local.get $cycles) (i32.const 16)))
+
+    (call $call_new
+      (local.get $callee) (local.get $callee_size)
+      (local.get $method) (local.get $method_size)
+      (i32.const 0) (i32.const 0)
+      (i32.const 1) (i32.const 0))
+    (call $call_data_append
+      (local.get $payload)
+      (i32.sub (local.get $end) (local.get $payload)))
+    (call $call_cycles_add128
+      (i64.load (i32.add (local.get $cycles) (i32.const 8)))
+      (i64.load (local.get $cycles)))
+
+    (if (call $call_perform)
+      (then (call $trap (i32.const 0) (i32.const 34)))))
+
+  (func $reply_header (param $reject_code i32)
+    (i32.store8 (global.get $buffer) (local.get $reject_code))
+    (call $msg_cycles_refunded128 (i32.add (global.get $buffer) (i32.const 1)))
+    (call $msg_reply_data_append (global.get $buffer) (global.get $header_size)))
+
+  (func $on_reply (param $env i32)
+    (local $size i32)
+
+    (call $reply_header (i32.const 0))
+
+    (local.set $size (call $msg_arg_data_size))
+    (call $msg_arg_data_copy (global.get $buffer) (i32.const 0) (local.get $size))
+    (call $msg_reply_data_append (global.get $buffer) (local.get $size))
+    (call $msg_reply))
+
+  (func $on_reject (param $env i32)
+    (local $size i32)
+
+    (call $reply_header (call $msg_reject_code))
+
+    (local.set $size (call $msg_reject_msg_size))
+    (call $msg_reject_msg_copy (global.get $buffer) (i32.const 0) (local.get $size))
+    (call $msg_reply_data_append (global.get $buffer) (local.get $size))
+    (call $msg_reply)))
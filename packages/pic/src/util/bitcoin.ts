@@ -0,0 +1,981 @@
+import { createHash } from 'node:crypto';
+import { concatBytes } from './bytes';
+import { hexDecode, hexEncode } from './encoding';
+
+// The start string of regtest network messages, `fabfb5da` on the wire.
+export const REGTEST_MAGIC = 0xdab5bffa;
+// The proof of work limit of regtest, which never retargets.
+export const REGTEST_BITS = 0x207fffff;
+export const REGTEST_HALVING_INTERVAL = 150;
+export const COIN = 100_000_000n;
+
+const MESSAGE_HEADER_SIZE = 24;
+const COMMAND_SIZE = 12;
+const CHECKSUM_SIZE = 4;
+const BLOCK_HEADER_SIZE = 80;
+const SEGWIT_MARKER = 0x00;
+const SEGWIT_FLAG = 0x01;
+
+const REGTEST_BECH32_HRP = 'bcrt';
+const REGTEST_P2PKH_VERSION = 0x6f;
+const REGTEST_P2SH_VERSION = 0xc4;
+
+const OP_0 = 0x00;
+const OP_1 = 0x51;
+const OP_RETURN = 0x6a;
+const OP_DUP = 0x76;
+const OP_EQUAL = 0x87;
+const OP_EQUALVERIFY = 0x88;
+const OP_HASH160 = 0xa9;
+const OP_CHECKSIG = 0xac;
+
+export interface BitcoinOutPointData {
+  txid: Uint8Array;
+  vout: number;
+}
+
+export interface BitcoinTxInputData {
+  previousOutput: BitcoinOutPointData;
+  scriptSig: Uint8Array;
+  sequence: number;
+  witness: Uint8Array[];
+}
+
+export interface BitcoinTxOutputData {
+  value: bigint;
+  scriptPubKey: Uint8Array;
+}
+
+export interface BitcoinTransactionData {
+  version: number;
+  inputs: BitcoinTxInputData[];
+  outputs: BitcoinTxOutputData[];
+  lockTime: number;
+}
+
+export interface BitcoinBlockHeaderData {
+  version: number;
+  prevBlockHash: Uint8Array;
+  merkleRoot: Uint8Array;
+  time: number;
+  bits: number;
+  nonce: number;
+}
+
+export interface BitcoinMessage {
+  command: string;
+  payload: Uint8Array;
+}
+
+export interface BitcoinInventory {
+  type: number;
+  hash: Uint8Array;
+}
+
+export const REGTEST_GENESIS_HEADER: BitcoinBlockHeaderData = {
+  version: 1,
+  prevBlockHash: new Uint8Array(32),
+  merkleRoot: hexToHash(
+    '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b',
+  ),
+  time: 1296688602,
+  bits: REGTEST_BITS,
+  nonce: 2,
+};
+
+export function regtestGenesisTransaction(): BitcoinTransactionData {
+  return decodeBitcoinTransaction(
+    hexDecode(
+      '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000',
+    ),
+  );
+}
+
+export function sha256d(data: Uint8Array): Uint8Array {
+  const first = createHash('sha256').update(data).digest();
+
+  return new Uint8Array(createHash('sha256').update(first).digest());
+}
+
+/**
+ * Converts a hash in internal byte order to the reversed hex notation
+ * that block explorers and `bitcoind` use for block hashes and txids.
+ */
+export function hashToHex(hash: Uint8Array): string {
+  return hexEncode(new Uint8Array(hash).reverse());
+}
+
+export function hexToHash(hex: string): Uint8Array {
+  return hexDecode(hex).reverse();
+}
+
+// Messages
+
+export function encodeBitcoinMessage({
+  command,
+  payload,
+}: BitcoinMessage): Uint8Array {
+  const writer = new ByteWriter();
+  writer.u32(REGTEST_MAGIC);
+
+  const commandBytes = new Uint8Array(COMMAND_SIZE);
+  commandBytes.set(new TextEncoder().encode(command));
+  writer.bytes(commandBytes);
+
+  writer.u32(payload.byteLength);
+  writer.bytes(sha256d(payload).subarray(0, CHECKSUM_SIZE));
+  writer.bytes(payload);
+
+  return writer.toBytes();
+}
+
+/**
+ * Decodes the first complete message of the given stream.
+ *
+ * @returns The message and the number of bytes it took up,
+ * or `null` if the stream does not contain a complete message yet.
+ */
+export function decodeBitcoinMessage(
+  stream: Uint8Array,
+): { message: BitcoinMessage; size: number } | null {
+  if (stream.byteLength < MESSAGE_HEADER_SIZE) {
+    return null;
+  }
+
+  const reader = new ByteReader(stream);
+  if (reader.u32() !== REGTEST_MAGIC) {
+    throw new Error('Received a message for a network other than regtest');
+  }
+
+  const commandBytes = reader.bytes(COMMAND_SIZE);
+  const commandEnd = commandBytes.indexOf(0);
+  const command = new TextDecoder().decode(
+    commandBytes.subarray(0, commandEnd === -1 ? COMMAND_SIZE : commandEnd),
+  );
+  const length = reader.u32();
+  const checksum = reader.bytes(CHECKSUM_SIZE);
+
+  const size = MESSAGE_HEADER_SIZE + length;
+  if (stream.byteLength < size) {
+    return null;
+  }
+
+  const payload = reader.bytes(length);
+  if (!bytesEqual(sha256d(payload).subarray(0, CHECKSUM_SIZE), checksum)) {
+    throw new Error(`Received a ${command} message with an invalid checksum`);
+  }
+
+  return { message: { command, payload }, size };
+}
+
+export function encodeVersionPayload({
+  version,
+  services,
+  nonce,
+  startHeight,
+}: {
+  version: number;
+  services: bigint;
+  nonce: bigint;
+  startHeight: number;
+}): Uint8Array {
+  const writer = new ByteWriter();
+  writer.u32(version);
+  writer.u64(services);
+  writer.u64(BigInt(Math.floor(Date.now() / 1000)));
+  writeNetworkAddress(writer, services);
+  writeNetworkAddress(writer, services);
+  writer.u64(nonce);
+  writer.varBytes(new TextEncoder().encode('/pic-js:regtest/'));
+  writer.u32(startHeight);
+  writer.u8(1);
+
+  return writer.toBytes();
+}
+
+export function encodeInventoryPayload(
+  inventory: BitcoinInventory[],
+): Uint8Array {
+  const writer = new ByteWriter();
+  writer.varInt(inventory.length);
+  for (const { type, hash } of inventory) {
+    writer.u32(type);
+    writer.bytes(hash);
+  }
+
+  return writer.toBytes();
+}
+
+export function decodeInventoryPayload(
+  payload: Uint8Array,
+): BitcoinInventory[] {
+  const reader = new ByteReader(payload);
+  const count = reader.varInt();
+  const inventory: BitcoinInventory[] = [];
+  for (let i = 0; i < count; i++) {
+    inventory.push({ type: reader.u32(), hash: reader.bytes(32) });
+  }
+
+  return inventory;
+}
+
+export function decodeGetHeadersPayload(payload: Uint8Array): {
+  locator: Uint8Array[];
+  stopHash: Uint8Array;
+} {
+  const reader = new ByteReader(payload);
+  reader.u32();
+  const count = reader.varInt();
+  const locator: Uint8Array[] = [];
+  for (let i = 0; i < count; i++) {
+    locator.push(reader.bytes(32));
+  }
+
+  return { locator, stopHash: reader.bytes(32) };
+}
+
+export function encodeHeadersPayload(
+  headers: BitcoinBlockHeaderData[],
+): Uint8Array {
+  const writer = new ByteWriter();
+  writer.varInt(headers.length);
+  for (const header of headers) {
+    writer.bytes(encodeBitcoinBlockHeader(header));
+    writer.varInt(0);
+  }
+
+  return writer.toBytes();
+}
+
+// Blocks
+
+export function encodeBitcoinBlockHeader(
+  header: BitcoinBlockHeaderData,
+): Uint8Array {
+  const writer = new ByteWriter();
+  writer.u32(header.version);
+  writer.bytes(header.prevBlockHash);
+  writer.bytes(header.merkleRoot);
+  writer.u32(header.time);
+  writer.u32(header.bits);
+  writer.u32(header.nonce);
+
+  return writer.toBytes();
+}
+
+export function decodeBitcoinBlockHeader(
+  bytes: Uint8Array,
+): BitcoinBlockHeaderData {
+  if (bytes.byteLength < BLOCK_HEADER_SIZE) {
+    throw new Error('Failed to decode BitcoinBlockHeader');
+  }
+
+  const reader = new ByteReader(bytes);
+
+  return {
+    version: reader.u32(),
+    prevBlockHash: reader.bytes(32),
+    merkleRoot: reader.bytes(32),
+    time: reader.u32(),
+    bits: reader.u32(),
+    nonce: reader.u32(),
+  };
+}
+
+export function bitcoinBlockHash(header: BitcoinBlockHeaderData): Uint8Array {
+  return sha256d(encodeBitcoinBlockHeader(header));
+}
+
+export function encodeBitcoinBlock(
+  header: BitcoinBlockHeaderData,
+  transactions: BitcoinTransactionData[],
+  { witness }: { witness: boolean },
+): Uint8Array {
+  const writer = new ByteWriter();
+  writer.bytes(encodeBitcoinBlockHeader(header));
+  writer.varInt(transactions.length);
+  for (const transaction of transactions) {
+    writer.bytes(encodeBitcoinTransaction(transaction, { witness }));
+  }
+
+  return writer.toBytes();
+}
+
+export function merkleRoot(hashes: Uint8Array[]): Uint8Array {
+  let level = hashes;
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1] ?? left;
+      next.push(sha256d(concatBytes(left, right)));
+    }
+    level = next;
+  }
+
+  return level[0];
+}
+
+/**
+ * Checks whether the hash of a block header meets the target encoded in
+ * its compact `bits` representation.
+ */
+export function meetsTarget(hash: Uint8Array, bits: number): boolean {
+  const exponent = bits >>> 24;
+  const mantissa = BigInt(bits & 0x007fffff);
+  const target =
+    exponent <= 3
+      ? mantissa >> BigInt(8 * (3 - exponent))
+      : mantissa << BigInt(8 * (exponent - 3));
+
+  return bytesToBigIntLE(hash) <= target;
+}
+
+export function blockSubsidy(height: number): bigint {
+  const halvings = Math.floor(height / REGTEST_HALVING_INTERVAL);
+  if (halvings >= 64) {
+    return 0n;
+  }
+
+  return (50n * COIN) >> BigInt(halvings);
+}
+
+// Transactions
+
+export function encodeBitcoinTransaction(
+  transaction: BitcoinTransactionData,
+  { witness }: { witness: boolean },
+): Uint8Array {
+  const includeWitness = witness && hasWitness(transaction);
+  const writer = new ByteWriter();
+  writer.u32(transaction.version);
+
+  if (includeWitness) {
+    writer.u8(SEGWIT_MARKER);
+    writer.u8(SEGWIT_FLAG);
+  }
+
+  writer.varInt(transaction.inputs.length);
+  for (const input of transaction.inputs) {
+    writer.bytes(input.previousOutput.txid);
+    writer.u32(input.previousOutput.vout);
+    writer.varBytes(input.scriptSig);
+    writer.u32(input.sequence);
+  }
+
+  writer.varInt(transaction.outputs.length);
+  for (const output of transaction.outputs) {
+    writer.u64(output.value);
+    writer.varBytes(output.scriptPubKey);
+  }
+
+  if (includeWitness) {
+    for (const input of transaction.inputs) {
+      writer.varInt(input.witness.length);
+      for (const item of input.witness) {
+        writer.varBytes(item);
+      }
+    }
+  }
+
+  writer.u32(transaction.lockTime);
+
+  return writer.toBytes();
+}
+
+export function decodeBitcoinTransaction(
+  bytes: Uint8Array,
+): BitcoinTransactionData {
+  const reader = new ByteReader(bytes);
+  const transaction = readTransaction(reader);
+
+  if (reader.remaining() !== 0) {
+    throw new Error('Failed to decode BitcoinTransaction');
+  }
+
+  return transaction;
+}
+
+export function bitcoinTxid(transaction: BitcoinTransactionData): Uint8Array {
+  return sha256d(encodeBitcoinTransaction(transaction, { witness: false }));
+}
+
+export function bitcoinWtxid(transaction: BitcoinTransactionData): Uint8Array {
+  return sha256d(encodeBitcoinTransaction(transaction, { witness: true }));
+}
+
+export function hasWitness(transaction: BitcoinTransactionData): boolean {
+  return transaction.inputs.some(input => input.witness.length > 0);
+}
+
+/**
+ * Builds the coinbase transaction of a block at the given height.
+ * The height is pushed first as required by BIP34, followed by an extra nonce
+ * that keeps the coinbase transactions of different blocks unique.
+ */
+export function createCoinbaseTransaction({
+  height,
+  extraNonce,
+  scriptPubKey,
+  value,
+  witnessCommitment,
+}: {
+  height: number;
+  extraNonce: number;
+  scriptPubKey: Uint8Array;
+  value: bigint;
+  witnessCommitment?: Uint8Array;
+}): BitcoinTransactionData {
+  const extraNonceBytes = new ByteWriter().u32(extraNonce).toBytes();
+  const scriptSig = concatBytes(
+    encodeScriptNumber(height),
+    pushData(extraNonceBytes),
+  );
+
+  const outputs: BitcoinTxOutputData[] = [{ value, scriptPubKey }];
+  if (witnessCommitment) {
+    outputs.push({
+      value: 0n,
+      scriptPubKey: concatBytes(
+        new Uint8Array([OP_RETURN, 0x24, 0xaa, 0x21, 0xa9, 0xed]),
+        witnessCommitment,
+      ),
+    });
+  }
+
+  return {
+    version: 2,
+    inputs: [
+      {
+        previousOutput: { txid: new Uint8Array(32), vout: 0xffffffff },
+        scriptSig,
+        sequence: 0xffffffff,
+        witness: witnessCommitment ? [new Uint8Array(32)] : [],
+      },
+    ],
+    outputs,
+    lockTime: 0,
+  };
+}
+
+/**
+ * Computes the BIP141 witness commitment for the given transactions,
+ * using an all-zero witness reserved value.
+ */
+export function witnessCommitment(
+  transactions: BitcoinTransactionData[],
+): Uint8Array {
+  const wtxids = [
+    new Uint8Array(32),
+    ...transactions.map(transaction => bitcoinWtxid(transaction)),
+  ];
+
+  return sha256d(concatBytes(merkleRoot(wtxids), new Uint8Array(32)));
+}
+
+// Addresses
+
+/**
+ * Converts a regtest address to the script that locks outputs to it.
+ * Supports P2PKH, P2SH and segwit (bech32 and bech32m) addresses.
+ */
+export function addressToScriptPubKey(address: string): Uint8Array {
+  if (address.toLowerCase().startsWith(`${REGTEST_BECH32_HRP}1`)) {
+    const { version, program } = decodeSegwitAddress(address);
+
+    return concatBytes(
+      new Uint8Array([version === 0 ? OP_0 : OP_1 + version - 1]),
+      pushData(program),
+    );
+  }
+
+  const payload = base58CheckDecode(address);
+  if (payload.byteLength !== 21) {
+    throw new Error(`Invalid regtest address: ${address}`);
+  }
+
+  const hash = payload.subarray(1);
+  switch (payload[0]) {
+    case REGTEST_P2PKH_VERSION:
+      return concatBytes(
+        new Uint8Array([OP_DUP, OP_HASH160, 20]),
+        hash,
+        new Uint8Array([OP_EQUALVERIFY, OP_CHECKSIG]),
+      );
+    case REGTEST_P2SH_VERSION:
+      return concatBytes(
+        new Uint8Array([OP_HASH160, 20]),
+        hash,
+        new Uint8Array([OP_EQUAL]),
+      );
+    default:
+      throw new Error(`Invalid regtest address: ${address}`);
+  }
+}
+
+/**
+ * Converts a locking script to its regtest address.
+ *
+ * @returns The address, or `null` for scripts that have no address.
+ */
+export function scriptPubKeyToAddress(script: Uint8Array): string | null {
+  if (
+    script.byteLength === 25 &&
+    script[0] === OP_DUP &&
+    script[1] === OP_HASH160 &&
+    script[2] === 20 &&
+    script[23] === OP_EQUALVERIFY &&
+    script[24] === OP_CHECKSIG
+  ) {
+    return base58CheckEncode(
+      concatBytes(
+        new Uint8Array([REGTEST_P2PKH_VERSION]),
+        script.subarray(3, 23),
+      ),
+    );
+  }
+
+  if (
+    script.byteLength === 23 &&
+    script[0] === OP_HASH160 &&
+    script[1] === 20 &&
+    script[22] === OP_EQUAL
+  ) {
+    return base58CheckEncode(
+      concatBytes(
+        new Uint8Array([REGTEST_P2SH_VERSION]),
+        script.subarray(2, 22),
+      ),
+    );
+  }
+
+  const versionOpcode = script[0];
+  const programLength = script[1];
+  const isWitnessVersion =
+    versionOpcode === OP_0 ||
+    (versionOpcode >= OP_1 && versionOpcode <= OP_1 + 15);
+  if (
+    isWitnessVersion &&
+    script.byteLength === programLength + 2 &&
+    programLength >= 2 &&
+    programLength <= 40
+  ) {
+    const version = versionOpcode === OP_0 ? 0 : versionOpcode - OP_1 + 1;
+
+    return encodeSegwitAddress(version, script.subarray(2));
+  }
+
+  return null;
+}
+
+function encodeSegwitAddress(version: number, program: Uint8Array): string {
+  const encoding = version === 0 ? BECH32_CONST : BECH32M_CONST;
+
+  return bech32Encode(
+    REGTEST_BECH32_HRP,
+    [version, ...convertBits(program, 8, 5, true)],
+    encoding,
+  );
+}
+
+function decodeSegwitAddress(address: string): {
+  version: number;
+  program: Uint8Array;
+} {
+  const { hrp, data, encoding } = bech32Decode(address);
+  if (hrp !== REGTEST_BECH32_HRP || data.length === 0) {
+    throw new Error(`Invalid regtest address: ${address}`);
+  }
+
+  const version = data[0];
+  const program = new Uint8Array(convertBits(data.slice(1), 5, 8, false));
+  const expectedEncoding = version === 0 ? BECH32_CONST : BECH32M_CONST;
+  if (
+    version > 16 ||
+    encoding !== expectedEncoding ||
+    program.byteLength < 2 ||
+    program.byteLength > 40 ||
+    (version === 0 && program.byteLength !== 20 && program.byteLength !== 32)
+  ) {
+    throw new Error(`Invalid regtest address: ${address}`);
+  }
+
+  return { version, program };
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+const BECH32_GENERATORS = [
+  0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+];
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        checksum ^= BECH32_GENERATORS[i];
+      }
+    }
+  }
+
+  return checksum >>> 0;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const chars = [...hrp].map(char => char.charCodeAt(0));
+
+  return [...chars.map(char => char >>> 5), 0, ...chars.map(char => char & 31)];
+}
+
+function bech32Encode(hrp: string, data: number[], encoding: number): string {
+  const values = [...bech32HrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0];
+  const polymod = (bech32Polymod(values) ^ encoding) >>> 0;
+  const checksum = [0, 1, 2, 3, 4, 5].map(
+    i => (polymod >>> (5 * (5 - i))) & 31,
+  );
+
+  return `${hrp}1${[...data, ...checksum].map(value => BECH32_CHARSET[value]).join('')}`;
+}
+
+function bech32Decode(address: string): {
+  hrp: string;
+  data: number[];
+  encoding: number;
+} {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    throw new Error(`Invalid bech32 address: ${address}`);
+  }
+
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Error(`Invalid bech32 address: ${address}`);
+  }
+
+  const hrp = lower.slice(0, separator);
+  const values = [...lower.slice(separator + 1)].map(char =>
+    BECH32_CHARSET.indexOf(char),
+  );
+  if (values.includes(-1)) {
+    throw new Error(`Invalid bech32 address: ${address}`);
+  }
+
+  const encoding = bech32Polymod([...bech32HrpExpand(hrp), ...values]);
+  if (encoding !== BECH32_CONST && encoding !== BECH32M_CONST) {
+    throw new Error(`Invalid bech32 checksum: ${address}`);
+  }
+
+  return { hrp, data: values.slice(0, -6), encoding };
+}
+
+function convertBits(
+  data: ArrayLike<number>,
+  from: number,
+  to: number,
+  pad: boolean,
+): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << to) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    accumulator = (accumulator << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >>> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) {
+      result.push((accumulator << (to - bits)) & maxValue);
+    }
+  } else if (bits >= from || ((accumulator << (to - bits)) & maxValue) !== 0) {
+    throw new Error('Invalid padding in bech32 data');
+  }
+
+  return result;
+}
+
+const BASE58_ALPHABET =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58CheckEncode(payload: Uint8Array): string {
+  const bytes = concatBytes(payload, sha256d(payload).subarray(0, 4));
+  let value = bytesToBigIntBE(bytes);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  const leadingZeros = bytes.findIndex(byte => byte !== 0);
+
+  return (
+    '1'.repeat(leadingZeros === -1 ? bytes.length : leadingZeros) + encoded
+  );
+}
+
+function base58CheckDecode(address: string): Uint8Array {
+  let value = 0n;
+  for (const char of address) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid base58 address: ${address}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  const hex = value === 0n ? '' : value.toString(16);
+  const leadingZeros = address.length - address.replace(/^1+/, '').length;
+  const bytes = concatBytes(
+    new Uint8Array(leadingZeros),
+    hexDecode(hex.length % 2 === 0 ? hex : `0${hex}`),
+  );
+
+  const payload = bytes.subarray(0, -4);
+  if (!bytesEqual(sha256d(payload).subarray(0, 4), bytes.subarray(-4))) {
+    throw new Error(`Invalid base58 checksum: ${address}`);
+  }
+
+  return payload;
+}
+
+// Scripts
+
+function encodeScriptNumber(value: number): Uint8Array {
+  if (value >= 1 && value <= 16) {
+    return new Uint8Array([OP_1 + value - 1]);
+  }
+
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining > 0) {
+    bytes.push(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  }
+  if (bytes.length > 0 && bytes[bytes.length - 1] & 0x80) {
+    bytes.push(0);
+  }
+
+  return pushData(new Uint8Array(bytes));
+}
+
+function pushData(data: Uint8Array): Uint8Array {
+  return concatBytes(new Uint8Array([data.byteLength]), data);
+}
+
+// Serialization
+
+function readTransaction(reader: ByteReader): BitcoinTransactionData {
+  const version = reader.u32();
+
+  let segwit = false;
+  if (reader.peek() === SEGWIT_MARKER) {
+    reader.u8();
+    if (reader.u8() !== SEGWIT_FLAG) {
+      throw new Error('Failed to decode BitcoinTransaction');
+    }
+    segwit = true;
+  }
+
+  const inputCount = reader.varInt();
+  const inputs: BitcoinTxInputData[] = [];
+  for (let i = 0; i < inputCount; i++) {
+    inputs.push({
+      previousOutput: { txid: reader.bytes(32), vout: reader.u32() },
+      scriptSig: reader.varBytes(),
+      sequence: reader.u32(),
+      witness: [],
+    });
+  }
+
+  const outputCount = reader.varInt();
+  const outputs: BitcoinTxOutputData[] = [];
+  for (let i = 0; i < outputCount; i++) {
+    outputs.push({ value: reader.u64(), scriptPubKey: reader.varBytes() });
+  }
+
+  if (segwit) {
+    for (const input of inputs) {
+      const itemCount = reader.varInt();
+      for (let i = 0; i < itemCount; i++) {
+        input.witness.push(reader.varBytes());
+      }
+    }
+  }
+
+  return { version, inputs, outputs, lockTime: reader.u32() };
+}
+
+function writeNetworkAddress(writer: ByteWriter, services: bigint): void {
+  writer.u64(services);
+  // An IPv4-mapped IPv6 address of 127.0.0.1.
+  writer.bytes(
+    new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff, 127, 0, 0, 1]),
+  );
+  writer.bytes(new Uint8Array([0, 0]));
+}
+
+class ByteWriter {
+  private readonly chunks: Uint8Array[] = [];
+
+  public u8(value: number): ByteWriter {
+    this.chunks.push(new Uint8Array([value]));
+
+    return this;
+  }
+
+  public u32(value: number): ByteWriter {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value >>> 0, true);
+    this.chunks.push(bytes);
+
+    return this;
+  }
+
+  public u64(value: bigint): ByteWriter {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, value, true);
+    this.chunks.push(bytes);
+
+    return this;
+  }
+
+  public varInt(value: number): ByteWriter {
+    if (value < 0xfd) {
+      return this.u8(value);
+    }
+
+    if (value <= 0xffff) {
+      this.u8(0xfd);
+      const bytes = new Uint8Array(2);
+      new DataView(bytes.buffer).setUint16(0, value, true);
+      this.chunks.push(bytes);
+
+      return this;
+    }
+
+    if (value <= 0xffffffff) {
+      return this.u8(0xfe).u32(value);
+    }
+
+    return this.u8(0xff).u64(BigInt(value));
+  }
+
+  public bytes(value: Uint8Array): ByteWriter {
+    this.chunks.push(value);
+
+    return this;
+  }
+
+  public varBytes(value: Uint8Array): ByteWriter {
+    return this.varInt(value.byteLength).bytes(value);
+  }
+
+  public toBytes(): Uint8Array {
+    return concatBytes(...this.chunks);
+  }
+}
+
+class ByteReader {
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  public remaining(): number {
+    return this.data.byteLength - this.offset;
+  }
+
+  public peek(): number {
+    this.ensure(1);
+
+    return this.data[this.offset];
+  }
+
+  public u8(): number {
+    this.ensure(1);
+
+    return this.data[this.offset++];
+  }
+
+  public u16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+
+    return value;
+  }
+
+  public u32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+
+    return value;
+  }
+
+  public u64(): bigint {
+    this.ensure(8);
+    const value = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+
+    return value;
+  }
+
+  public varInt(): number {
+    const prefix = this.u8();
+    switch (prefix) {
+      case 0xfd:
+        return this.u16();
+      case 0xfe:
+        return this.u32();
+      case 0xff:
+        return Number(this.u64());
+      default:
+        return prefix;
+    }
+  }
+
+  public bytes(length: number): Uint8Array {
+    this.ensure(length);
+    // Copy, because `slice` returns a view for `Buffer` inputs.
+    const value = new Uint8Array(
+      this.data.subarray(this.offset, this.offset + length),
+    );
+    this.offset += length;
+
+    return value;
+  }
+
+  public varBytes(): Uint8Array {
+    return this.bytes(this.varInt());
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.data.byteLength) {
+      throw new Error('Unexpected end of Bitcoin data');
+    }
+  }
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.byteLength === b.byteLength && a.every((byte, i) => byte === b[i]);
+}
+
+function bytesToBigIntLE(bytes: Uint8Array): bigint {
+  return bytesToBigIntBE(new Uint8Array(bytes).reverse());
+}
+
+function bytesToBigIntBE(bytes: Uint8Array): bigint {
+  return bytes.byteLength === 0 ? 0n : BigInt(`0x${hexEncode(bytes)}`);
+}
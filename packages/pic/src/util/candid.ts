@@ -1,15 +1,33 @@
 import { IDL } from '@icp-sdk/core/candid';
 import type { LogVisibility as LogVisibilityIDL } from '../management-canister';
 import type { SnapshotVisibility as SnapshotVisibilityIDL } from '../management-canister';
+import type { Snapshot as SnapshotIDL } from '../management-canister';
+import type { CanisterLogFilter as CanisterLogFilterIDL } from '../management-canister';
+import type { CanisterLogRecord as CanisterLogRecordIDL } from '../management-canister';
+import type { HttpRequestResult as HttpRequestResultIDL } from '../management-canister';
+import type { SchnorrAlgorithm as SchnorrAlgorithmIDL } from '../management-canister';
 import type { LogVisibility as LogVisibilityPIC } from '../pocket-ic-types';
 import type { SnapshotVisibility as SnapshotVisibilityPIC } from '../pocket-ic-types';
+import type { CanisterSnapshot as CanisterSnapshotPIC } from '../pocket-ic-types';
+import type { CanisterLogFilter as CanisterLogFilterPIC } from '../pocket-ic-types';
+import type { CanisterLogRecord as CanisterLogRecordPIC } from '../pocket-ic-types';
+import type { HttpsOutcallSuccessResponse as HttpsOutcallSuccessResponsePIC } from '../pocket-ic-types';
+import type { SchnorrAlgorithm as SchnorrAlgorithmPIC } from '../pocket-ic-types';
 import { isNil } from './is-nil';
 
 export function optional<T>(value: T | undefined | null): [] | [T] {
   return isNil(value) ? [] : [value];
 }
 
-export type { LogVisibilityIDL, SnapshotVisibilityIDL };
+export type {
+  LogVisibilityIDL,
+  SnapshotVisibilityIDL,
+  SnapshotIDL,
+  CanisterLogFilterIDL,
+  CanisterLogRecordIDL,
+  HttpRequestResultIDL,
+  SchnorrAlgorithmIDL,
+};
 
 export function optLogVisibilityToIDL(
   lv: LogVisibilityPIC | undefined,
@@ -43,6 +61,62 @@ export function snapshotVisibilityFromIDL(
   return { controllers: null };
 }
 
+export function canisterSnapshotFromIDL(
+  snapshot: SnapshotIDL,
+): CanisterSnapshotPIC {
+  return {
+    id: snapshot.id,
+    takenAtTimestamp: snapshot.taken_at_timestamp,
+    totalSize: snapshot.total_size,
+  };
+}
+
+export function optCanisterLogFilterToIDL(
+  filter: CanisterLogFilterPIC | undefined,
+): [] | [CanisterLogFilterIDL] {
+  if (filter === undefined) return [];
+  if ('byIdx' in filter) return [{ by_idx: filter.byIdx }];
+  return [{ by_timestamp_nanos: filter.byTimestampNanos }];
+}
+
+export function canisterLogRecordFromIDL(
+  record: CanisterLogRecordIDL,
+): CanisterLogRecordPIC {
+  return {
+    idx: record.idx,
+    timestampNanos: record.timestamp_nanos,
+    content: record.content,
+  };
+}
+
+export function schnorrAlgorithmToIDL(
+  algorithm: SchnorrAlgorithmPIC,
+): SchnorrAlgorithmIDL {
+  if (algorithm === 'bip340secp256k1') return { bip340secp256k1: null };
+  return { ed25519: null };
+}
+
+export function httpRequestResultToIDL(
+  response: HttpsOutcallSuccessResponsePIC,
+): HttpRequestResultIDL {
+  return {
+    status: BigInt(response.statusCode),
+    headers: response.headers.map(([name, value]) => ({ name, value })),
+    body: response.body,
+  };
+}
+
+export function httpRequestResultFromIDL(
+  result: HttpRequestResultIDL,
+): HttpsOutcallSuccessResponsePIC {
+  return {
+    type: 'success',
+    statusCode: Number(result.status),
+    headers: result.headers.map(({ name, value }) => [name, value]),
+    body: result.body,
+  };
+}
+
 export function decodeCandid<T>(types: IDL.Type[], data: Uint8Array): T | null {
   const returnValues = IDL.decode(types, data);
 
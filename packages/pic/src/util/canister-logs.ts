@@ -0,0 +1,45 @@
+import type { CanisterLogRecord } from '../pocket-ic-types';
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Decodes the content of a canister log record as UTF-8 text.
+ *
+ * @param record The log record to decode, see {@link CanisterLogRecord}.
+ * @returns The decoded text content of the log record.
+ *
+ * @example
+ * ```ts
+ * import { decodeCanisterLogContent } from '@dfinity/pic';
+ *
+ * const records = await pic.fetchCanisterLogs({ canisterId });
+ * const messages = records.map(decodeCanisterLogContent);
+ * ```
+ */
+export function decodeCanisterLogContent(record: CanisterLogRecord): string {
+  return textDecoder.decode(record.content);
+}
+
+/**
+ * Formats canister log records as text, one record per line.
+ * Each line is prefixed with the record's index and timestamp.
+ *
+ * @param records The log records to format, see {@link CanisterLogRecord}.
+ * @returns The formatted log records.
+ *
+ * @example
+ * ```ts
+ * import { formatCanisterLogs } from '@dfinity/pic';
+ *
+ * const records = await pic.fetchCanisterLogs({ canisterId });
+ * console.log(formatCanisterLogs(records));
+ * ```
+ */
+export function formatCanisterLogs(records: CanisterLogRecord[]): string {
+  return records
+    .map(
+      record =>
+        `[${record.idx}. ${record.timestampNanos}]: ${decodeCanisterLogContent(record)}`,
+    )
+    .join('\n');
+}
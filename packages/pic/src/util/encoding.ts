@@ -19,3 +19,7 @@ export function base64Decode(payload: string): Uint8Array {
 export function hexDecode(payload: string): Uint8Array {
   return new Uint8Array(Buffer.from(payload, 'hex'));
 }
+
+export function hexEncode(payload: Uint8Array): string {
+  return Buffer.from(payload).toString('hex');
+}
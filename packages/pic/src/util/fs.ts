@@ -1,5 +1,16 @@
-import { access, constants, readFile } from 'node:fs/promises';
-import { resolve } from 'node:path';
+import {
+  access,
+  constants,
+  cp,
+  mkdir,
+  mkdtemp,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { basename, dirname, resolve } from 'node:path';
 import { tmpdir } from 'node:os';
 
 export async function exists(filePath: string): Promise<boolean> {
@@ -11,6 +22,14 @@ export async function exists(filePath: string): Promise<boolean> {
   }
 }
 
+export async function isNonEmptyDir(dirPath: string): Promise<boolean> {
+  try {
+    return (await readdir(dirPath)).length > 0;
+  } catch (e) {
+    return false;
+  }
+}
+
 export function tmpFile(filePath: string) {
   return resolve(tmpdir(), filePath);
 }
@@ -22,3 +41,64 @@ export async function readFileAsBytes(filePath: string): Promise<Buffer> {
 export async function readFileAsString(filePath: string): Promise<string> {
   return await readFile(filePath, { encoding: 'utf-8' });
 }
+
+export async function writeFileAsBytes(
+  filePath: string,
+  data: Uint8Array,
+): Promise<void> {
+  await writeFile(filePath, data);
+}
+
+export async function writeFileAsString(
+  filePath: string,
+  data: string,
+): Promise<void> {
+  await writeFile(filePath, data, { encoding: 'utf-8' });
+}
+
+export async function ensureDir(dirPath: string): Promise<void> {
+  await mkdir(dirPath, { recursive: true });
+}
+
+export async function tmpDir(prefix: string): Promise<string> {
+  return await mkdtemp(tmpFile(prefix));
+}
+
+export async function copyDir(
+  srcPath: string,
+  destPath: string,
+): Promise<void> {
+  await cp(srcPath, destPath, { recursive: true });
+}
+
+// Creates a temporary directory next to the given one,
+// so that both are on the same file system.
+export async function tmpDirNextTo(dirPath: string): Promise<string> {
+  return await mkdtemp(resolve(dirname(dirPath), `.${basename(dirPath)}-`));
+}
+
+// Replaces a directory with another one on the same file system. The original
+// directory is kept if the other one cannot be moved in its place.
+export async function replaceDir(
+  dirPath: string,
+  newDirPath: string,
+): Promise<void> {
+  const swapDirPath = await tmpDirNextTo(dirPath);
+  const previousDirPath = resolve(swapDirPath, 'previous');
+
+  try {
+    await rename(dirPath, previousDirPath);
+    try {
+      await rename(newDirPath, dirPath);
+    } catch (error) {
+      await rename(previousDirPath, dirPath);
+      throw error;
+    }
+  } finally {
+    await removeDir(swapDirPath);
+  }
+}
+
+export async function removeDir(dirPath: string): Promise<void> {
+  await rm(dirPath, { recursive: true, force: true });
+}
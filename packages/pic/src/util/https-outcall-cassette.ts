@@ -0,0 +1,108 @@
+import type {
+  CanisterHttpHeader,
+  CanisterHttpMethod,
+  HttpsOutcallResponseMock,
+  PendingHttpsOutcall,
+} from '../pocket-ic-types';
+import { base64Decode, base64Encode, hexEncode } from './encoding';
+import { sha256 } from './wasm';
+
+const HTTPS_OUTCALL_CASSETTE_VERSION = 1;
+
+export interface HttpsOutcallCassetteRequest {
+  method: CanisterHttpMethod;
+  url: string;
+  headers: CanisterHttpHeader[];
+  bodySha256: string;
+}
+
+export interface HttpsOutcallCassetteInteraction {
+  request: HttpsOutcallCassetteRequest;
+  response: HttpsOutcallResponseMock;
+}
+
+interface EncodedHttpsOutcallCassette {
+  version: number;
+  interactions: EncodedHttpsOutcallCassetteInteraction[];
+}
+
+interface EncodedHttpsOutcallCassetteInteraction {
+  request: HttpsOutcallCassetteRequest;
+  response: EncodedHttpsOutcallResponseMock;
+}
+
+type EncodedHttpsOutcallResponseMock =
+  | {
+      type: 'success';
+      statusCode: number;
+      headers: CanisterHttpHeader[];
+      body: string;
+    }
+  | {
+      type: 'reject';
+      statusCode: number;
+      message: string;
+    };
+
+export function httpsOutcallCassetteRequest(
+  outcall: PendingHttpsOutcall,
+): HttpsOutcallCassetteRequest {
+  const headers = outcall.headers
+    .map(([name, value]): CanisterHttpHeader => [name.toLowerCase(), value])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return {
+    method: outcall.httpMethod,
+    url: outcall.url,
+    headers,
+    bodySha256: hexEncode(sha256(outcall.body)),
+  };
+}
+
+export function httpsOutcallCassetteKey(
+  request: HttpsOutcallCassetteRequest,
+): string {
+  return JSON.stringify([
+    request.method,
+    request.url,
+    request.headers,
+    request.bodySha256,
+  ]);
+}
+
+export function encodeHttpsOutcallCassette(
+  interactions: HttpsOutcallCassetteInteraction[],
+): string {
+  const encoded: EncodedHttpsOutcallCassette = {
+    version: HTTPS_OUTCALL_CASSETTE_VERSION,
+    interactions: interactions.map(({ request, response }) => ({
+      request,
+      response:
+        response.type === 'success'
+          ? { ...response, body: base64Encode(response.body) }
+          : response,
+    })),
+  };
+
+  return JSON.stringify(encoded, null, 2);
+}
+
+export function decodeHttpsOutcallCassette(
+  json: string,
+): HttpsOutcallCassetteInteraction[] {
+  const encoded: EncodedHttpsOutcallCassette = JSON.parse(json);
+
+  if (encoded.version !== HTTPS_OUTCALL_CASSETTE_VERSION) {
+    throw new Error(
+      `Unsupported HTTPS outcall cassette version: ${encoded.version}`,
+    );
+  }
+
+  return encoded.interactions.map(({ request, response }) => ({
+    request,
+    response:
+      response.type === 'success'
+        ? { ...response, body: base64Decode(response.body) }
+        : response,
+  }));
+}
@@ -0,0 +1,61 @@
+import {
+  CanisterHttpHeader,
+  CanisterHttpMethod,
+  HttpsOutcallHandler,
+} from '../pocket-ic-types';
+import { isNil } from './is-nil';
+
+/**
+ * Creates an {@link HttpsOutcallHandler} that answers outcalls by sending them
+ * with `fetch` and responding with the response of the server.
+ *
+ * @param forwardUrl The base URL of the server to send outcalls to, for example
+ * a local stand-in for a real API. The path and query of the outcall URL are
+ * appended to this URL. If omitted, outcalls are sent to their original URL.
+ * @returns The handler.
+ *
+ * @example
+ * ```ts
+ * import { PocketIc, forwardHttpsOutcalls } from '@dfinity/pic';
+ *
+ * const pic = await PocketIc.create(picServer.getUrl());
+ *
+ * await pic.makeLive({
+ *   httpsOutcallHandler: forwardHttpsOutcalls('http://localhost:8080'),
+ * });
+ * ```
+ */
+export function forwardHttpsOutcalls(forwardUrl?: string): HttpsOutcallHandler {
+  return async outcall => {
+    const res = await fetch(forwardedUrl(outcall.url, forwardUrl), {
+      method: outcall.httpMethod,
+      headers: outcall.headers,
+      body:
+        outcall.httpMethod === CanisterHttpMethod.POST
+          ? outcall.body
+          : undefined,
+    });
+
+    const headers: CanisterHttpHeader[] = [];
+    res.headers.forEach((value, name) => {
+      headers.push([name, value]);
+    });
+
+    return {
+      type: 'success',
+      statusCode: res.status,
+      headers,
+      body: new Uint8Array(await res.arrayBuffer()),
+    };
+  };
+}
+
+function forwardedUrl(url: string, forwardUrl?: string): string {
+  if (isNil(forwardUrl)) {
+    return url;
+  }
+
+  const { pathname, search } = new URL(url);
+
+  return `${forwardUrl.replace(/\/$/, '')}${pathname}${search}`;
+}
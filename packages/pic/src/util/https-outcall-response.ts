@@ -0,0 +1,46 @@
+import type { HttpsOutcallResponseMock } from '../pocket-ic-types';
+import { hexEncode } from './encoding';
+
+export interface HttpsOutcallConsensus {
+  matchingResponses: number;
+  threshold: number;
+  converged: boolean;
+}
+
+// Consensus requires `n - floor((n - 1) / 3)` of the `n` responses to be equal.
+export function httpsOutcallConsensus(
+  responses: HttpsOutcallResponseMock[],
+): HttpsOutcallConsensus {
+  const groups = new Map<string, number>();
+  for (const response of responses) {
+    const key = httpsOutcallResponseKey(response);
+    groups.set(key, (groups.get(key) ?? 0) + 1);
+  }
+
+  const matchingResponses = Math.max(0, ...groups.values());
+  const faultyReplicas = Math.floor((responses.length - 1) / 3);
+  const threshold = responses.length - faultyReplicas;
+
+  return {
+    matchingResponses,
+    threshold,
+    converged: matchingResponses >= threshold,
+  };
+}
+
+function httpsOutcallResponseKey(response: HttpsOutcallResponseMock): string {
+  if (response.type === 'reject') {
+    return JSON.stringify([
+      response.type,
+      response.statusCode,
+      response.message,
+    ]);
+  }
+
+  return JSON.stringify([
+    response.type,
+    response.statusCode,
+    response.headers,
+    hexEncode(response.body),
+  ]);
+}
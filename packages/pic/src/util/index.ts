@@ -1,7 +1,20 @@
+export * from './bitcoin';
+export * from './bytes';
 export * from './candid';
+export * from './canister-logs';
 export * from './encoding';
 export * from './fs';
+export * from './https-outcall-cassette';
+export * from './https-outcall-forward';
+export * from './https-outcall-response';
+export * from './interceptor';
 export * from './is-nil';
 export * from './os';
 export * from './poll';
+export * from './principal';
+export * from './proxy-canister';
+export * from './result';
+export * from './signature';
+export * from './snapshot';
+export * from './vetkd';
 export * from './wasm';
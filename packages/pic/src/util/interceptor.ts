@@ -0,0 +1,87 @@
+import type { ActorCallContext, ActorInterceptor } from '../pocket-ic-types';
+
+export type GetInterceptors = () => ActorInterceptor[];
+
+export const noInterceptors: GetInterceptors = () => [];
+
+export async function interceptCall<T>(
+  interceptors: ActorInterceptor[],
+  context: ActorCallContext,
+  call: () => Promise<T>,
+): Promise<T> {
+  const startTime = performance.now();
+
+  await beforeCall(interceptors, context, startTime);
+
+  return await completeCall(interceptors, context, startTime, call);
+}
+
+export async function interceptDeferredCall<T>(
+  interceptors: ActorInterceptor[],
+  context: ActorCallContext,
+  submit: () => Promise<() => Promise<T>>,
+): Promise<() => Promise<T>> {
+  const startTime = performance.now();
+
+  await beforeCall(interceptors, context, startTime);
+
+  let execute: () => Promise<T>;
+  try {
+    execute = await submit();
+  } catch (error) {
+    await onError(interceptors, context, startTime, error);
+    throw error;
+  }
+
+  return () => completeCall(interceptors, context, startTime, execute);
+}
+
+async function beforeCall(
+  interceptors: ActorInterceptor[],
+  context: ActorCallContext,
+  startTime: number,
+): Promise<void> {
+  try {
+    for (const interceptor of interceptors) {
+      await interceptor.onBeforeCall?.(context);
+    }
+  } catch (error) {
+    await onError(interceptors, context, startTime, error);
+    throw error;
+  }
+}
+
+async function completeCall<T>(
+  interceptors: ActorInterceptor[],
+  context: ActorCallContext,
+  startTime: number,
+  call: () => Promise<T>,
+): Promise<T> {
+  let result: T;
+  try {
+    result = await call();
+  } catch (error) {
+    await onError(interceptors, context, startTime, error);
+    throw error;
+  }
+
+  const durationMs = performance.now() - startTime;
+  for (const interceptor of interceptors) {
+    await interceptor.onAfterCall?.({ ...context, result, durationMs });
+  }
+
+  return result;
+}
+
+async function onError(
+  interceptors: ActorInterceptor[],
+  context: ActorCallContext,
+  startTime: number,
+  error: unknown,
+): Promise<void> {
+  const durationMs = performance.now() - startTime;
+
+  for (const interceptor of interceptors) {
+    await interceptor.onError?.({ ...context, error, durationMs });
+  }
+}
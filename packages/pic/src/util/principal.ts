@@ -0,0 +1,10 @@
+import { Identity } from '@icp-sdk/core/agent';
+import { Principal } from '@icp-sdk/core/principal';
+
+export function toPrincipal(
+  identityOrPrincipal: Identity | Principal,
+): Principal {
+  return 'getPrincipal' in identityOrPrincipal
+    ? identityOrPrincipal.getPrincipal()
+    : identityOrPrincipal;
+}
@@ -0,0 +1,109 @@
+import { Principal } from '@icp-sdk/core/principal';
+import { PROXY_CANISTER_WASM } from '../proxy-canister-wasm';
+import type { RejectCode } from '../pocket-ic-types';
+import { concatBytes } from './bytes';
+import { base64Decode } from './encoding';
+
+const U32_SIZE = 4;
+const U128_SIZE = 16;
+const U64_MASK = (1n << 64n) - 1n;
+const RESPONSE_HEADER_SIZE = 1 + U128_SIZE;
+
+export interface ProxyCallRequest {
+  canisterId: Principal;
+  method: string;
+  payload: Uint8Array;
+  cycles: bigint;
+}
+
+export type ProxyCallResponse =
+  | {
+      type: 'reply';
+      body: Uint8Array;
+      cyclesRefunded: bigint;
+    }
+  | {
+      type: 'reject';
+      rejectCode: RejectCode;
+      rejectMessage: string;
+      cyclesRefunded: bigint;
+    };
+
+export interface CallWithCyclesRequest {
+  canisterId: Principal;
+  method: string;
+  payload: Uint8Array;
+  sender: Principal;
+  cycles: bigint;
+}
+
+export interface CallWithCyclesResponse {
+  body: Uint8Array;
+  cyclesRefunded: bigint;
+}
+
+export type CallWithCycles = (
+  request: CallWithCyclesRequest,
+) => Promise<CallWithCyclesResponse>;
+
+export const noCallWithCycles: CallWithCycles = async () => {
+  throw new Error('This actor does not support calls with cycles.');
+};
+
+export function proxyCanisterWasm(): Uint8Array {
+  return base64Decode(PROXY_CANISTER_WASM);
+}
+
+export function encodeProxyCallRequest({
+  canisterId,
+  method,
+  payload,
+  cycles,
+}: ProxyCallRequest): Uint8Array {
+  const callee = canisterId.toUint8Array();
+  const methodName = new TextEncoder().encode(method);
+
+  const bytes = new Uint8Array(
+    U32_SIZE + callee.length + U32_SIZE + methodName.length + U128_SIZE,
+  );
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  view.setUint32(offset, callee.length, true);
+  offset += U32_SIZE;
+  bytes.set(callee, offset);
+  offset += callee.length;
+
+  view.setUint32(offset, methodName.length, true);
+  offset += U32_SIZE;
+  bytes.set(methodName, offset);
+  offset += methodName.length;
+
+  view.setBigUint64(offset, cycles & U64_MASK, true);
+  view.setBigUint64(offset + 8, cycles >> 64n, true);
+
+  return concatBytes(bytes, payload);
+}
+
+export function decodeProxyCallResponse(bytes: Uint8Array): ProxyCallResponse {
+  if (bytes.length < RESPONSE_HEADER_SIZE) {
+    throw new Error('Failed to decode ProxyCallResponse');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const rejectCode = view.getUint8(0);
+  const cyclesRefunded =
+    view.getBigUint64(1, true) | (view.getBigUint64(9, true) << 64n);
+  const data = bytes.slice(RESPONSE_HEADER_SIZE);
+
+  if (rejectCode === 0) {
+    return { type: 'reply', body: data, cyclesRefunded };
+  }
+
+  return {
+    type: 'reject',
+    rejectCode,
+    rejectMessage: new TextDecoder().decode(data),
+    cyclesRefunded,
+  };
+}
@@ -0,0 +1,31 @@
+import { CanisterRejectError } from '../error';
+import type { CanisterRejectInfo } from '../pocket-ic-types';
+
+export type CanisterCallResult<T> = { ok: T } | { err: CanisterRejectInfo };
+
+export function canisterRejectInfoFromError(
+  error: CanisterRejectError,
+): CanisterRejectInfo {
+  return {
+    rejectCode: error.rejectCode,
+    errorCode: error.errorCode,
+    rejectMessage: error.rejectMessage,
+    certified: error.certified,
+    canisterId: error.canisterId,
+    method: error.method,
+  };
+}
+
+export async function toCanisterCallResult<T>(
+  call: Promise<T>,
+): Promise<CanisterCallResult<T>> {
+  try {
+    return { ok: await call };
+  } catch (error) {
+    if (error instanceof CanisterRejectError) {
+      return { err: canisterRejectInfoFromError(error) };
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,102 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import type {
+  VerifyEcdsaSignatureOptions,
+  VerifySchnorrSignatureOptions,
+} from '../pocket-ic-types';
+
+const SEC1_COMPRESSED_PUBLIC_KEY_LENGTH = 33;
+
+/**
+ * Verifies a threshold ECDSA signature over the secp256k1 curve against
+ * the public key of the key that produced it.
+ *
+ * The `ecdsa_public_key` and `sign_with_ecdsa` management canister methods
+ * can only be called by canisters, so the public key and the signature
+ * are usually returned by the canister under test.
+ *
+ * @param options Options for verifying the signature, see {@link VerifyEcdsaSignatureOptions}.
+ * @returns `true` if the signature is valid, `false` otherwise.
+ *
+ * @example
+ * ```ts
+ * import { verifyEcdsaSignature } from '@dfinity/pic';
+ *
+ * const publicKey = await actor.public_key();
+ * const signature = await actor.sign(messageHash);
+ *
+ * expect(
+ *   verifyEcdsaSignature({ publicKey, messageHash, signature }),
+ * ).toBe(true);
+ * ```
+ */
+export function verifyEcdsaSignature({
+  publicKey,
+  messageHash,
+  signature,
+}: VerifyEcdsaSignatureOptions): boolean {
+  try {
+    return secp256k1.verify(signature, messageHash, publicKey, {
+      prehash: false,
+      lowS: false,
+      format: 'compact',
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies a threshold Schnorr signature against the public key of the
+ * key that produced it. Both BIP340 signatures over secp256k1 and Ed25519
+ * signatures are supported.
+ *
+ * The `schnorr_public_key` and `sign_with_schnorr` management canister methods
+ * can only be called by canisters, so the public key and the signature
+ * are usually returned by the canister under test.
+ *
+ * @param options Options for verifying the signature, see {@link VerifySchnorrSignatureOptions}.
+ * @returns `true` if the signature is valid, `false` otherwise.
+ *
+ * @example
+ * ```ts
+ * import { verifySchnorrSignature } from '@dfinity/pic';
+ *
+ * const publicKey = await actor.schnorr_public_key();
+ * const signature = await actor.sign_with_schnorr(message);
+ *
+ * expect(
+ *   verifySchnorrSignature({
+ *     algorithm: 'ed25519',
+ *     publicKey,
+ *     message,
+ *     signature,
+ *   }),
+ * ).toBe(true);
+ * ```
+ */
+export function verifySchnorrSignature({
+  algorithm,
+  publicKey,
+  message,
+  signature,
+}: VerifySchnorrSignatureOptions): boolean {
+  try {
+    switch (algorithm) {
+      case 'bip340secp256k1':
+        return schnorr.verify(signature, message, toXOnlyPublicKey(publicKey));
+      case 'ed25519':
+        return ed25519.verify(signature, message, publicKey);
+    }
+  } catch {
+    return false;
+  }
+}
+
+function toXOnlyPublicKey(publicKey: Uint8Array): Uint8Array {
+  if (publicKey.byteLength === SEC1_COMPRESSED_PUBLIC_KEY_LENGTH) {
+    return publicKey.subarray(1);
+  }
+
+  return publicKey;
+}
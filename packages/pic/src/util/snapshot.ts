@@ -0,0 +1,141 @@
+import { resolve } from 'node:path';
+import { JSONParse, JSONStringify } from 'json-with-bigint';
+import type {
+  ExportedGlobal,
+  GlobalTimer,
+  OnLowWasmMemoryHookStatus,
+  ReadCanisterSnapshotMetadataResponse,
+} from '../management-canister';
+import { hexDecode, hexEncode } from './encoding';
+import { isNil } from './is-nil';
+
+const SNAPSHOT_METADATA_FILE = 'metadata.json';
+const SNAPSHOT_WASM_MODULE_FILE = 'wasm_module.bin';
+const SNAPSHOT_WASM_MEMORY_FILE = 'wasm_memory.bin';
+const SNAPSHOT_STABLE_MEMORY_FILE = 'stable_memory.bin';
+const SNAPSHOT_WASM_CHUNK_STORE_DIR = 'wasm_chunk_store';
+
+export interface SnapshotDirPaths {
+  metadata: string;
+  wasmModule: string;
+  wasmMemory: string;
+  stableMemory: string;
+  wasmChunkStore: string;
+}
+
+export function snapshotDirPaths(snapshotDir: string): SnapshotDirPaths {
+  return {
+    metadata: resolve(snapshotDir, SNAPSHOT_METADATA_FILE),
+    wasmModule: resolve(snapshotDir, SNAPSHOT_WASM_MODULE_FILE),
+    wasmMemory: resolve(snapshotDir, SNAPSHOT_WASM_MEMORY_FILE),
+    stableMemory: resolve(snapshotDir, SNAPSHOT_STABLE_MEMORY_FILE),
+    wasmChunkStore: resolve(snapshotDir, SNAPSHOT_WASM_CHUNK_STORE_DIR),
+  };
+}
+
+export function snapshotWasmChunkPath(
+  wasmChunkStoreDir: string,
+  hash: Uint8Array,
+): string {
+  return resolve(wasmChunkStoreDir, hexEncode(hash));
+}
+
+interface EncodedSnapshotMetadata {
+  source: 'taken_from_canister' | 'metadata_upload';
+  taken_at_timestamp: bigint | number;
+  wasm_module_size: bigint | number;
+  exported_globals: EncodedExportedGlobal[];
+  wasm_memory_size: bigint | number;
+  stable_memory_size: bigint | number;
+  wasm_chunk_store: string[];
+  canister_version: bigint | number;
+  certified_data: string;
+  global_timer: EncodedGlobalTimer | null;
+  on_low_wasm_memory_hook_status: OnLowWasmMemoryHookStatus | null;
+}
+
+type EncodedExportedGlobal =
+  | { i32: number }
+  | { i64: bigint | number }
+  | { f32: number }
+  | { f64: number }
+  | { v128: bigint | number };
+
+type EncodedGlobalTimer = { inactive: null } | { active: bigint | number };
+
+export function encodeSnapshotMetadata(
+  metadata: ReadCanisterSnapshotMetadataResponse,
+): string {
+  const encoded: EncodedSnapshotMetadata = {
+    source:
+      'taken_from_canister' in metadata.source
+        ? 'taken_from_canister'
+        : 'metadata_upload',
+    taken_at_timestamp: metadata.taken_at_timestamp,
+    wasm_module_size: metadata.wasm_module_size,
+    exported_globals: metadata.exported_globals,
+    wasm_memory_size: metadata.wasm_memory_size,
+    stable_memory_size: metadata.stable_memory_size,
+    wasm_chunk_store: metadata.wasm_chunk_store.map(({ hash }) =>
+      hexEncode(hash),
+    ),
+    canister_version: metadata.canister_version,
+    certified_data: hexEncode(metadata.certified_data),
+    global_timer: metadata.global_timer[0] ?? null,
+    on_low_wasm_memory_hook_status:
+      metadata.on_low_wasm_memory_hook_status[0] ?? null,
+  };
+
+  return JSONStringify(encoded, null, 2);
+}
+
+export function decodeSnapshotMetadata(
+  json: string,
+): ReadCanisterSnapshotMetadataResponse {
+  const encoded = JSONParse(json) as EncodedSnapshotMetadata;
+
+  return {
+    source:
+      encoded.source === 'taken_from_canister'
+        ? { taken_from_canister: null }
+        : { metadata_upload: null },
+    taken_at_timestamp: BigInt(encoded.taken_at_timestamp),
+    wasm_module_size: BigInt(encoded.wasm_module_size),
+    exported_globals: encoded.exported_globals.map(decodeExportedGlobal),
+    wasm_memory_size: BigInt(encoded.wasm_memory_size),
+    stable_memory_size: BigInt(encoded.stable_memory_size),
+    wasm_chunk_store: encoded.wasm_chunk_store.map(hash => ({
+      hash: hexDecode(hash),
+    })),
+    canister_version: BigInt(encoded.canister_version),
+    certified_data: hexDecode(encoded.certified_data),
+    global_timer: isNil(encoded.global_timer)
+      ? []
+      : [decodeGlobalTimer(encoded.global_timer)],
+    on_low_wasm_memory_hook_status: isNil(
+      encoded.on_low_wasm_memory_hook_status,
+    )
+      ? []
+      : [encoded.on_low_wasm_memory_hook_status],
+  };
+}
+
+function decodeExportedGlobal(global: EncodedExportedGlobal): ExportedGlobal {
+  if ('i64' in global) {
+    return { i64: BigInt(global.i64) };
+  }
+
+  if ('v128' in global) {
+    return { v128: BigInt(global.v128) };
+  }
+
+  return global;
+}
+
+function decodeGlobalTimer(timer: EncodedGlobalTimer): GlobalTimer {
+  if ('active' in timer) {
+    return { active: BigInt(timer.active) };
+  }
+
+  return timer;
+}
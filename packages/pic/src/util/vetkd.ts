@@ -0,0 +1,115 @@
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { bytesToNumberBE } from '@noble/curves/utils';
+import { VetKeyVerificationError } from '../error';
+import type {
+  DecryptVetKeyOptions,
+  VetKdTransportKey,
+} from '../pocket-ic-types';
+import { concatBytes } from './bytes';
+
+const G1_BYTES = 48;
+const G2_BYTES = 96;
+const ENCRYPTED_KEY_BYTES = G1_BYTES + G2_BYTES + G1_BYTES;
+
+const AUGMENTED_HASH_TO_G1_DST = 'BLS_SIG_BLS12381G1_XMD:SHA-256_SSWU_RO_AUG_';
+
+const { G1, G2, fields, pairing, shortSignatures } = bls12_381;
+
+/**
+ * Generates a random transport key pair for receiving an encrypted vetKey.
+ *
+ * The `vetkd_public_key` and `vetkd_derive_key` management canister methods
+ * can only be called by canisters, so the public key of the transport key pair
+ * is usually passed to the canister under test, which returns the encrypted key.
+ *
+ * @returns A new transport key pair, see {@link VetKdTransportKey}.
+ *
+ * @example
+ * ```ts
+ * import { generateVetKdTransportKey } from '@dfinity/pic';
+ *
+ * const transportKey = generateVetKdTransportKey();
+ * const encryptedKey = await actor.encrypted_symmetric_key_for_caller(
+ *   transportKey.publicKey,
+ * );
+ * ```
+ */
+export function generateVetKdTransportKey(): VetKdTransportKey {
+  const secretKey = bls12_381.utils.randomSecretKey();
+  const publicKey = G1.Point.BASE.multiply(bytesToNumberBE(secretKey));
+
+  return {
+    secretKey,
+    publicKey: publicKey.toBytes(true),
+  };
+}
+
+/**
+ * Decrypts an encrypted vetKey with the transport secret key it was encrypted
+ * for and verifies the decrypted key against the derived public key and input.
+ *
+ * @param options Options for decrypting the key, see {@link DecryptVetKeyOptions}.
+ * @returns The 48 byte vetKey, a compressed BLS12-381 G1 point.
+ * @throws {@link VetKeyVerificationError} If the encrypted key is malformed
+ * or the decrypted key does not match the derived public key and input.
+ *
+ * @example
+ * ```ts
+ * import { decryptVetKey, generateVetKdTransportKey } from '@dfinity/pic';
+ *
+ * const transportKey = generateVetKdTransportKey();
+ * const derivedPublicKey = await actor.symmetric_key_verification_key();
+ * const encryptedKey = await actor.encrypted_symmetric_key_for_caller(
+ *   transportKey.publicKey,
+ * );
+ *
+ * const vetKey = decryptVetKey({
+ *   encryptedKey,
+ *   transportSecretKey: transportKey.secretKey,
+ *   derivedPublicKey,
+ *   input: alice.getPrincipal().toUint8Array(),
+ * });
+ * ```
+ */
+export function decryptVetKey({
+  encryptedKey,
+  transportSecretKey,
+  derivedPublicKey,
+  input,
+}: DecryptVetKeyOptions): Uint8Array {
+  if (encryptedKey.byteLength !== ENCRYPTED_KEY_BYTES) {
+    throw new VetKeyVerificationError();
+  }
+
+  let c1, c2, c3, publicKey;
+  try {
+    c1 = G1.Point.fromBytes(encryptedKey.subarray(0, G1_BYTES));
+    c2 = G2.Point.fromBytes(
+      encryptedKey.subarray(G1_BYTES, G1_BYTES + G2_BYTES),
+    );
+    c3 = G1.Point.fromBytes(encryptedKey.subarray(G1_BYTES + G2_BYTES));
+    publicKey = G2.Point.fromBytes(derivedPublicKey);
+  } catch {
+    throw new VetKeyVerificationError();
+  }
+
+  // c1 and c2 must share the same discrete log, otherwise the key
+  // was not encrypted with the randomness that c1 commits to.
+  if (
+    !fields.Fp12.eql(pairing(c1, G2.Point.BASE), pairing(G1.Point.BASE, c2))
+  ) {
+    throw new VetKeyVerificationError();
+  }
+
+  const vetKey = c3.subtract(c1.multiply(bytesToNumberBE(transportSecretKey)));
+  const message = shortSignatures.hash(
+    concatBytes(derivedPublicKey, input),
+    AUGMENTED_HASH_TO_G1_DST,
+  );
+
+  if (!shortSignatures.verify(vetKey, message, publicKey)) {
+    throw new VetKeyVerificationError();
+  }
+
+  return vetKey.toBytes(true);
+}
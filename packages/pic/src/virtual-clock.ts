@@ -0,0 +1,180 @@
+import { FakeTimers } from './pocket-ic-types';
+import { PocketIcClient } from './pocket-ic-client';
+import { isNil, isNotNil } from './util';
+
+const NANOS_PER_MILLISECOND = 1_000_000n;
+
+/**
+ * Keeps the time of a PocketIC instance in sync with the fake timers of the
+ * test runner, so that code under test that uses `Date.now()` sees the same
+ * time as the canisters it talks to.
+ * This is acquired through {@link PocketIc.clock}.
+ *
+ * Once fake timers are bound with {@link bindFakeTimers}, advancing the clock
+ * also advances the fake timers, and advancing the fake timers in the test
+ * runner advances the instance time the next time the clock is used.
+ * The instance time is never moved backwards, and its sub-millisecond part is kept.
+ *
+ * Changing the time with {@link PocketIc.setTime}, {@link PocketIc.advanceTime}
+ * or ticking does not move the fake timers. Call {@link freeze} afterwards to pin
+ * the fake timers to the instance time again.
+ *
+ * @category API
+ *
+ * @example
+ * ```ts
+ * import { PocketIc, PocketIcServer } from '@dfinity/pic';
+ *
+ * const picServer = await PocketIcServer.start();
+ * const pic = await PocketIc.create(picServer.getUrl());
+ *
+ * jest.useFakeTimers();
+ * await pic.clock.bindFakeTimers(jest);
+ *
+ * await pic.clock.advance(60_000);
+ * jest.advanceTimersByTime(1_000);
+ * const time = await pic.clock.now();
+ *
+ * pic.clock.unbindFakeTimers();
+ * jest.useRealTimers();
+ *
+ * await pic.tearDown();
+ * await picServer.stop();
+ * ```
+ */
+export class VirtualClock {
+  private fakeTimers: FakeTimers | null = null;
+  private syncedAt = 0;
+
+  /**
+   * @ignore
+   */
+  constructor(private readonly client: PocketIcClient) {}
+
+  /**
+   * Bind the fake timers of the test runner to the clock and set the
+   * fake system time to the current instance time.
+   * Fake timers must already be enabled in the test runner.
+   *
+   * @param fakeTimers The fake timers to bind, for example `jest` or `vi`.
+   */
+  public async bindFakeTimers(fakeTimers: FakeTimers): Promise<void> {
+    this.fakeTimers = fakeTimers;
+
+    await this.pin(await this.getInstanceTime());
+  }
+
+  /**
+   * Unbind the fake timers of the test runner from the clock.
+   * The instance time is no longer advanced along with the fake timers.
+   */
+  public unbindFakeTimers(): void {
+    this.fakeTimers = null;
+  }
+
+  /**
+   * Get the current time of the instance, after applying any time that
+   * has passed on the bound fake timers.
+   *
+   * @returns The current time in milliseconds since the Unix epoch.
+   */
+  public async now(): Promise<number> {
+    return toMillis(await this.syncedInstanceTime());
+  }
+
+  /**
+   * Advance the time of the instance and the bound fake timers.
+   * Query calls and read state requests reflect the new time immediately,
+   * and timers scheduled in the test runner that are due are run.
+   *
+   * @param ms The number of milliseconds to advance the time by.
+   * Fractions of a millisecond are rounded to the nearest nanosecond.
+   * @returns The new time in milliseconds since the Unix epoch.
+   */
+  public async advance(ms: number): Promise<number> {
+    const time = (await this.syncedInstanceTime()) + toNanos(ms);
+    await this.setInstanceTime(time);
+
+    if (isNotNil(this.fakeTimers)) {
+      this.fakeTimers.advanceTimersByTime(ms);
+      this.syncedAt = Date.now();
+    }
+
+    return toMillis(time);
+  }
+
+  /**
+   * Pin the bound fake timers to the current time of the instance and have
+   * query calls and read state requests reflect that time.
+   * Neither clock moves afterwards until it is advanced.
+   *
+   * @returns The frozen time in milliseconds since the Unix epoch.
+   */
+  public async freeze(): Promise<number> {
+    const time = await this.syncedInstanceTime();
+    await this.pin(time);
+
+    return toMillis(time);
+  }
+
+  /**
+   * Advance the time of the instance by the time that has passed on the
+   * bound fake timers since the clock was last used.
+   * This is done automatically by the other methods of the clock.
+   */
+  public async sync(): Promise<void> {
+    await this.syncedInstanceTime();
+  }
+
+  private async syncedInstanceTime(): Promise<bigint> {
+    const instanceTime = await this.getInstanceTime();
+    if (isNil(this.fakeTimers)) {
+      return instanceTime;
+    }
+
+    const runnerTime = Date.now();
+    const elapsedMs = runnerTime - this.syncedAt;
+    this.syncedAt = runnerTime;
+    if (elapsedMs <= 0) {
+      return instanceTime;
+    }
+
+    const time = instanceTime + BigInt(elapsedMs) * NANOS_PER_MILLISECOND;
+    await this.setInstanceTime(time);
+
+    return time;
+  }
+
+  private async pin(time: bigint): Promise<void> {
+    await this.setInstanceTime(time);
+
+    if (isNotNil(this.fakeTimers)) {
+      this.fakeTimers.setSystemTime(toMillis(time));
+      this.syncedAt = Date.now();
+    }
+  }
+
+  private async getInstanceTime(): Promise<bigint> {
+    const { nanosSinceEpoch } = await this.client.getTime();
+
+    return nanosSinceEpoch;
+  }
+
+  // The server rejects times earlier than the current time of the instance,
+  // which may have moved on since it was read.
+  private async setInstanceTime(time: bigint): Promise<void> {
+    const currentTime = await this.getInstanceTime();
+
+    await this.client.setCertifiedTime({
+      nanosSinceEpoch: time > currentTime ? time : currentTime,
+    });
+  }
+}
+
+function toNanos(millis: number): bigint {
+  return BigInt(Math.round(millis * Number(NANOS_PER_MILLISECOND)));
+}
+
+function toMillis(nanos: bigint): number {
+  return Number(nanos / NANOS_PER_MILLISECOND);
+}
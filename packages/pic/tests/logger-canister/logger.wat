@@ -0,0 +1,20 @@
+;; A canister that writes the binary argument of its `log` update method
+;; to its canister log, so that tests can control the content of the log.
+;;
+;; Rebuild `logger.wasm` from the repository root after changing this file:
+;;   pnpm exec wat2wasm packages/pic/tests/logger-canister/logger.wat \
+;;     -o packages/pic/tests/logger-canister/logger.wasm
+(module
+  (import "ic0" "msg_arg_data_size" (func $msg_arg_data_size (result i32)))
+  (import "ic0" "msg_arg_data_copy" (func $msg_arg_data_copy (param i32 i32 i32)))
+  (import "ic0" "debug_print" (func $debug_print (param i32 i32)))
+  (import "ic0" "msg_reply" (func $msg_reply))
+
+  (memory (export "memory") 1)
+
+  (func $log (export "canister_update log")
+    (local $size i32)
+    (local.set $size (call $msg_arg_data_size))
+    (call $msg_arg_data_copy (i32.const 0) (i32.const 0) (local.get $size))
+    (call $debug_print (i32.const 0) (local.get $size))
+    (call $msg_reply)))
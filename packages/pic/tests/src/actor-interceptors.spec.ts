@@ -0,0 +1,87 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import { ActorInterceptor, ActorMethod } from '../../src';
+import { createActorClass } from '../../src/pocket-ic-actor';
+import { createDeferredActorClass } from '../../src/pocket-ic-deferred-actor';
+import { createSenderRecordingClient } from './util';
+
+interface GreetService {
+  greet: ActorMethod<[string], undefined>;
+}
+
+const idlFactory: IDL.InterfaceFactory = ({ IDL }) =>
+  IDL.Service({
+    greet: IDL.Func([IDL.Text], [], []),
+  });
+
+const canisterId = Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+
+describe('actor interceptors', () => {
+  it('should run interceptors for actor calls', async () => {
+    const { client } = createSenderRecordingClient();
+    const interceptor = {
+      onBeforeCall: jest.fn(),
+      onAfterCall: jest.fn(),
+    } satisfies ActorInterceptor;
+    const Actor = createActorClass<GreetService>(
+      idlFactory,
+      canisterId,
+      client,
+      () => [interceptor],
+    );
+    const actor = new Actor();
+
+    await actor.greet('Alice');
+
+    expect(interceptor.onBeforeCall).toHaveBeenCalledWith({
+      canisterId,
+      method: 'greet',
+      args: ['Alice'],
+      sender: Principal.anonymous(),
+    });
+    expect(interceptor.onAfterCall).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'greet', result: null }),
+    );
+  });
+
+  it('should keep interceptors for sender views', async () => {
+    const { client } = createSenderRecordingClient();
+    const sender = Principal.fromText('aaaaa-aa');
+    const interceptor = { onBeforeCall: jest.fn() } satisfies ActorInterceptor;
+    const Actor = createActorClass<GreetService>(
+      idlFactory,
+      canisterId,
+      client,
+      () => [interceptor],
+    );
+    const actor = new Actor();
+
+    await actor.as(sender).greet('Alice');
+
+    expect(interceptor.onBeforeCall).toHaveBeenCalledWith(
+      expect.objectContaining({ sender }),
+    );
+  });
+
+  it('should run interceptors for deferred actor calls', async () => {
+    const { client } = createSenderRecordingClient();
+    const interceptor = {
+      onBeforeCall: jest.fn(),
+      onAfterCall: jest.fn(),
+    } satisfies ActorInterceptor;
+    const DeferredActor = createDeferredActorClass<GreetService>(
+      idlFactory,
+      canisterId,
+      client,
+      () => [interceptor],
+    );
+    const actor = new DeferredActor();
+
+    const executeGreet = await actor.greet('Alice');
+    expect(interceptor.onBeforeCall).toHaveBeenCalledTimes(1);
+    expect(interceptor.onAfterCall).not.toHaveBeenCalled();
+
+    await executeGreet();
+    expect(interceptor.onAfterCall).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,73 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import { ActorMethod, generateRandomIdentity } from '../../src';
+import { createActorClass } from '../../src/pocket-ic-actor';
+import { createDeferredActorClass } from '../../src/pocket-ic-deferred-actor';
+import { createSenderRecordingClient } from './util';
+
+interface GreetService {
+  greet: ActorMethod<[], undefined>;
+  whoami: ActorMethod<[], undefined>;
+}
+
+const idlFactory: IDL.InterfaceFactory = ({ IDL }) =>
+  IDL.Service({
+    greet: IDL.Func([], [], []),
+    whoami: IDL.Func([], [], ['query']),
+  });
+
+const canisterId = Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+
+describe('Actor.as', () => {
+  it('should send calls as the given identity or principal', async () => {
+    const { client, senders } = createSenderRecordingClient();
+    const Actor = createActorClass<GreetService>(
+      idlFactory,
+      canisterId,
+      client,
+    );
+    const actor = new Actor();
+    const alice = generateRandomIdentity();
+    const bob = generateRandomIdentity().getPrincipal();
+
+    await Promise.all([actor.as(alice).greet(), actor.as(bob).whoami()]);
+
+    expect(senders).toEqual([alice.getPrincipal(), bob]);
+  });
+
+  it('should not affect the sender of the original actor', async () => {
+    const { client, senders } = createSenderRecordingClient();
+    const Actor = createActorClass<GreetService>(
+      idlFactory,
+      canisterId,
+      client,
+    );
+    const actor = new Actor();
+    const alice = generateRandomIdentity();
+
+    const view = actor.as(alice);
+    view.setPrincipal(generateRandomIdentity().getPrincipal());
+    await actor.greet();
+
+    expect(senders).toEqual([Principal.anonymous()]);
+  });
+});
+
+describe('DeferredActor.as', () => {
+  it('should submit calls as the given identity', async () => {
+    const { client, senders } = createSenderRecordingClient();
+    const DeferredActor = createDeferredActorClass<GreetService>(
+      idlFactory,
+      canisterId,
+      client,
+    );
+    const actor = new DeferredActor();
+    const alice = generateRandomIdentity();
+
+    const executeGreet = await actor.as(alice).greet();
+    await executeGreet();
+    await actor.greet();
+
+    expect(senders).toEqual([alice.getPrincipal(), Principal.anonymous()]);
+  });
+});
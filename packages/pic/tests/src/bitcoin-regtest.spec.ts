@@ -0,0 +1,280 @@
+import { Socket, connect } from 'node:net';
+import { BitcoinRegtest } from '../../src';
+import {
+  BitcoinMessage,
+  BitcoinTransactionData,
+  REGTEST_GENESIS_HEADER,
+  addressToScriptPubKey,
+  bitcoinBlockHash,
+  bitcoinTxid,
+  decodeBitcoinBlockHeader,
+  decodeBitcoinMessage,
+  decodeInventoryPayload,
+  encodeBitcoinMessage,
+  encodeBitcoinTransaction,
+  encodeInventoryPayload,
+  encodeVersionPayload,
+  hashToHex,
+  hexToHash,
+  scriptPubKeyToAddress,
+} from '../../src/util/bitcoin';
+
+const MINER_ADDRESS = 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080';
+const RECIPIENT_ADDRESS = scriptPubKeyToAddress(
+  new Uint8Array([0x00, 0x20, ...new Uint8Array(32).fill(3)]),
+)!;
+
+class FakeAdapter {
+  private readonly received: BitcoinMessage[] = [];
+  private stream = Buffer.alloc(0);
+
+  private constructor(private readonly socket: Socket) {
+    this.socket.on('data', (data: Buffer) => {
+      this.stream = Buffer.concat([this.stream, data]);
+      let decoded = decodeBitcoinMessage(this.stream);
+      while (decoded !== null) {
+        this.stream = this.stream.subarray(decoded.size);
+        this.received.push(decoded.message);
+        decoded = decodeBitcoinMessage(this.stream);
+      }
+    });
+  }
+
+  public static async connect(address: string): Promise<FakeAdapter> {
+    const [host, port] = address.split(':');
+    const socket = connect(Number(port), host);
+    await new Promise<void>(resolve => socket.once('connect', resolve));
+
+    return new FakeAdapter(socket);
+  }
+
+  public send(command: string, payload: Uint8Array = new Uint8Array()): void {
+    this.socket.write(encodeBitcoinMessage({ command, payload }));
+  }
+
+  public async receive(command: string): Promise<Uint8Array> {
+    for (let i = 0; i < 100; i++) {
+      const index = this.received.findIndex(
+        message => message.command === command,
+      );
+      if (index !== -1) {
+        return this.received.splice(index, 1)[0].payload;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    throw new Error(`Did not receive a ${command} message`);
+  }
+
+  public close(): void {
+    this.socket.destroy();
+  }
+}
+
+function encodeGetHeadersPayload(locator: Uint8Array[]): Uint8Array {
+  return new Uint8Array([
+    ...[0x7f, 0x11, 0x01, 0x00],
+    locator.length,
+    ...locator.flatMap(hash => [...hash]),
+    ...new Uint8Array(32),
+  ]);
+}
+
+function decodeHeadersPayload(payload: Uint8Array): string[] {
+  const hashes: string[] = [];
+  for (let i = 0; i < payload[0]; i++) {
+    const offset = 1 + i * 81;
+    hashes.push(
+      hashToHex(
+        bitcoinBlockHash(
+          decodeBitcoinBlockHeader(payload.subarray(offset, offset + 80)),
+        ),
+      ),
+    );
+  }
+
+  return hashes;
+}
+
+describe('BitcoinRegtest', () => {
+  let regtest: BitcoinRegtest;
+  let adapter: FakeAdapter;
+
+  beforeEach(async () => {
+    regtest = await BitcoinRegtest.start();
+    adapter = await FakeAdapter.connect(regtest.getAddress());
+  });
+
+  afterEach(async () => {
+    adapter.close();
+    await regtest.stop();
+  });
+
+  it('should listen on a local socket address', () => {
+    expect(regtest.getAddress()).toMatch(/^127\.0\.0\.1:\d+$/);
+  });
+
+  it('should complete the version handshake', async () => {
+    adapter.send(
+      'version',
+      encodeVersionPayload({
+        version: 70015,
+        services: 9n,
+        nonce: 1n,
+        startHeight: 0,
+      }),
+    );
+
+    const version = await adapter.receive('version');
+    await adapter.receive('verack');
+
+    expect(
+      new DataView(version.buffer, version.byteOffset).getUint32(0, true),
+    ).toBe(70015);
+  });
+
+  it('should answer pings', async () => {
+    const nonce = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+    adapter.send('ping', nonce);
+
+    expect(await adapter.receive('pong')).toEqual(nonce);
+  });
+
+  it('should serve the headers of mined blocks', async () => {
+    const hashes = regtest.mineBlocks(3, MINER_ADDRESS);
+
+    adapter.send(
+      'getheaders',
+      encodeGetHeadersPayload([bitcoinBlockHash(REGTEST_GENESIS_HEADER)]),
+    );
+
+    expect(regtest.getTipHeight()).toBe(3);
+    expect(decodeHeadersPayload(await adapter.receive('headers'))).toEqual(
+      hashes,
+    );
+  });
+
+  it('should serve headers after the locator', async () => {
+    const hashes = regtest.mineBlocks(3, MINER_ADDRESS);
+
+    adapter.send(
+      'getheaders',
+      encodeGetHeadersPayload([hexToHash(hashes[1]), hexToHash(hashes[0])]),
+    );
+
+    expect(decodeHeadersPayload(await adapter.receive('headers'))).toEqual([
+      hashes[2],
+    ]);
+  });
+
+  it('should announce and serve mined blocks', async () => {
+    const [hash] = regtest.mineBlocks(1, MINER_ADDRESS);
+
+    const [announcement] = decodeInventoryPayload(await adapter.receive('inv'));
+    expect(hashToHex(announcement.hash)).toBe(hash);
+
+    adapter.send(
+      'getdata',
+      encodeInventoryPayload([{ type: 0x40000002, hash: announcement.hash }]),
+    );
+    const block = await adapter.receive('block');
+
+    expect(hashToHex(bitcoinBlockHash(decodeBitcoinBlockHeader(block)))).toBe(
+      hash,
+    );
+  });
+
+  it('should reply notfound for unknown blocks', async () => {
+    const inventory = [{ type: 2, hash: new Uint8Array(32).fill(7) }];
+    adapter.send('getdata', encodeInventoryPayload(inventory));
+
+    expect(decodeInventoryPayload(await adapter.receive('notfound'))).toEqual(
+      inventory,
+    );
+  });
+
+  describe('with a funded address', () => {
+    let coinbaseTxid: string;
+
+    beforeEach(() => {
+      regtest.mineBlocks(101, MINER_ADDRESS);
+      [
+        {
+          outpoint: { txid: coinbaseTxid },
+        },
+      ] = regtest.getUtxos(MINER_ADDRESS);
+    });
+
+    it('should pay the block rewards to the address', () => {
+      expect(regtest.getUtxos(MINER_ADDRESS)).toHaveLength(101);
+      expect(regtest.getBalance(MINER_ADDRESS)).toBe(101n * 5_000_000_000n);
+      expect(regtest.getBalance(RECIPIENT_ADDRESS)).toBe(0n);
+    });
+
+    it('should record sent transactions and mine them', async () => {
+      const transaction: BitcoinTransactionData = {
+        version: 2,
+        inputs: [
+          {
+            previousOutput: { txid: hexToHash(coinbaseTxid), vout: 0 },
+            scriptSig: new Uint8Array(),
+            sequence: 0xfffffffd,
+            witness: [new Uint8Array(71).fill(1), new Uint8Array(33).fill(2)],
+          },
+        ],
+        outputs: [
+          {
+            value: 1_000_000n,
+            scriptPubKey: addressToScriptPubKey(RECIPIENT_ADDRESS),
+          },
+          {
+            value: 4_998_000_000n,
+            scriptPubKey: addressToScriptPubKey(MINER_ADDRESS),
+          },
+        ],
+        lockTime: 0,
+      };
+      const txid = bitcoinTxid(transaction);
+
+      adapter.send('inv', encodeInventoryPayload([{ type: 1, hash: txid }]));
+      expect(decodeInventoryPayload(await adapter.receive('getdata'))).toEqual([
+        { type: 1, hash: txid },
+      ]);
+
+      adapter.send(
+        'tx',
+        encodeBitcoinTransaction(transaction, { witness: true }),
+      );
+      adapter.send(
+        'getdata',
+        encodeInventoryPayload([{ type: 1, hash: txid }]),
+      );
+      await adapter.receive('tx');
+
+      const [sent] = regtest.getSentTransactions();
+      expect(sent.txid).toBe(hashToHex(txid));
+      expect(sent.inputs).toEqual([{ txid: coinbaseTxid, vout: 0 }]);
+      expect(sent.outputs[0]).toEqual({
+        value: 1_000_000n,
+        scriptPubKey: addressToScriptPubKey(RECIPIENT_ADDRESS),
+        address: RECIPIENT_ADDRESS,
+      });
+      expect(regtest.getBalance(RECIPIENT_ADDRESS)).toBe(0n);
+
+      regtest.mineBlocks(1, MINER_ADDRESS);
+
+      expect(regtest.getUtxos(RECIPIENT_ADDRESS)).toEqual([
+        {
+          outpoint: { txid: hashToHex(txid), vout: 0 },
+          value: 1_000_000n,
+          height: 102,
+        },
+      ]);
+      expect(regtest.getBalance(MINER_ADDRESS)).toBe(
+        102n * 5_000_000_000n - 2_000_000n,
+      );
+      expect(regtest.getSentTransactions()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import { BitcoinUtxo, PocketIc } from '../../src';
+import { hashToHex } from '../../src/util';
+
+const MINER_ADDRESS = 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080';
+// The Bitcoin canister charges fees for balance and UTXO requests,
+// the unused cycles are refunded.
+const REQUEST_CYCLES = 10_000_000_000n;
+
+const BitcoinNetwork = IDL.Variant({
+  mainnet: IDL.Null,
+  testnet: IDL.Null,
+  regtest: IDL.Null,
+});
+
+const GetBalanceArgs = IDL.Record({
+  address: IDL.Text,
+  network: BitcoinNetwork,
+  min_confirmations: IDL.Opt(IDL.Nat32),
+});
+
+const GetUtxosArgs = IDL.Record({
+  address: IDL.Text,
+  network: BitcoinNetwork,
+  filter: IDL.Opt(
+    IDL.Variant({ min_confirmations: IDL.Nat32, page: IDL.Vec(IDL.Nat8) }),
+  ),
+});
+
+const GetUtxosResult = IDL.Record({
+  utxos: IDL.Vec(
+    IDL.Record({
+      outpoint: IDL.Record({ txid: IDL.Vec(IDL.Nat8), vout: IDL.Nat32 }),
+      value: IDL.Nat64,
+      height: IDL.Nat32,
+    }),
+  ),
+  tip_block_hash: IDL.Vec(IDL.Nat8),
+  tip_height: IDL.Nat32,
+  next_page: IDL.Opt(IDL.Vec(IDL.Nat8)),
+});
+
+interface GetUtxosResult {
+  utxos: {
+    outpoint: { txid: Uint8Array; vout: number };
+    value: bigint;
+    height: number;
+  }[];
+  tip_height: number;
+}
+
+function byHeight(a: BitcoinUtxo, b: BitcoinUtxo): number {
+  return a.height - b.height;
+}
+
+describe('Bitcoin regtest network', () => {
+  let pic: PocketIc;
+
+  beforeEach(async () => {
+    pic = await PocketIc.create(process.env.PIC_URL, { bitcoinRegtest: true });
+  });
+
+  afterEach(async () => {
+    await pic.tearDown();
+  });
+
+  async function getBalance(address: string): Promise<bigint> {
+    const { body } = await pic.updateCall({
+      canisterId: Principal.managementCanister(),
+      method: 'bitcoin_get_balance',
+      arg: IDL.encode(
+        [GetBalanceArgs],
+        [{ address, network: { regtest: null }, min_confirmations: [] }],
+      ),
+      cycles: REQUEST_CYCLES,
+    });
+
+    const [balance] = IDL.decode([IDL.Nat64], body);
+    return balance as bigint;
+  }
+
+  async function getUtxos(address: string): Promise<GetUtxosResult> {
+    const { body } = await pic.updateCall({
+      canisterId: Principal.managementCanister(),
+      method: 'bitcoin_get_utxos',
+      arg: IDL.encode(
+        [GetUtxosArgs],
+        [{ address, network: { regtest: null }, filter: [] }],
+      ),
+      cycles: REQUEST_CYCLES,
+    });
+
+    const [result] = IDL.decode([GetUtxosResult], body);
+    return result as unknown as GetUtxosResult;
+  }
+
+  it('should sync mined blocks to the Bitcoin canister', async () => {
+    pic.bitcoin.mineBlocks(3, MINER_ADDRESS);
+
+    await pic.tickUntil(
+      async () => (await getUtxos(MINER_ADDRESS)).tip_height === 3,
+      { maxTicks: 500 },
+    );
+
+    const { utxos } = await getUtxos(MINER_ADDRESS);
+    expect(
+      utxos
+        .map(({ outpoint, value, height }) => ({
+          outpoint: { txid: hashToHex(outpoint.txid), vout: outpoint.vout },
+          value,
+          height,
+        }))
+        .sort(byHeight),
+    ).toEqual(pic.bitcoin.getUtxos(MINER_ADDRESS).sort(byHeight));
+    expect(await getBalance(MINER_ADDRESS)).toBe(
+      pic.bitcoin.getBalance(MINER_ADDRESS),
+    );
+    expect(await getBalance(MINER_ADDRESS)).toBeGreaterThan(0n);
+  });
+});
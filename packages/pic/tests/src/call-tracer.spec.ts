@@ -0,0 +1,173 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import { CallTracer, CanisterRejectError, RejectCode } from '../../src';
+
+const canisterId = Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+const sender = Principal.anonymous();
+const startedAt = new Date('2026-01-01T00:00:00.000Z');
+const instanceTime = Date.parse('2026-01-01T00:00:01.000Z');
+
+const idlFactory: IDL.InterfaceFactory = ({ IDL }) =>
+  IDL.Service({
+    greet: IDL.Func([IDL.Text], [IDL.Text], []),
+  });
+
+function createTracer(
+  interfaceFactory: IDL.InterfaceFactory | null = idlFactory,
+): CallTracer {
+  return new CallTracer(
+    () => interfaceFactory ?? undefined,
+    async () => instanceTime,
+  );
+}
+
+function greetRequest() {
+  return {
+    canisterId,
+    sender,
+    method: 'greet',
+    payload: new Uint8Array(IDL.encode([IDL.Text], ['Alice'])),
+  };
+}
+
+function greetResponse() {
+  return {
+    body: new Uint8Array(IDL.encode([IDL.Text], ['Hello, Alice!'])),
+  };
+}
+
+describe('CallTracer', () => {
+  it('should decode calls to canisters with a known interface', async () => {
+    const tracer = createTracer();
+
+    await tracer.observer({
+      kind: 'update',
+      request: greetRequest(),
+      startedAt,
+      durationMs: 5,
+      response: greetResponse(),
+    });
+
+    expect(tracer.entries).toEqual([
+      {
+        kind: 'update',
+        sender,
+        canisterId,
+        method: 'greet',
+        args: ['Alice'],
+        reply: ['Hello, Alice!'],
+        startedAt,
+        durationMs: 5,
+        instanceTime,
+      },
+    ]);
+  });
+
+  it('should keep raw payloads for canisters with an unknown interface', async () => {
+    const tracer = createTracer(null);
+    const request = greetRequest();
+    const response = greetResponse();
+
+    await tracer.observer({
+      kind: 'query',
+      request,
+      startedAt,
+      durationMs: 1,
+      response,
+    });
+
+    expect(tracer.entries[0].args).toEqual(request.payload);
+    expect(tracer.entries[0].reply).toEqual(response.body);
+  });
+
+  it('should record rejects', async () => {
+    const tracer = createTracer();
+    const error = new CanisterRejectError({
+      rejectCode: RejectCode.CANISTER_ERROR,
+      errorCode: 503,
+      rejectMessage: 'Canister trapped',
+      certified: true,
+      canisterId,
+      method: 'greet',
+    });
+
+    await tracer.observer({
+      kind: 'update',
+      request: greetRequest(),
+      startedAt,
+      durationMs: 5,
+      error,
+    });
+
+    expect(tracer.entries[0].reply).toBeUndefined();
+    expect(tracer.entries[0].reject).toEqual({
+      rejectCode: RejectCode.CANISTER_ERROR,
+      errorCode: 503,
+      rejectMessage: 'Canister trapped',
+      certified: true,
+      canisterId,
+      method: 'greet',
+    });
+  });
+
+  it('should serialize entries as JSON', async () => {
+    const tracer = createTracer(null);
+
+    await tracer.observer({
+      kind: 'query',
+      request: { ...greetRequest(), payload: new Uint8Array([0xab]) },
+      startedAt,
+      durationMs: 1,
+      error: new Error('Connection refused'),
+    });
+
+    expect(JSON.parse(tracer.toJson())).toEqual([
+      {
+        kind: 'query',
+        sender: sender.toText(),
+        canisterId: canisterId.toText(),
+        method: 'greet',
+        args: 'ab',
+        error: 'Error: Connection refused',
+        startedAt: '2026-01-01T00:00:00.000Z',
+        durationMs: 1,
+        instanceTime,
+      },
+    ]);
+  });
+
+  it('should format entries as a timeline', async () => {
+    const tracer = createTracer();
+
+    await tracer.observer({
+      kind: 'update',
+      request: greetRequest(),
+      startedAt,
+      durationMs: 5,
+      response: greetResponse(),
+    });
+
+    expect(tracer.toTimeline()).toBe(
+      [
+        `[2026-01-01T00:00:00.000Z] update ${canisterId.toText()}.greet from ${sender.toText()} (5ms, instance time 2026-01-01T00:00:01.000Z)`,
+        '  args: ["Alice"]',
+        '  reply: ["Hello, Alice!"]',
+      ].join('\n'),
+    );
+  });
+
+  it('should clear recorded entries', async () => {
+    const tracer = createTracer();
+
+    await tracer.observer({
+      kind: 'update',
+      request: greetRequest(),
+      startedAt,
+      durationMs: 5,
+      response: greetResponse(),
+    });
+    tracer.clear();
+
+    expect(tracer.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { TestFixture } from './util';
+
+describe('call tracing', () => {
+  let fixture: TestFixture;
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  it('should record actor calls with decoded replies', async () => {
+    const { pic, actor, canisterId } = fixture;
+    const tracer = pic.startTracing();
+
+    const time = await actor.get_time();
+
+    expect(tracer.entries).toEqual([
+      expect.objectContaining({
+        kind: 'query',
+        canisterId,
+        method: 'get_time',
+        args: [],
+        reply: [time],
+      }),
+    ]);
+  });
+
+  it('should stop recording calls', async () => {
+    const { pic, actor } = fixture;
+    const tracer = pic.startTracing();
+
+    pic.stopTracing();
+    await actor.get_time();
+
+    expect(tracer.entries).toEqual([]);
+  });
+});
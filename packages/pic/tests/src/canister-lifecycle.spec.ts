@@ -0,0 +1,50 @@
+import { CanisterNotFoundError } from '../../src';
+import { CONTROLLER, TestFixture } from './util';
+
+describe('canister lifecycle', () => {
+  let fixture: TestFixture;
+  const sender = CONTROLLER.getPrincipal();
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  it('should uninstall code', async () => {
+    const { pic, canisterId } = fixture;
+
+    await pic.uninstallCode({ canisterId, sender });
+
+    const status = await pic.canisterStatus({ canisterId, sender });
+    expect(status.moduleHash).toBeNull();
+    await expect(fixture.actor.get_time()).rejects.toThrow();
+  });
+
+  it('should delete a canister', async () => {
+    const { pic, canisterId } = fixture;
+
+    await pic.stopCanister({ canisterId, sender });
+    await pic.deleteCanister({ canisterId, sender });
+
+    await expect(pic.canisterStatus({ canisterId, sender })).rejects.toThrow(
+      CanisterNotFoundError,
+    );
+  });
+
+  it('should not delete a running canister', async () => {
+    const { pic, canisterId } = fixture;
+
+    await expect(pic.deleteCanister({ canisterId, sender })).rejects.toThrow();
+  });
+
+  it('should not allow non-controllers to delete a canister', async () => {
+    const { pic, canisterId } = fixture;
+
+    await pic.stopCanister({ canisterId, sender });
+
+    await expect(pic.deleteCanister({ canisterId })).rejects.toThrow();
+  });
+});
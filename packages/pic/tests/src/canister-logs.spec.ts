@@ -0,0 +1,155 @@
+import { resolve } from 'node:path';
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  CanisterLogRecord,
+  decodeCanisterLogContent,
+  formatCanisterLogs,
+} from '../../src';
+import { CONTROLLER, TestFixture } from './util';
+
+const LOGGER_WASM_PATH = resolve(
+  __dirname,
+  '..',
+  'logger-canister',
+  'logger.wasm',
+);
+
+describe('canister logs', () => {
+  let fixture: TestFixture;
+  let canisterId: Principal;
+  const sender = CONTROLLER.getPrincipal();
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+
+    canisterId = await fixture.pic.createCanister({ sender });
+    await fixture.pic.installCode({
+      canisterId,
+      wasm: LOGGER_WASM_PATH,
+      sender,
+    });
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  async function log(...messages: string[]): Promise<void> {
+    for (const message of messages) {
+      await fixture.pic.updateCall({
+        canisterId,
+        method: 'log',
+        arg: new TextEncoder().encode(message),
+        sender,
+      });
+    }
+  }
+
+  function contentOf(records: CanisterLogRecord[]): string[] {
+    return records.map(decodeCanisterLogContent);
+  }
+
+  it('should fetch logs as a controller', async () => {
+    const { pic } = fixture;
+    await log('first', 'second');
+
+    const records = await pic.fetchCanisterLogs({ canisterId, sender });
+
+    expect(contentOf(records)).toEqual(['first', 'second']);
+    expect(records[1].idx).toBeGreaterThan(records[0].idx);
+    expect(records[1].timestampNanos).toBeGreaterThanOrEqual(
+      records[0].timestampNanos,
+    );
+  });
+
+  it('should timestamp logs with the instance time', async () => {
+    const { pic } = fixture;
+    await pic.advanceTime(60_000);
+    const time = await pic.getTime();
+
+    await log('first');
+
+    const [record] = await pic.fetchCanisterLogs({ canisterId, sender });
+    expect(record.timestampNanos).toBeGreaterThanOrEqual(
+      BigInt(time) * 1_000_000n,
+    );
+  });
+
+  it('should format logs as text', async () => {
+    const { pic } = fixture;
+    await log('first', 'second');
+
+    const records = await pic.fetchCanisterLogs({ canisterId, sender });
+
+    expect(formatCanisterLogs(records)).toBe(
+      [
+        `[${records[0].idx}. ${records[0].timestampNanos}]: first`,
+        `[${records[1].idx}. ${records[1].timestampNanos}]: second`,
+      ].join('\n'),
+    );
+  });
+
+  it('should filter logs by index', async () => {
+    const { pic } = fixture;
+    await log('first', 'second', 'third');
+    const records = await pic.fetchCanisterLogs({ canisterId, sender });
+
+    const filteredRecords = await pic.fetchCanisterLogs({
+      canisterId,
+      sender,
+      filter: { byIdx: { start: records[1].idx, end: records[2].idx + 1n } },
+    });
+
+    expect(contentOf(filteredRecords)).toEqual(['second', 'third']);
+  });
+
+  it('should filter logs by timestamp', async () => {
+    const { pic } = fixture;
+    await log('first');
+    await pic.advanceTime(60_000);
+    await log('second');
+    await pic.advanceTime(60_000);
+    await log('third');
+    const records = await pic.fetchCanisterLogs({ canisterId, sender });
+
+    const filteredRecords = await pic.fetchCanisterLogs({
+      canisterId,
+      sender,
+      filter: {
+        byTimestampNanos: {
+          start: records[1].timestampNanos,
+          end: records[2].timestampNanos - 1n,
+        },
+      },
+    });
+
+    expect(contentOf(filteredRecords)).toEqual(['second']);
+  });
+
+  it('should reject non-controllers when logs are visible to controllers only', async () => {
+    const { pic } = fixture;
+
+    await pic.updateCanisterSettings({
+      canisterId,
+      logVisibility: { controllers: null },
+      sender,
+    });
+
+    await expect(pic.fetchCanisterLogs({ canisterId })).rejects.toThrow();
+  });
+
+  it('should allow anyone to fetch public logs', async () => {
+    const { pic } = fixture;
+    await log('first');
+
+    await pic.updateCanisterSettings({
+      canisterId,
+      logVisibility: { public: null },
+      sender,
+    });
+
+    const records = await pic.fetchCanisterLogs({ canisterId });
+
+    expect(contentOf(records)).toEqual(['first']);
+  });
+});
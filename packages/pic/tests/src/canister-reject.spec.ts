@@ -0,0 +1,111 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { ActorMethod, CanisterRejectError, RejectCode } from '../../src';
+import { CONTROLLER, TestFixture } from './util';
+import {
+  _SERVICE as TestCanister,
+  idlFactory,
+} from '../test-canister/declarations/test_canister.did';
+
+const unknownMethodIdlFactory: IDL.InterfaceFactory = ({ IDL }) =>
+  IDL.Service({ unknown_method: IDL.Func([], [], []) });
+
+describe('canister rejects', () => {
+  let fixture: TestFixture;
+  const sender = CONTROLLER.getPrincipal();
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  it('should throw a CanisterRejectError from queryCall', async () => {
+    const { pic, canisterId } = fixture;
+
+    const error = await pic
+      .queryCall({ canisterId, method: 'unknown_method' })
+      .catch(error => error);
+
+    expect(error).toBeInstanceOf(CanisterRejectError);
+    expect(error.rejectCode).toBe(RejectCode.CANISTER_ERROR);
+    expect(error.canisterId).toEqual(canisterId);
+    expect(error.method).toBe('unknown_method');
+    expect(error.certified).toBe(false);
+  });
+
+  it('should throw a CanisterRejectError from updateCall', async () => {
+    const { pic, canisterId } = fixture;
+
+    const error = await pic
+      .updateCall({ canisterId, method: 'unknown_method' })
+      .catch(error => error);
+
+    expect(error).toBeInstanceOf(CanisterRejectError);
+    expect(error.rejectCode).toBe(RejectCode.CANISTER_ERROR);
+    expect(error.canisterId).toEqual(canisterId);
+    expect(error.method).toBe('unknown_method');
+  });
+
+  it('should throw a CanisterRejectError from actors', async () => {
+    const { pic, canisterId } = fixture;
+    await pic.uninstallCode({ canisterId, sender });
+
+    const error = await fixture.actor.get_time().catch(error => error);
+
+    expect(error).toBeInstanceOf(CanisterRejectError);
+    expect(error.canisterId).toEqual(canisterId);
+    expect(error.method).toBe('get_time');
+  });
+
+  it('should throw a CanisterRejectError from deferred actors', async () => {
+    const { pic, canisterId } = fixture;
+    const deferredActor = pic.createDeferredActor<{
+      unknown_method: ActorMethod<[], undefined>;
+    }>(unknownMethodIdlFactory, canisterId);
+
+    const executeCall = await deferredActor.unknown_method();
+    const error = await executeCall().catch(error => error);
+
+    expect(error).toBeInstanceOf(CanisterRejectError);
+    expect(error.rejectCode).toBe(RejectCode.CANISTER_ERROR);
+    expect(error.canisterId).toEqual(canisterId);
+    expect(error.method).toBe('unknown_method');
+  });
+
+  it('should return rejects as results from result actors', async () => {
+    const { pic, canisterId } = fixture;
+    const actor = pic.createActor<TestCanister>(idlFactory, canisterId, {
+      mode: 'result',
+    });
+
+    const okResult = await actor.get_time();
+    expect(okResult).toEqual({ ok: expect.any(BigInt) });
+
+    await pic.uninstallCode({ canisterId, sender });
+
+    const errResult = await actor.get_time();
+    expect(errResult).toEqual({
+      err: expect.objectContaining({ canisterId, method: 'get_time' }),
+    });
+  });
+
+  it('should return rejects as results from result deferred actors', async () => {
+    const { pic, canisterId } = fixture;
+    const deferredActor = pic.createDeferredActor<{
+      unknown_method: ActorMethod<[], undefined>;
+    }>(unknownMethodIdlFactory, canisterId, { mode: 'result' });
+
+    const executeCall = await deferredActor.unknown_method();
+    const result = await executeCall();
+
+    expect(result).toEqual({
+      err: expect.objectContaining({
+        rejectCode: RejectCode.CANISTER_ERROR,
+        canisterId,
+        method: 'unknown_method',
+      }),
+    });
+  });
+});
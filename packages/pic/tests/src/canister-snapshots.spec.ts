@@ -0,0 +1,138 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { resolve } from 'node:path';
+import { PocketIc } from '../../src';
+import { CONTROLLER, TestFixture } from './util';
+
+describe('canister snapshots', () => {
+  let fixture: TestFixture;
+  const sender = CONTROLLER.getPrincipal();
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  it('should take and list snapshots', async () => {
+    const { pic, canisterId } = fixture;
+
+    const initialSnapshots = await pic.listCanisterSnapshots({
+      canisterId,
+      sender,
+    });
+    expect(initialSnapshots).toEqual([]);
+
+    await pic.stopCanister({ canisterId, sender });
+    const snapshot = await pic.takeCanisterSnapshot({ canisterId, sender });
+    await pic.startCanister({ canisterId, sender });
+
+    const snapshots = await pic.listCanisterSnapshots({ canisterId, sender });
+    expect(snapshots).toEqual([snapshot]);
+    expect(snapshot.totalSize).toBeGreaterThan(0n);
+  });
+
+  it('should restore a canister from a snapshot', async () => {
+    const { pic, canisterId } = fixture;
+    const initialStableMemory = new Uint8Array([1, 2, 3, 4]);
+    const modifiedStableMemory = new Uint8Array([5, 6, 7, 8]);
+
+    await pic.setStableMemory(canisterId, initialStableMemory);
+
+    await pic.stopCanister({ canisterId, sender });
+    const snapshot = await pic.takeCanisterSnapshot({ canisterId, sender });
+    await pic.startCanister({ canisterId, sender });
+
+    await pic.setStableMemory(canisterId, modifiedStableMemory);
+
+    await pic.stopCanister({ canisterId, sender });
+    await pic.loadCanisterSnapshot({
+      canisterId,
+      snapshotId: snapshot.id,
+      sender,
+    });
+    await pic.startCanister({ canisterId, sender });
+
+    const stableMemory = await pic.getStableMemory(canisterId);
+    expect(stableMemory.subarray(0, initialStableMemory.byteLength)).toEqual(
+      initialStableMemory,
+    );
+
+    const time = await fixture.actor.get_time();
+    expect(time).toBeGreaterThan(0n);
+  });
+
+  it('should delete a snapshot', async () => {
+    const { pic, canisterId } = fixture;
+
+    await pic.stopCanister({ canisterId, sender });
+    const snapshot = await pic.takeCanisterSnapshot({ canisterId, sender });
+
+    await pic.deleteCanisterSnapshot({
+      canisterId,
+      snapshotId: snapshot.id,
+      sender,
+    });
+
+    const snapshots = await pic.listCanisterSnapshots({ canisterId, sender });
+    expect(snapshots).toEqual([]);
+  });
+
+  it('should download and upload a snapshot', async () => {
+    const { pic, canisterId } = fixture;
+    const snapshotDir = await mkdtemp(resolve(tmpdir(), 'pic-snapshot-'));
+    const initialStableMemory = new Uint8Array([1, 2, 3, 4]);
+
+    try {
+      await pic.setStableMemory(canisterId, initialStableMemory);
+
+      await pic.stopCanister({ canisterId, sender });
+      const snapshot = await pic.takeCanisterSnapshot({ canisterId, sender });
+      await pic.downloadCanisterSnapshot({
+        canisterId,
+        snapshotId: snapshot.id,
+        snapshotDir,
+        sender,
+      });
+      await pic.startCanister({ canisterId, sender });
+
+      const targetPic = await PocketIc.create(process.env.PIC_URL);
+      try {
+        const targetCanisterId = await targetPic.createCanister({
+          sender,
+          controllers: [sender],
+        });
+
+        const snapshotId = await targetPic.uploadCanisterSnapshot({
+          canisterId: targetCanisterId,
+          snapshotDir,
+          sender,
+        });
+        await targetPic.stopCanister({ canisterId: targetCanisterId, sender });
+        await targetPic.loadCanisterSnapshot({
+          canisterId: targetCanisterId,
+          snapshotId,
+          sender,
+        });
+
+        const status = await targetPic.canisterStatus({
+          canisterId: targetCanisterId,
+          sender,
+        });
+        const sourceStatus = await pic.canisterStatus({ canisterId, sender });
+        expect(status.moduleHash).toEqual(sourceStatus.moduleHash);
+
+        const stableMemory = await targetPic.getStableMemory(targetCanisterId);
+        expect(
+          stableMemory.subarray(0, initialStableMemory.byteLength),
+        ).toEqual(initialStableMemory);
+      } finally {
+        await targetPic.tearDown();
+      }
+    } finally {
+      await rm(snapshotDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  readdir,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { resolve } from 'node:path';
+import { PocketIcClient } from '../../src/pocket-ic-client';
+import {
+  CONTROLLER,
+  TestFixture,
+  createFakeClient,
+  createPocketIc,
+} from './util';
+
+describe('checkpoints', () => {
+  let tmpDir: string;
+  let fixture: TestFixture;
+  const sender = CONTROLLER.getPrincipal();
+  const initialStableMemory = new Uint8Array([1, 2, 3, 4]);
+  const modifiedStableMemory = new Uint8Array([5, 6, 7, 8]);
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(resolve(tmpdir(), 'pic-state-'));
+    fixture = await TestFixture.create({
+      stateDir: resolve(tmpDir, 'state'),
+    });
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should restore canisters from a checkpoint', async () => {
+    const { pic, actor, canisterId } = fixture;
+    await pic.setStableMemory(canisterId, initialStableMemory);
+
+    const checkpoint = await pic.checkpoint();
+    await pic.setStableMemory(canisterId, modifiedStableMemory);
+    await pic.restore(checkpoint);
+    await pic.discard(checkpoint);
+
+    const stableMemory = await pic.getStableMemory(canisterId);
+    expect(stableMemory.subarray(0, initialStableMemory.byteLength)).toEqual(
+      initialStableMemory,
+    );
+    expect(await actor.get_time()).toBeGreaterThan(0n);
+  });
+
+  it('should restore a checkpoint more than once', async () => {
+    const { pic, canisterId } = fixture;
+    await pic.setStableMemory(canisterId, initialStableMemory);
+    const checkpoint = await pic.checkpoint();
+
+    for (let i = 0; i < 2; i++) {
+      await pic.setStableMemory(canisterId, modifiedStableMemory);
+      await pic.restore(checkpoint);
+
+      const stableMemory = await pic.getStableMemory(canisterId);
+      expect(stableMemory.subarray(0, initialStableMemory.byteLength)).toEqual(
+        initialStableMemory,
+      );
+    }
+
+    await pic.discard(checkpoint);
+  });
+
+  it('should remove canisters that were created after the checkpoint', async () => {
+    const { pic } = fixture;
+    const checkpoint = await pic.checkpoint();
+    const canisterId = await pic.createCanister({ sender });
+
+    await pic.restore(checkpoint);
+    await pic.discard(checkpoint);
+
+    await expect(pic.canisterStatus({ canisterId, sender })).rejects.toThrow();
+  });
+
+  it('should restore the time of the instance', async () => {
+    const { pic } = fixture;
+    const time = await pic.getTime();
+    const checkpoint = await pic.checkpoint();
+
+    await pic.advanceTime(60_000);
+    await pic.restore(checkpoint);
+    await pic.discard(checkpoint);
+
+    expect(await pic.getTime()).toBeLessThan(time + 60_000);
+  });
+
+  it('should keep using the proxy canister of the checkpoint', async () => {
+    const { pic } = fixture;
+    await pic.rawRand();
+    const checkpoint = await pic.checkpoint();
+    const canisterId = await pic.createCanister({ sender });
+
+    await pic.restore(checkpoint);
+    await pic.discard(checkpoint);
+    await pic.rawRand();
+
+    expect(await pic.createCanister({ sender })).toEqual(canisterId);
+  });
+
+  it('should keep the instance when restoring fails', async () => {
+    const { pic, canisterId } = fixture;
+    await pic.setStableMemory(canisterId, initialStableMemory);
+
+    await expect(
+      pic.restore({
+        stateDir: resolve(tmpDir, 'missing'),
+        proxyCanisterId: null,
+      }),
+    ).rejects.toThrow();
+
+    const stableMemory = await pic.getStableMemory(canisterId);
+    expect(stableMemory.subarray(0, initialStableMemory.byteLength)).toEqual(
+      initialStableMemory,
+    );
+  });
+});
+
+describe('checkpoint and restore', () => {
+  let tmpDir: string;
+  let stateDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(resolve(tmpdir(), 'pic-state-'));
+    stateDir = resolve(tmpDir, 'state');
+    await mkdir(stateDir);
+    await writeFile(resolve(stateDir, 'topology.json'), 'current');
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  function createCheckpointClient(stateDir: string | null): {
+    client: PocketIcClient;
+    deleteInstance: jest.Mock;
+    resumeInstance: jest.Mock;
+  } {
+    const deleteInstance = jest.fn();
+    const resumeInstance = jest.fn();
+    const client = createFakeClient({
+      getStateDir: () => stateDir,
+      deleteInstance,
+      resumeInstance,
+    });
+
+    return { client, deleteInstance, resumeInstance };
+  }
+
+  it('should copy the state directory and resume the instance', async () => {
+    const { client, deleteInstance, resumeInstance } =
+      createCheckpointClient(stateDir);
+    const pic = createPocketIc(client);
+
+    const checkpoint = await pic.checkpoint();
+
+    expect(deleteInstance).toHaveBeenCalledTimes(1);
+    expect(resumeInstance).toHaveBeenCalledTimes(1);
+    expect(checkpoint.proxyCanisterId).toBeNull();
+    expect(
+      await readFile(resolve(checkpoint.stateDir, 'topology.json'), 'utf-8'),
+    ).toBe('current');
+
+    await pic.discard(checkpoint);
+    await expect(readdir(checkpoint.stateDir)).rejects.toThrow();
+  });
+
+  it('should resume the instance when copying the state directory fails', async () => {
+    const { client, resumeInstance } = createCheckpointClient(
+      resolve(tmpDir, 'missing'),
+    );
+    const pic = createPocketIc(client);
+
+    await expect(pic.checkpoint()).rejects.toThrow();
+
+    expect(resumeInstance).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace the state directory with the checkpoint', async () => {
+    const { client, deleteInstance, resumeInstance } =
+      createCheckpointClient(stateDir);
+    const pic = createPocketIc(client);
+    const checkpointDir = resolve(tmpDir, 'checkpoint');
+    await mkdir(checkpointDir);
+    await writeFile(resolve(checkpointDir, 'topology.json'), 'checkpoint');
+
+    await pic.restore({ stateDir: checkpointDir, proxyCanisterId: null });
+
+    expect(deleteInstance).toHaveBeenCalledTimes(1);
+    expect(resumeInstance).toHaveBeenCalledTimes(1);
+    expect(await readFile(resolve(stateDir, 'topology.json'), 'utf-8')).toBe(
+      'checkpoint',
+    );
+    expect((await readdir(tmpDir)).sort()).toEqual(['checkpoint', 'state']);
+  });
+
+  it('should keep the state directory when the checkpoint is missing', async () => {
+    const { client, deleteInstance } = createCheckpointClient(stateDir);
+    const pic = createPocketIc(client);
+
+    await expect(
+      pic.restore({
+        stateDir: resolve(tmpDir, 'missing'),
+        proxyCanisterId: null,
+      }),
+    ).rejects.toThrow();
+
+    expect(deleteInstance).not.toHaveBeenCalled();
+    expect(await readFile(resolve(stateDir, 'topology.json'), 'utf-8')).toBe(
+      'current',
+    );
+    expect(await readdir(tmpDir)).toEqual(['state']);
+  });
+
+  it('should throw without a state directory', async () => {
+    const { client, deleteInstance } = createCheckpointClient(null);
+    const pic = createPocketIc(client);
+
+    await expect(pic.checkpoint()).rejects.toThrow(
+      'The stateDir option is required to checkpoint a PocketIC instance.',
+    );
+    await expect(
+      pic.restore({ stateDir: tmpDir, proxyCanisterId: null }),
+    ).rejects.toThrow(
+      'The stateDir option is required to checkpoint a PocketIC instance.',
+    );
+    expect(deleteInstance).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import { CanisterRejectError } from '../../src';
+import { CONTROLLER, TestFixture } from './util';
+
+describe('calls with cycles', () => {
+  let fixture: TestFixture;
+  const sender = CONTROLLER.getPrincipal();
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  it('should attach cycles to an update call', async () => {
+    const { pic, canisterId } = fixture;
+    const cycles = 1_000_000_000n;
+
+    const before = await pic.canisterStatus({ canisterId, sender });
+    const { body, cyclesRefunded } = await pic.updateCall({
+      canisterId: Principal.managementCanister(),
+      method: 'deposit_cycles',
+      arg: IDL.encode(
+        [IDL.Record({ canister_id: IDL.Principal })],
+        [{ canister_id: canisterId }],
+      ),
+      cycles,
+    });
+    const after = await pic.canisterStatus({ canisterId, sender });
+
+    expect(IDL.decode([], body)).toEqual([]);
+    expect(cyclesRefunded).toBe(0n);
+    expect(after.cycles).toBeGreaterThan(before.cycles);
+  });
+
+  it('should report the refunded cycles of an actor call', async () => {
+    const { actor } = fixture;
+    const cycles = 1_000_000n;
+
+    const { result, cyclesRefunded } = await actor
+      .withCycles(cycles)
+      .get_time();
+
+    expect(result).toBeGreaterThan(0n);
+    expect(cyclesRefunded).toBe(cycles);
+  });
+
+  it('should throw when the proxied call is rejected', async () => {
+    const { pic, canisterId } = fixture;
+
+    await expect(
+      pic.updateCall({ canisterId, method: 'does_not_exist', cycles: 1n }),
+    ).rejects.toThrow(CanisterRejectError);
+  });
+});
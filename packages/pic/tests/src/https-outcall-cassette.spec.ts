@@ -0,0 +1,138 @@
+import { Principal } from '@icp-sdk/core/principal';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { Server, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { resolve } from 'node:path';
+import {
+  CanisterHttpMethod,
+  HttpsOutcallCassette,
+  HttpsOutcallCassetteMissError,
+  PendingHttpsOutcall,
+} from '../../src';
+
+function createOutcall(
+  overrides: Partial<PendingHttpsOutcall> = {},
+): PendingHttpsOutcall {
+  return {
+    subnetId: Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai'),
+    requestId: 0,
+    httpMethod: CanisterHttpMethod.GET,
+    url: 'https://api.example.com/prices?coin=ICP',
+    headers: [],
+    body: new Uint8Array(),
+    ...overrides,
+  };
+}
+
+describe('HttpsOutcallCassette', () => {
+  let server: Server;
+  let forwardUrl: string;
+  let cassetteDir: string;
+  let cassettePath: string;
+  let requestCount: number;
+
+  beforeEach(async () => {
+    requestCount = 0;
+    server = createServer((req, res) => {
+      requestCount++;
+      res.setHeader('content-type', 'text/plain');
+      res.end(`${req.method} ${req.url} #${requestCount}`);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    forwardUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    cassetteDir = await mkdtemp(resolve(tmpdir(), 'pic-cassette-'));
+    cassettePath = resolve(cassetteDir, 'cassettes', 'prices.json');
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await rm(cassetteDir, { recursive: true, force: true });
+  });
+
+  async function record(outcalls: PendingHttpsOutcall[]): Promise<void> {
+    const cassette = await HttpsOutcallCassette.load({
+      path: cassettePath,
+      mode: 'record',
+      forwardUrl,
+    });
+
+    for (const outcall of outcalls) {
+      await cassette.handler(outcall);
+    }
+
+    await cassette.save();
+  }
+
+  it('should forward outcalls to the forward url while recording', async () => {
+    const cassette = await HttpsOutcallCassette.load({
+      path: cassettePath,
+      mode: 'record',
+      forwardUrl,
+    });
+
+    const response = await cassette.handler(createOutcall());
+
+    expect(response).toEqual({
+      type: 'success',
+      statusCode: 200,
+      headers: expect.arrayContaining([['content-type', 'text/plain']]),
+      body: new TextEncoder().encode('GET /prices?coin=ICP #1'),
+    });
+  });
+
+  it('should replay recorded responses without forwarding', async () => {
+    await record([createOutcall(), createOutcall({ requestId: 1 })]);
+    const cassette = await HttpsOutcallCassette.load({
+      path: cassettePath,
+      mode: 'replay',
+    });
+
+    const first = await cassette.handler(createOutcall({ requestId: 2 }));
+    const second = await cassette.handler(createOutcall({ requestId: 3 }));
+
+    expect(requestCount).toBe(2);
+    expect(first).toMatchObject({
+      body: new TextEncoder().encode('GET /prices?coin=ICP #1'),
+    });
+    expect(second).toMatchObject({
+      body: new TextEncoder().encode('GET /prices?coin=ICP #2'),
+    });
+  });
+
+  it('should throw for a request that was not recorded', async () => {
+    await record([createOutcall()]);
+    const cassette = await HttpsOutcallCassette.load({
+      path: cassettePath,
+      mode: 'replay',
+    });
+    const outcall = createOutcall({
+      url: 'https://api.example.com/prices?coin=BTC',
+    });
+
+    const error = await Promise.resolve(cassette.handler(outcall)).catch(
+      error => error,
+    );
+
+    expect(error).toBeInstanceOf(HttpsOutcallCassetteMissError);
+    expect(error.outcall).toBe(outcall);
+    expect(error.message).toBe(
+      `The HTTPS outcall cassette at ${cassettePath} has no recorded response for the GET request to https://api.example.com/prices?coin=BTC with body SHA-256 e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855. Record the cassette again to include this request.`,
+    );
+  });
+
+  it('should throw once the recorded responses are used up', async () => {
+    await record([createOutcall()]);
+    const cassette = await HttpsOutcallCassette.load({
+      path: cassettePath,
+      mode: 'replay',
+    });
+
+    await cassette.handler(createOutcall());
+
+    await expect(
+      Promise.resolve(cassette.handler(createOutcall())),
+    ).rejects.toThrow(HttpsOutcallCassetteMissError);
+  });
+});
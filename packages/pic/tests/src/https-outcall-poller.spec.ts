@@ -0,0 +1,121 @@
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  CanisterHttpMethod,
+  HttpsOutcallHandler,
+  MockPendingHttpsOutcallOptions,
+  PendingHttpsOutcall,
+  RejectCode,
+} from '../../src';
+import { HttpsOutcallPoller } from '../../src/https-outcall-poller';
+import { PocketIcClient } from '../../src/pocket-ic-client';
+import { createFakeClient } from './util';
+
+const subnetId = Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+
+function createOutcall(requestId: number): PendingHttpsOutcall {
+  return {
+    subnetId,
+    requestId,
+    httpMethod: CanisterHttpMethod.GET,
+    url: 'https://example.com/prices',
+    headers: [],
+    body: new Uint8Array(),
+  };
+}
+
+function createOutcallClient(pending: PendingHttpsOutcall[]): {
+  client: PocketIcClient;
+  mocked: MockPendingHttpsOutcallOptions[];
+} {
+  const mocked: MockPendingHttpsOutcallOptions[] = [];
+
+  const client = createFakeClient({
+    async getPendingHttpsOutcalls() {
+      return [...pending];
+    },
+    async mockPendingHttpsOutcall(req: MockPendingHttpsOutcallOptions) {
+      mocked.push(req);
+      pending.splice(
+        pending.findIndex(({ requestId }) => requestId === req.requestId),
+        1,
+      );
+    },
+  });
+
+  return { client: client, mocked };
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise(resolve => {
+    const interval = setInterval(() => {
+      if (condition()) {
+        clearInterval(interval);
+        resolve();
+      }
+    }, 1);
+  });
+}
+
+describe('HttpsOutcallPoller', () => {
+  it('should answer pending outcalls with the handler', async () => {
+    const pending = [createOutcall(0), createOutcall(1)];
+    const { client, mocked } = createOutcallClient(pending);
+    const handler: HttpsOutcallHandler = outcall => ({
+      type: 'success',
+      statusCode: 200,
+      headers: [],
+      body: new TextEncoder().encode(`${outcall.requestId}`),
+    });
+    const poller = new HttpsOutcallPoller(client, handler, 1);
+
+    poller.start();
+    await waitFor(() => mocked.length === 2);
+    await poller.stop();
+
+    expect(pending).toEqual([]);
+    expect(mocked.map(({ requestId }) => requestId)).toEqual([0, 1]);
+  });
+
+  it('should reject outcalls when the handler throws', async () => {
+    const { client, mocked } = createOutcallClient([createOutcall(0)]);
+    const poller = new HttpsOutcallPoller(
+      client,
+      () => {
+        throw new Error('Server unavailable');
+      },
+      1,
+    );
+
+    poller.start();
+    await waitFor(() => mocked.length === 1);
+    await poller.stop();
+
+    expect(mocked[0].response).toEqual({
+      type: 'reject',
+      statusCode: RejectCode.SYS_TRANSIENT,
+      message: 'Server unavailable',
+    });
+  });
+
+  it('should stop polling once stopped', async () => {
+    const pending: PendingHttpsOutcall[] = [];
+    const { client, mocked } = createOutcallClient(pending);
+    const poller = new HttpsOutcallPoller(
+      client,
+      () => ({
+        type: 'success',
+        statusCode: 200,
+        headers: [],
+        body: new Uint8Array(),
+      }),
+      1,
+    );
+
+    poller.start();
+    await poller.stop();
+    pending.push(createOutcall(0));
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(mocked).toEqual([]);
+  });
+});
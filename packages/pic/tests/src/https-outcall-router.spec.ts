@@ -0,0 +1,212 @@
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  CanisterHttpMethod,
+  HttpsOutcallResponseMock,
+  HttpsOutcallRouter,
+  MaxTicksExceededError,
+  MockPendingHttpsOutcallOptions,
+  PendingHttpsOutcall,
+  UnmatchedHttpsOutcallError,
+} from '../../src';
+import { PocketIcClient } from '../../src/pocket-ic-client';
+import { createFakeClient } from './util';
+
+const subnetId = Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+
+function createOutcall(
+  requestId: number,
+  overrides: Partial<PendingHttpsOutcall> = {},
+): PendingHttpsOutcall {
+  return {
+    subnetId,
+    requestId,
+    httpMethod: CanisterHttpMethod.GET,
+    url: 'https://example.com/prices',
+    headers: [['Accept', 'application/json']],
+    body: new Uint8Array(),
+    ...overrides,
+  };
+}
+
+function createResponse(body: string): HttpsOutcallResponseMock {
+  return {
+    type: 'success',
+    statusCode: 200,
+    headers: [],
+    body: new TextEncoder().encode(body),
+  };
+}
+
+// Each entry of the schedule lists the outcalls that become pending
+// on the tick with the same index.
+function createOutcallClient(schedule: PendingHttpsOutcall[][]): {
+  client: PocketIcClient;
+  mocked: MockPendingHttpsOutcallOptions[];
+  getTicks: () => number;
+} {
+  const mocked: MockPendingHttpsOutcallOptions[] = [];
+  let pending: PendingHttpsOutcall[] = [];
+  let ticks = 0;
+
+  const client = createFakeClient({
+    async tick() {
+      pending.push(...(schedule[ticks] ?? []));
+      ticks++;
+      return {};
+    },
+    async getPendingHttpsOutcalls() {
+      return [...pending];
+    },
+    async mockPendingHttpsOutcall(req: MockPendingHttpsOutcallOptions) {
+      mocked.push(req);
+      pending = pending.filter(({ requestId }) => requestId !== req.requestId);
+    },
+  });
+
+  return {
+    client: client,
+    mocked,
+    getTicks: () => ticks,
+  };
+}
+
+describe('HttpsOutcallRouter', () => {
+  describe('findHandler', () => {
+    const router = new HttpsOutcallRouter(createOutcallClient([]).client);
+    const handler = () => createResponse('');
+
+    afterEach(() => {
+      router.clear();
+    });
+
+    it('should match a string url exactly', () => {
+      router.on(
+        { method: CanisterHttpMethod.GET, url: 'https://example.com/prices' },
+        handler,
+      );
+
+      expect(router.findHandler(createOutcall(0))).toBe(handler);
+      expect(
+        router.findHandler(
+          createOutcall(0, { url: 'https://example.com/prices?coin=ICP' }),
+        ),
+      ).toBeUndefined();
+    });
+
+    it('should match a regular expression url', () => {
+      router.on(
+        { method: CanisterHttpMethod.GET, url: /^https:\/\/example\.com\//g },
+        handler,
+      );
+
+      expect(router.findHandler(createOutcall(0))).toBe(handler);
+      expect(router.findHandler(createOutcall(1))).toBe(handler);
+    });
+
+    it('should match the method', () => {
+      router.on(
+        { method: CanisterHttpMethod.POST, url: 'https://example.com/prices' },
+        handler,
+      );
+
+      expect(router.findHandler(createOutcall(0))).toBeUndefined();
+      expect(
+        router.findHandler(
+          createOutcall(0, { httpMethod: CanisterHttpMethod.POST }),
+        ),
+      ).toBe(handler);
+    });
+
+    it('should match header names case-insensitively', () => {
+      router.on(
+        {
+          method: CanisterHttpMethod.GET,
+          url: 'https://example.com/prices',
+          headers: [['accept', 'application/json']],
+        },
+        handler,
+      );
+
+      expect(router.findHandler(createOutcall(0))).toBe(handler);
+      expect(
+        router.findHandler(
+          createOutcall(0, { headers: [['Accept', 'text/html']] }),
+        ),
+      ).toBeUndefined();
+    });
+
+    it('should prefer the handler registered first', () => {
+      const otherHandler = () => createResponse('other');
+      router
+        .on({ method: CanisterHttpMethod.GET, url: /prices/ }, handler)
+        .on({ method: CanisterHttpMethod.GET, url: /prices/ }, otherHandler);
+
+      expect(router.findHandler(createOutcall(0))).toBe(handler);
+    });
+  });
+
+  describe('flush', () => {
+    it('should answer outcalls until none remain', async () => {
+      const { client, mocked, getTicks } = createOutcallClient([
+        [],
+        [createOutcall(0)],
+        [],
+        [createOutcall(1, { url: 'https://example.com/volume' })],
+      ]);
+      const router = new HttpsOutcallRouter(client).on(
+        { method: CanisterHttpMethod.GET, url: /^https:\/\/example\.com/ },
+        outcall => createResponse(outcall.url),
+      );
+
+      const answered = await router.flush();
+
+      expect(answered.map(({ requestId }) => requestId)).toEqual([0, 1]);
+      expect(mocked).toEqual([
+        {
+          subnetId,
+          requestId: 0,
+          response: createResponse('https://example.com/prices'),
+          additionalResponses: [],
+        },
+        {
+          subnetId,
+          requestId: 1,
+          response: createResponse('https://example.com/volume'),
+          additionalResponses: [],
+        },
+      ]);
+      expect(getTicks()).toBe(6);
+    });
+
+    it('should throw for an unmatched outcall', async () => {
+      const outcall = createOutcall(0);
+      const { client, mocked } = createOutcallClient([[outcall]]);
+      const router = new HttpsOutcallRouter(client);
+
+      const error = await router.flush().catch(error => error);
+
+      expect(error).toBeInstanceOf(UnmatchedHttpsOutcallError);
+      expect(error.outcall).toBe(outcall);
+      expect(error.message).toBe(
+        'No HTTPS outcall handler matches the pending GET request to https://example.com/prices.',
+      );
+      expect(mocked).toEqual([]);
+    });
+
+    it('should throw when outcalls keep being made', async () => {
+      const { client } = createOutcallClient(
+        Array.from({ length: 10 }, (_, requestId) => [
+          createOutcall(requestId),
+        ]),
+      );
+      const router = new HttpsOutcallRouter(client).on(
+        { method: CanisterHttpMethod.GET, url: /prices/ },
+        () => createResponse(''),
+      );
+
+      await expect(router.flush({ maxTicks: 5 })).rejects.toThrow(
+        MaxTicksExceededError,
+      );
+    });
+  });
+});
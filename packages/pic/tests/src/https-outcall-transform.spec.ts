@@ -0,0 +1,203 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  CanisterHttpMethod,
+  HttpsOutcallSuccessResponse,
+  MockPendingHttpsOutcallOptions,
+  PendingHttpsOutcall,
+} from '../../src';
+import { PocketIcClient } from '../../src/pocket-ic-client';
+import { CanisterCallRequest } from '../../src/pocket-ic-client-types';
+import { createFakeClient, createPocketIc } from './util';
+
+const subnetId = Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+const canisterId = Principal.fromText('rrkah-fqaaa-aaaaa-aaaaq-cai');
+
+const HttpRequestResult = IDL.Record({
+  status: IDL.Nat,
+  headers: IDL.Vec(IDL.Record({ name: IDL.Text, value: IDL.Text })),
+  body: IDL.Vec(IDL.Nat8),
+});
+
+const TransformArgs = IDL.Record({
+  response: HttpRequestResult,
+  context: IDL.Vec(IDL.Nat8),
+});
+
+const outcall: PendingHttpsOutcall = {
+  subnetId,
+  requestId: 0,
+  httpMethod: CanisterHttpMethod.GET,
+  url: 'https://example.com/prices',
+  headers: [],
+  body: new Uint8Array(),
+};
+
+function createResponse(replica: number): HttpsOutcallSuccessResponse {
+  return {
+    type: 'success',
+    statusCode: 200,
+    headers: [['date', `Thu, 01 Jan 2026 00:00:0${replica} GMT`]],
+    body: new TextEncoder().encode('{"price":5}'),
+  };
+}
+
+// A client whose canister implements a transform function that strips all headers.
+function createTransformClient(): {
+  client: PocketIcClient;
+  queries: CanisterCallRequest[];
+  mocked: MockPendingHttpsOutcallOptions[];
+} {
+  const queries: CanisterCallRequest[] = [];
+  const mocked: MockPendingHttpsOutcallOptions[] = [];
+
+  const client = createFakeClient({
+    async queryCall(req: CanisterCallRequest) {
+      queries.push(req);
+      const [{ response }] = IDL.decode(
+        [TransformArgs],
+        req.payload,
+      ) as unknown as [{ response: { status: bigint; body: Uint8Array } }];
+
+      return {
+        body: new Uint8Array(
+          IDL.encode([HttpRequestResult], [{ ...response, headers: [] }]),
+        ),
+      };
+    },
+    async mockPendingHttpsOutcall(req: MockPendingHttpsOutcallOptions) {
+      mocked.push(req);
+    },
+  });
+
+  return { client: client, queries, mocked };
+}
+
+describe('invokeHttpTransform', () => {
+  it('should call the transform function as the management canister', async () => {
+    const { client, queries } = createTransformClient();
+    const pic = createPocketIc(client);
+    const context = new Uint8Array([1, 2, 3]);
+
+    const transformed = await pic.invokeHttpTransform({
+      canisterId,
+      method: 'transform',
+      context,
+      response: createResponse(0),
+    });
+
+    expect(transformed).toEqual({ ...createResponse(0), headers: [] });
+    expect(queries).toHaveLength(1);
+    expect(queries[0].sender.toText()).toBe(
+      Principal.managementCanister().toText(),
+    );
+    expect(queries[0]).toMatchObject({ canisterId, method: 'transform' });
+    expect(IDL.decode([TransformArgs], queries[0].payload)).toEqual([
+      {
+        response: {
+          status: 200n,
+          headers: [{ name: 'date', value: 'Thu, 01 Jan 2026 00:00:00 GMT' }],
+          body: createResponse(0).body,
+        },
+        context,
+      },
+    ]);
+  });
+});
+
+describe('mockDivergentOutcall', () => {
+  it('should mock a response for every replica', async () => {
+    const { client, mocked } = createTransformClient();
+    const pic = createPocketIc(client);
+
+    const { responses } = await pic.mockDivergentOutcall(outcall, {
+      replicas: 4,
+      responses: createResponse,
+    });
+
+    expect(responses).toHaveLength(4);
+    expect(mocked).toEqual([
+      {
+        subnetId,
+        requestId: 0,
+        response: createResponse(0),
+        additionalResponses: [1, 2, 3].map(createResponse),
+      },
+    ]);
+  });
+
+  it('should converge when the transform function strips the differences', async () => {
+    const { client } = createTransformClient();
+    const pic = createPocketIc(client);
+
+    const result = await pic.mockDivergentOutcall(outcall, {
+      replicas: 4,
+      responses: createResponse,
+      transform: { canisterId, method: 'transform' },
+    });
+
+    expect(result.transformedResponses).toEqual(
+      Array.from({ length: 4 }, () => ({
+        ...createResponse(0),
+        headers: [],
+      })),
+    );
+    expect(result).toMatchObject({
+      matchingResponses: 4,
+      threshold: 3,
+      converged: true,
+    });
+  });
+
+  it('should not converge without a transform function', async () => {
+    const { client } = createTransformClient();
+    const pic = createPocketIc(client);
+
+    const result = await pic.mockDivergentOutcall(outcall, {
+      replicas: 4,
+      responses: createResponse,
+    });
+
+    expect(result).toMatchObject({
+      matchingResponses: 1,
+      threshold: 3,
+      converged: false,
+    });
+  });
+
+  it('should tolerate a faulty replica', async () => {
+    const { client } = createTransformClient();
+    const pic = createPocketIc(client);
+
+    const result = await pic.mockDivergentOutcall(outcall, {
+      replicas: 4,
+      responses: replica =>
+        replica === 3
+          ? { type: 'reject', statusCode: 2, message: 'Timeout' }
+          : createResponse(replica),
+      transform: { canisterId, method: 'transform' },
+    });
+
+    expect(result).toMatchObject({
+      matchingResponses: 3,
+      threshold: 3,
+      converged: true,
+    });
+  });
+
+  it.each([0, -1, 1.5])(
+    'should throw for %s replicas without mocking the outcall',
+    async replicas => {
+      const { client, mocked } = createTransformClient();
+      const pic = createPocketIc(client);
+
+      await expect(
+        pic.mockDivergentOutcall(outcall, {
+          replicas,
+          responses: createResponse,
+        }),
+      ).rejects.toThrow('The number of replicas must be a positive integer');
+      expect(mocked).toEqual([]);
+    },
+  );
+});
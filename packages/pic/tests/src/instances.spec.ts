@@ -0,0 +1,75 @@
+import { PocketIc } from '../../src';
+import { CONTROLLER, TestFixture } from './util';
+
+describe('instances', () => {
+  let fixture: TestFixture;
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  it('should list running instances', async () => {
+    const instanceIds = await PocketIc.listInstances(process.env.PIC_URL);
+
+    expect(instanceIds).toContain(fixture.pic.getInstanceId());
+  });
+
+  it('should not list deleted instances', async () => {
+    const pic = await PocketIc.create(process.env.PIC_URL);
+    const instanceId = pic.getInstanceId();
+    await pic.tearDown();
+
+    const instanceIds = await PocketIc.listInstances(process.env.PIC_URL);
+
+    expect(instanceIds).not.toContain(instanceId);
+  });
+
+  it('should connect to an existing instance', async () => {
+    const { pic, actor, canisterId } = fixture;
+    const connectedPic = await PocketIc.connect(
+      process.env.PIC_URL,
+      pic.getInstanceId(),
+    );
+
+    await connectedPic.advanceTime(60_000);
+    await connectedPic.tick();
+
+    expect(connectedPic.getInstanceId()).toBe(pic.getInstanceId());
+    await expect(connectedPic.getControllers(canisterId)).resolves.toEqual(
+      await pic.getControllers(canisterId),
+    );
+    expect(await actor.get_time()).toBe(
+      BigInt(await connectedPic.getTime()) * 1_000_000n,
+    );
+  });
+
+  it('should keep the instance running after disconnecting', async () => {
+    const { pic, canisterId } = fixture;
+    const connectedPic = await PocketIc.connect(
+      process.env.PIC_URL,
+      pic.getInstanceId(),
+    );
+
+    await connectedPic.disconnect();
+
+    const instanceIds = await PocketIc.listInstances(process.env.PIC_URL);
+    expect(instanceIds).toContain(pic.getInstanceId());
+    await expect(pic.getControllers(canisterId)).resolves.toEqual([
+      CONTROLLER.getPrincipal(),
+    ]);
+  });
+
+  it('should throw when connecting to a deleted instance', async () => {
+    const pic = await PocketIc.create(process.env.PIC_URL);
+    const instanceId = pic.getInstanceId();
+    await pic.tearDown();
+
+    await expect(
+      PocketIc.connect(process.env.PIC_URL, instanceId),
+    ).rejects.toThrow(`Instance ${instanceId} does not exist or was deleted`);
+  });
+});
@@ -0,0 +1,138 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import { CanisterRejectError, ServerError } from '../../src';
+import { JsonPostRequest } from '../../src/http2-client';
+import { ObservedCanisterCall } from '../../src/pocket-ic-client-types';
+import { base64Encode } from '../../src/util';
+import { createPocketIcClient } from './util';
+
+const request = {
+  canisterId: Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai'),
+  sender: Principal.anonymous(),
+  method: 'greet',
+  payload: new Uint8Array(IDL.encode([IDL.Text], ['Alice'])),
+};
+const body = new Uint8Array(IDL.encode([IDL.Text], ['Hello, Alice!']));
+
+function createQueryServer(response: unknown) {
+  return {
+    async jsonPost<B, R>(_init: JsonPostRequest<B>): Promise<R> {
+      return response as R;
+    },
+  };
+}
+
+describe('PocketIcClient call observers', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should notify observers once of a successful call', async () => {
+    const client = createPocketIcClient(
+      createQueryServer({ Ok: base64Encode(body) }),
+    );
+    const observed: ObservedCanisterCall[] = [];
+    client.addCallObserver(call => {
+      observed.push(call);
+    });
+
+    await expect(client.queryCall(request)).resolves.toEqual({ body });
+
+    expect(observed).toEqual([
+      expect.objectContaining({ kind: 'query', request, response: { body } }),
+    ]);
+  });
+
+  it('should return the response when an observer throws', async () => {
+    const client = createPocketIcClient(
+      createQueryServer({ Ok: base64Encode(body) }),
+    );
+    const failingObserver = jest.fn(() => {
+      throw new Error('Observer failed');
+    });
+    const observed: ObservedCanisterCall[] = [];
+    client.addCallObserver(failingObserver);
+    client.addCallObserver(call => {
+      observed.push(call);
+    });
+
+    await expect(client.queryCall(request)).resolves.toEqual({ body });
+
+    expect(failingObserver).toHaveBeenCalledTimes(1);
+    expect(observed).toEqual([expect.objectContaining({ response: { body } })]);
+    expect(observed[0]).not.toHaveProperty('error');
+  });
+
+  it('should notify observers once of a rejected call', async () => {
+    const client = createPocketIcClient(
+      createQueryServer({
+        Err: {
+          reject_code: 5,
+          reject_message: 'Canister trapped',
+          error_code: 503,
+          certified: true,
+        },
+      }),
+    );
+    const observed: ObservedCanisterCall[] = [];
+    client.addCallObserver(call => {
+      observed.push(call);
+    });
+
+    await expect(client.queryCall(request)).rejects.toThrow(
+      CanisterRejectError,
+    );
+
+    expect(observed).toEqual([
+      expect.objectContaining({ error: expect.any(CanisterRejectError) }),
+    ]);
+  });
+});
+
+// A server that accepts every ingress message and answers status requests with the given error.
+function createIngressStatusServer(ingressStatusError: Error) {
+  return {
+    async jsonGet<R>(): Promise<R> {
+      return { nanos_since_epoch: 0n } as R;
+    },
+    async jsonPost<B, R>({ path }: JsonPostRequest<B>): Promise<R> {
+      if (path.endsWith('/read/ingress_status')) {
+        throw ingressStatusError;
+      }
+
+      return {
+        Ok: { message_id: new Uint8Array([1]), effective_principal: 'None' },
+      } as R;
+    },
+  };
+}
+
+describe('PocketIcClient in-flight messages', () => {
+  it('should count messages whose result was pruned as completed', async () => {
+    const client = createPocketIcClient(
+      createIngressStatusServer(
+        new ServerError(
+          'The call has completed but the reply/reject data has been pruned.',
+        ),
+      ),
+    );
+    await client.submitCall(request);
+
+    await expect(client.getInFlightMessageCount()).resolves.toBe(0);
+  });
+
+  it('should rethrow other server errors', async () => {
+    const client = createPocketIcClient(
+      createIngressStatusServer(new ServerError('Internal server error')),
+    );
+    await client.submitCall(request);
+
+    await expect(client.getInFlightMessageCount()).rejects.toThrow(
+      'Internal server error',
+    );
+  });
+});
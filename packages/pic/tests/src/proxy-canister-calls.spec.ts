@@ -0,0 +1,174 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  CanisterRejectError,
+  ProxiedCanisterRejectError,
+  RejectCode,
+  UpdateCallOptions,
+} from '../../src';
+import { CanisterCallRequest } from '../../src/pocket-ic-client-types';
+import { encodeProxyCallRequest } from '../../src/util/proxy-canister';
+import { createFakeClient, createPocketIc } from './util';
+
+const canisterId = Principal.fromText('rrkah-fqaaa-aaaaa-aaaaq-cai');
+const proxyCanisterId = Principal.fromText('ryjl3-tyaaa-aaaaa-aaaba-cai');
+const emptyBody = new Uint8Array(IDL.encode([], []));
+
+function encodeProxyResponse(
+  rejectCode: number,
+  data: Uint8Array,
+  cyclesRefunded = 0n,
+): Uint8Array {
+  const bytes = new Uint8Array(17 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, rejectCode);
+  view.setBigUint64(1, cyclesRefunded, true);
+  bytes.set(data, 17);
+
+  return bytes;
+}
+
+// A client whose proxy canister answers every call with the given response.
+function createProxyClient(proxyResponse: Uint8Array) {
+  const calls: CanisterCallRequest[] = [];
+
+  const client = createFakeClient({
+    async updateCall(req: CanisterCallRequest) {
+      calls.push(req);
+
+      switch (req.method) {
+        case 'provisional_create_canister_with_cycles':
+          return {
+            body: new Uint8Array(
+              IDL.encode(
+                [IDL.Record({ canister_id: IDL.Principal })],
+                [{ canister_id: proxyCanisterId }],
+              ),
+            ),
+          };
+        case 'proxy':
+          return { body: proxyResponse };
+        default:
+          return { body: emptyBody };
+      }
+    },
+    async addCycles() {
+      return { cycles: 0n };
+    },
+  });
+
+  return { client, calls };
+}
+
+describe('updateCall with cycles', () => {
+  it('should route the call through the proxy canister', async () => {
+    const { client, calls } = createProxyClient(
+      encodeProxyResponse(0, emptyBody, 10n),
+    );
+    const pic = createPocketIc(client);
+
+    const result = await pic.updateCall({
+      canisterId,
+      method: 'deposit',
+      cycles: 100n,
+    });
+
+    expect(result).toEqual({ body: emptyBody, cyclesRefunded: 10n });
+    expect(calls.map(call => call.method)).toEqual([
+      'provisional_create_canister_with_cycles',
+      'install_code',
+      'proxy',
+    ]);
+    expect(calls[2].canisterId).toEqual(proxyCanisterId);
+  });
+
+  it('should throw a ProxiedCanisterRejectError for rejects', async () => {
+    const { client } = createProxyClient(
+      encodeProxyResponse(
+        RejectCode.CANISTER_ERROR,
+        new TextEncoder().encode('Canister trapped'),
+      ),
+    );
+    const pic = createPocketIc(client);
+
+    const error = await pic
+      .updateCall({ canisterId, method: 'deposit', cycles: 100n })
+      .catch(error => error);
+
+    expect(error).toBeInstanceOf(ProxiedCanisterRejectError);
+    expect(error).toBeInstanceOf(CanisterRejectError);
+    expect(error).toMatchObject({
+      rejectCode: RejectCode.CANISTER_ERROR,
+      rejectMessage: 'Canister trapped',
+      canisterId,
+      method: 'deposit',
+      proxyCanisterId,
+    });
+  });
+
+  it('should make a plain update call when the cycles are undefined', async () => {
+    const { client, calls } = createProxyClient(new Uint8Array());
+    const pic = createPocketIc(client);
+
+    // as passed by JavaScript callers that spread optional cycles
+    const options = {
+      canisterId,
+      method: 'greet',
+      cycles: undefined,
+    } as unknown as UpdateCallOptions;
+
+    const body = await pic.updateCall(options);
+
+    expect(body).toEqual(emptyBody);
+    expect(calls).toEqual([expect.objectContaining({ canisterId })]);
+  });
+});
+
+describe('rawRand', () => {
+  const randomBytes = new Uint8Array(32).map((_, i) => i);
+
+  it('should get the bytes from raw_rand through the proxy canister', async () => {
+    const { client, calls } = createProxyClient(
+      encodeProxyResponse(
+        0,
+        new Uint8Array(IDL.encode([IDL.Vec(IDL.Nat8)], [randomBytes])),
+      ),
+    );
+    const pic = createPocketIc(client);
+
+    const result = await pic.rawRand();
+
+    expect(result).toEqual(randomBytes);
+    expect(calls[2]).toMatchObject({
+      canisterId: proxyCanisterId,
+      method: 'proxy',
+      payload: encodeProxyCallRequest({
+        canisterId: Principal.managementCanister(),
+        method: 'raw_rand',
+        payload: emptyBody,
+        cycles: 0n,
+      }),
+    });
+  });
+
+  it('should throw a ProxiedCanisterRejectError when raw_rand is rejected', async () => {
+    const { client } = createProxyClient(
+      encodeProxyResponse(
+        RejectCode.SYS_TRANSIENT,
+        new TextEncoder().encode('Randomness is not available'),
+      ),
+    );
+    const pic = createPocketIc(client);
+
+    const error = await pic.rawRand().catch(error => error);
+
+    expect(error).toBeInstanceOf(ProxiedCanisterRejectError);
+    expect(error).toMatchObject({
+      rejectCode: RejectCode.SYS_TRANSIENT,
+      rejectMessage: 'Randomness is not available',
+      canisterId: Principal.managementCanister(),
+      method: 'raw_rand',
+      proxyCanisterId,
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { PocketIc } from '../../src';
+
+describe('rawRand', () => {
+  let pic: PocketIc;
+
+  beforeEach(async () => {
+    pic = await PocketIc.create(process.env.PIC_URL);
+  });
+
+  afterEach(async () => {
+    await pic.tearDown();
+  });
+
+  it('should return 32 random bytes', async () => {
+    const randomBytes = await pic.rawRand();
+
+    expect(randomBytes).toHaveLength(32);
+  });
+
+  it('should return different bytes for every call', async () => {
+    const first = await pic.rawRand();
+    const second = await pic.rawRand();
+
+    expect(second).not.toEqual(first);
+  });
+});
@@ -0,0 +1,95 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { resolve } from 'node:path';
+import { IcpFeaturesConfig, PocketIc, SubnetStateType } from '../../src';
+
+describe('instance state directory', () => {
+  let tmpDir: string;
+  let stateDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(resolve(tmpdir(), 'pic-state-'));
+    stateDir = resolve(tmpDir, 'state');
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should resume an instance from its state directory', async () => {
+    const stableMemory = new Uint8Array([1, 2, 3, 4]);
+
+    const pic = await PocketIc.create(process.env.PIC_URL, { stateDir });
+    const canisterId = await pic.createCanister();
+    await pic.setStableMemory(canisterId, stableMemory);
+    const time = await pic.getTime();
+    await pic.tearDown();
+
+    const resumedPic = await PocketIc.create(process.env.PIC_URL, {
+      stateDir,
+      resume: true,
+    });
+    try {
+      const resumedStableMemory = await resumedPic.getStableMemory(canisterId);
+
+      expect(resumedStableMemory.subarray(0, stableMemory.byteLength)).toEqual(
+        stableMemory,
+      );
+      expect(await resumedPic.getTime()).toBeGreaterThanOrEqual(time);
+    } finally {
+      await resumedPic.tearDown();
+    }
+  });
+
+  it('should throw when resuming without a state directory', async () => {
+    await expect(
+      PocketIc.create(process.env.PIC_URL, { resume: true }),
+    ).rejects.toThrow(
+      'The stateDir option is required to resume a PocketIC instance.',
+    );
+  });
+
+  it('should throw when resuming from a missing state directory', async () => {
+    await expect(
+      PocketIc.create(process.env.PIC_URL, { stateDir, resume: true }),
+    ).rejects.toThrow(
+      `There is no PocketIC instance state to resume at ${stateDir}.`,
+    );
+  });
+
+  it('should throw when resuming with a topology', async () => {
+    await mkdir(stateDir);
+
+    await expect(
+      PocketIc.create(process.env.PIC_URL, {
+        stateDir,
+        resume: true,
+        nns: { state: { type: SubnetStateType.New } },
+        icpFeatures: { registry: IcpFeaturesConfig.DefaultConfig },
+      }),
+    ).rejects.toThrow('the nns, icpFeatures options cannot be used');
+  });
+
+  it('should throw when resuming with a Bitcoin regtest network', async () => {
+    await mkdir(stateDir);
+
+    await expect(
+      PocketIc.create(process.env.PIC_URL, {
+        stateDir,
+        resume: true,
+        bitcoinRegtest: true,
+      }),
+    ).rejects.toThrow(
+      'the bitcoinRegtest option cannot be used with the resume option',
+    );
+  });
+
+  it('should throw for a state directory that is not empty', async () => {
+    await mkdir(stateDir);
+    await writeFile(resolve(stateDir, 'topology.json'), '{}');
+
+    await expect(
+      PocketIc.create(process.env.PIC_URL, { stateDir }),
+    ).rejects.toThrow(`The state directory ${stateDir} is not empty`);
+  });
+});
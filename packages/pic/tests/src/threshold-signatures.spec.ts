@@ -0,0 +1,76 @@
+import { createHash } from 'node:crypto';
+import {
+  PocketIc,
+  SubnetStateType,
+  verifyEcdsaSignature,
+  verifySchnorrSignature,
+} from '../../src';
+
+describe('threshold signatures', () => {
+  let pic: PocketIc;
+  const message = new TextEncoder().encode('Hello, PocketIC!');
+  const messageHash = new Uint8Array(
+    createHash('sha256').update(message).digest(),
+  );
+
+  beforeEach(async () => {
+    pic = await PocketIc.create(process.env.PIC_URL, {
+      fiduciary: { state: { type: SubnetStateType.New } },
+    });
+  });
+
+  afterEach(async () => {
+    await pic.tearDown();
+  });
+
+  it('should sign with ECDSA', async () => {
+    const signature = await pic.signWithEcdsa({ messageHash });
+    const { publicKey, chainCode } = await pic.getEcdsaPublicKey();
+
+    expect(publicKey).toHaveLength(33);
+    expect(chainCode).toHaveLength(32);
+    expect(verifyEcdsaSignature({ publicKey, messageHash, signature })).toBe(
+      true,
+    );
+  });
+
+  it('should derive ECDSA keys from the derivation path', async () => {
+    const derivationPath = [new TextEncoder().encode('alice')];
+
+    const signature = await pic.signWithEcdsa({ messageHash, derivationPath });
+    const { publicKey } = await pic.getEcdsaPublicKey({ derivationPath });
+    const { publicKey: rootPublicKey } = await pic.getEcdsaPublicKey();
+
+    expect(verifyEcdsaSignature({ publicKey, messageHash, signature })).toBe(
+      true,
+    );
+    expect(
+      verifyEcdsaSignature({
+        publicKey: rootPublicKey,
+        messageHash,
+        signature,
+      }),
+    ).toBe(false);
+  });
+
+  it('should derive keys for the given canister', async () => {
+    const canisterId = await pic.createCanister();
+
+    const { publicKey } = await pic.getEcdsaPublicKey({ canisterId });
+    const { publicKey: proxyPublicKey } = await pic.getEcdsaPublicKey();
+
+    expect(publicKey).not.toEqual(proxyPublicKey);
+  });
+
+  it.each(['bip340secp256k1', 'ed25519'] as const)(
+    'should sign with Schnorr using %s',
+    async algorithm => {
+      const signature = await pic.signWithSchnorr({ algorithm, message });
+      const { publicKey } = await pic.getSchnorrPublicKey({ algorithm });
+
+      expect(
+        verifySchnorrSignature({ algorithm, publicKey, message, signature }),
+      ).toBe(true);
+    },
+  );
+});
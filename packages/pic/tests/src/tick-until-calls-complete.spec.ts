@@ -0,0 +1,85 @@
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  CanisterHttpMethod,
+  MaxTicksExceededError,
+  PendingHttpsOutcall,
+} from '../../src';
+import { PocketIcClient } from '../../src/pocket-ic-client';
+import { createFakeClient, createPocketIc } from './util';
+
+const outcall: PendingHttpsOutcall = {
+  subnetId: Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai'),
+  requestId: 0,
+  httpMethod: CanisterHttpMethod.GET,
+  url: 'https://example.com/prices',
+  headers: [],
+  body: new Uint8Array(),
+};
+
+// Each entry of the schedule describes the state of the instance
+// after the tick with the same index.
+function createTickingClient(
+  schedule: {
+    inFlightMessages: number;
+    pendingHttpsOutcalls?: PendingHttpsOutcall[];
+  }[],
+): { client: PocketIcClient; getTicks: () => number } {
+  let ticks = 0;
+  const current = () => schedule[Math.min(ticks, schedule.length - 1)];
+
+  const client = createFakeClient({
+    async tick() {
+      ticks++;
+      return {};
+    },
+    async getInFlightMessageCount() {
+      return current().inFlightMessages;
+    },
+    async getPendingHttpsOutcalls() {
+      return current().pendingHttpsOutcalls ?? [];
+    },
+  });
+
+  return { client: client, getTicks: () => ticks };
+}
+
+describe('tickUntilCallsComplete', () => {
+  it('should tick until no ingress messages are in flight', async () => {
+    const { client, getTicks } = createTickingClient([
+      { inFlightMessages: 2 },
+      { inFlightMessages: 1 },
+      { inFlightMessages: 0 },
+    ]);
+    const pic = createPocketIc(client);
+
+    await expect(pic.tickUntilCallsComplete()).resolves.toEqual({
+      ticks: 2,
+      pendingHttpsOutcalls: [],
+    });
+    expect(getTicks()).toBe(2);
+  });
+
+  it('should return the HTTPS outcalls that ingress messages wait for', async () => {
+    const { client, getTicks } = createTickingClient([
+      { inFlightMessages: 1 },
+      { inFlightMessages: 1, pendingHttpsOutcalls: [outcall] },
+    ]);
+    const pic = createPocketIc(client);
+
+    await expect(pic.tickUntilCallsComplete()).resolves.toEqual({
+      ticks: 1,
+      pendingHttpsOutcalls: [outcall],
+    });
+    expect(getTicks()).toBe(1);
+  });
+
+  it('should throw after the maximum number of ticks', async () => {
+    const { client, getTicks } = createTickingClient([{ inFlightMessages: 1 }]);
+    const pic = createPocketIc(client);
+
+    await expect(pic.tickUntilCallsComplete({ maxTicks: 3 })).rejects.toThrow(
+      new MaxTicksExceededError(3, 'ingress messages in flight: 1'),
+    );
+    expect(getTicks()).toBe(3);
+  });
+});
@@ -0,0 +1,67 @@
+import { MaxTicksExceededError } from '../../src';
+import { TestFixture } from './util';
+import {
+  _SERVICE as TestCanister,
+  idlFactory,
+} from '../test-canister/declarations/test_canister.did';
+
+describe('ticking', () => {
+  let fixture: TestFixture;
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  describe('tickUntilCallsComplete', () => {
+    it('should not tick if nothing is in flight', async () => {
+      const result = await fixture.pic.tickUntilCallsComplete();
+
+      expect(result).toEqual({ ticks: 0, pendingHttpsOutcalls: [] });
+    });
+
+    it('should tick until submitted messages have completed', async () => {
+      const { pic, canisterId } = fixture;
+      const deferredActor = pic.createDeferredActor<TestCanister>(
+        idlFactory,
+        canisterId,
+      );
+
+      const executeGetTime = await deferredActor.get_time();
+      const { ticks } = await pic.tickUntilCallsComplete();
+      const time = await executeGetTime();
+
+      expect(ticks).toBeGreaterThan(0);
+      expect(time).toBeGreaterThan(0n);
+      await expect(pic.tickUntilCallsComplete()).resolves.toEqual({
+        ticks: 0,
+        pendingHttpsOutcalls: [],
+      });
+    });
+  });
+
+  describe('tickUntil', () => {
+    it('should tick until the predicate returns true', async () => {
+      const { pic, actor } = fixture;
+      const initialTime = await actor.get_time();
+
+      const ticks = await pic.tickUntil(
+        async () => (await actor.get_time()) > initialTime,
+        { advanceTimeMs: 1_000 },
+      );
+
+      expect(ticks).toBeGreaterThan(0);
+    });
+
+    it('should throw after the maximum number of ticks', async () => {
+      await expect(
+        fixture.pic.tickUntil(() => false, { maxTicks: 3 }),
+      ).rejects.toThrow(
+        new MaxTicksExceededError(3, 'the predicate did not return true'),
+      );
+    });
+  });
+});
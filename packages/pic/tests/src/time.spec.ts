@@ -156,4 +156,18 @@ describe('time', () => {
     );
     expect(Date.now() - startTime).toBeLessThan(POLL_TIMEOUT_MS / 10);
   });
+
+  describe('clock', () => {
+    it('should advance the time after a tick', async () => {
+      const { pic, actor } = fixture;
+      await pic.tick();
+      const initialTime = await actor.get_time();
+
+      await pic.clock.advance(1_000);
+      const finalTime = await actor.get_time();
+
+      expect(finalTime).toBeGreaterThanOrEqual(initialTime + 1_000_000_000n);
+      expect(finalTime).toBeLessThan(initialTime + 1_001_000_000n);
+    });
+  });
 });
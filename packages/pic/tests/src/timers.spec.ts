@@ -0,0 +1,81 @@
+import { Principal } from '@icp-sdk/core/principal';
+import { CanisterRejectError, InactiveGlobalTimerError } from '../../src';
+import { CONTROLLER, TestFixture } from './util';
+
+// More snapshots than any subnet allows per canister.
+const MAX_SNAPSHOTS = 100;
+
+describe('timers', () => {
+  let fixture: TestFixture;
+  const sender = CONTROLLER.getPrincipal();
+
+  beforeEach(async () => {
+    fixture = await TestFixture.create();
+  });
+
+  afterEach(async () => {
+    await fixture.tearDown();
+  });
+
+  it('should return null for an inactive global timer', async () => {
+    const { pic, canisterId } = fixture;
+
+    const deadline = await pic.getGlobalTimer({ canisterId, sender });
+
+    expect(deadline).toBeNull();
+  });
+
+  it('should not leave a snapshot behind', async () => {
+    const { pic, canisterId } = fixture;
+
+    await pic.getGlobalTimer({ canisterId, sender });
+    const snapshots = await pic.listCanisterSnapshots({ canisterId, sender });
+
+    expect(snapshots).toEqual([]);
+  });
+
+  it('should charge the canister for the snapshot', async () => {
+    const { pic, canisterId } = fixture;
+    const cycles = await pic.getCyclesBalance(canisterId);
+
+    await pic.getGlobalTimer({ canisterId, sender });
+
+    expect(await pic.getCyclesBalance(canisterId)).toBeLessThan(cycles);
+  });
+
+  it('should throw when the sender is not a controller', async () => {
+    const { pic, canisterId } = fixture;
+
+    await expect(
+      pic.getGlobalTimer({ canisterId, sender: Principal.anonymous() }),
+    ).rejects.toThrow(CanisterRejectError);
+  });
+
+  it('should throw when the canister has no room for another snapshot', async () => {
+    const { pic, canisterId } = fixture;
+    let snapshotCount = 0;
+    while (snapshotCount < MAX_SNAPSHOTS) {
+      try {
+        await pic.takeCanisterSnapshot({ canisterId, sender });
+      } catch {
+        break;
+      }
+      snapshotCount++;
+    }
+
+    await expect(pic.getGlobalTimer({ canisterId, sender })).rejects.toThrow(
+      CanisterRejectError,
+    );
+
+    const snapshots = await pic.listCanisterSnapshots({ canisterId, sender });
+    expect(snapshots).toHaveLength(snapshotCount);
+  });
+
+  it('should throw when advancing to an inactive global timer', async () => {
+    const { pic, canisterId } = fixture;
+
+    await expect(
+      pic.advanceToNextTimer({ canisterId, sender }),
+    ).rejects.toThrow(new InactiveGlobalTimerError(canisterId));
+  });
+});
@@ -2,7 +2,19 @@ import path from 'node:path';
 import { Identity } from '@icp-sdk/core/agent';
 import { Principal } from '@icp-sdk/core/principal';
 
-import { Actor, generateRandomIdentity, PocketIc } from '../../src';
+import { IDL } from '@icp-sdk/core/candid';
+import {
+  Actor,
+  CreateInstanceOptions,
+  generateRandomIdentity,
+  PocketIc,
+} from '../../src';
+import { Http2Client } from '../../src/http2-client';
+import { PocketIcClient } from '../../src/pocket-ic-client';
+import {
+  CanisterCallRequest,
+  SubmitCanisterCallResponse,
+} from '../../src/pocket-ic-client-types';
 import {
   _SERVICE as TestCanister,
   idlFactory,
@@ -52,9 +64,11 @@ export class TestFixture {
     this.#controller = controller;
   }
 
-  public static async create(): Promise<TestFixture> {
+  public static async create(
+    options?: CreateInstanceOptions,
+  ): Promise<TestFixture> {
     const controller = generateRandomIdentity();
-    const pic = await PocketIc.create(process.env.PIC_URL);
+    const pic = await PocketIc.create(process.env.PIC_URL, options);
     const fixture = await pic.setupCanister<TestCanister>({
       idlFactory,
       wasm: WASM_PATH,
@@ -89,3 +103,66 @@ export function addTime(date: Date, time: number): Date {
   newDate.setTime(newDate.getTime() + time);
   return newDate;
 }
+
+export type FakeClientMethods = Partial<PocketIcClient>;
+
+// A client that only implements the given methods, for unit tests that run
+// without a PocketIC server.
+export function createFakeClient(methods: FakeClientMethods): PocketIcClient {
+  return methods as PocketIcClient;
+}
+
+// The constructor of PocketIc is private, unit tests create instances from a
+// fake client with this instead.
+export function createPocketIc(client: PocketIcClient): PocketIc {
+  return new (PocketIc as unknown as new (client: PocketIcClient) => PocketIc)(
+    client,
+  );
+}
+
+// The constructor of PocketIcClient is private, unit tests create clients
+// that send requests to a fake server with this instead.
+export function createPocketIcClient(
+  serverClient: Partial<Http2Client>,
+): PocketIcClient {
+  return new (PocketIcClient as unknown as new (
+    serverClient: Http2Client,
+    instancePath: string,
+    instanceId: number,
+  ) => PocketIcClient)(serverClient as Http2Client, '/instances/0', 0);
+}
+
+export function createSenderRecordingClient(): {
+  client: PocketIcClient;
+  senders: Principal[];
+} {
+  const senders: Principal[] = [];
+  const emptyResponse = { body: new Uint8Array(IDL.encode([], [])) };
+
+  const client = createFakeClient({
+    async queryCall(req: CanisterCallRequest) {
+      senders.push(req.sender);
+      return emptyResponse;
+    },
+    async updateCall(req: CanisterCallRequest) {
+      senders.push(req.sender);
+      return emptyResponse;
+    },
+    async submitCall(
+      req: CanisterCallRequest,
+    ): Promise<SubmitCanisterCallResponse> {
+      senders.push(req.sender);
+      return {
+        effectivePrincipal: null,
+        messageId: new Uint8Array(),
+        canisterId: req.canisterId,
+        method: req.method,
+      };
+    },
+    async awaitCall() {
+      return emptyResponse;
+    },
+  });
+
+  return { client, senders };
+}
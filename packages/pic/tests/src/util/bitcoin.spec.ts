@@ -0,0 +1,173 @@
+import {
+  REGTEST_GENESIS_HEADER,
+  addressToScriptPubKey,
+  bitcoinBlockHash,
+  bitcoinTxid,
+  bitcoinWtxid,
+  blockSubsidy,
+  decodeBitcoinBlockHeader,
+  decodeBitcoinMessage,
+  decodeBitcoinTransaction,
+  encodeBitcoinBlockHeader,
+  encodeBitcoinMessage,
+  encodeBitcoinTransaction,
+  hashToHex,
+  hexToHash,
+  meetsTarget,
+  regtestGenesisTransaction,
+  scriptPubKeyToAddress,
+} from '../../../src/util/bitcoin';
+
+describe('regtest genesis block', () => {
+  it('should have the regtest genesis hash', () => {
+    expect(hashToHex(bitcoinBlockHash(REGTEST_GENESIS_HEADER))).toBe(
+      '0f9188f13cb7b2c71f2a335e3a4fc328bf5beb436012afca590b1a11466e2206',
+    );
+  });
+
+  it('should commit to the genesis transaction', () => {
+    expect(bitcoinTxid(regtestGenesisTransaction())).toEqual(
+      REGTEST_GENESIS_HEADER.merkleRoot,
+    );
+  });
+
+  it('should round trip the header', () => {
+    expect(
+      decodeBitcoinBlockHeader(
+        encodeBitcoinBlockHeader(REGTEST_GENESIS_HEADER),
+      ),
+    ).toEqual(REGTEST_GENESIS_HEADER);
+  });
+
+  it('should meet the regtest target', () => {
+    expect(
+      meetsTarget(
+        bitcoinBlockHash(REGTEST_GENESIS_HEADER),
+        REGTEST_GENESIS_HEADER.bits,
+      ),
+    ).toBe(true);
+    expect(
+      meetsTarget(new Uint8Array(32).fill(0xff), REGTEST_GENESIS_HEADER.bits),
+    ).toBe(false);
+  });
+});
+
+describe('blockSubsidy', () => {
+  it('should halve every 150 blocks', () => {
+    expect(blockSubsidy(0)).toBe(5_000_000_000n);
+    expect(blockSubsidy(149)).toBe(5_000_000_000n);
+    expect(blockSubsidy(150)).toBe(2_500_000_000n);
+    expect(blockSubsidy(64 * 150)).toBe(0n);
+  });
+});
+
+describe('addresses', () => {
+  it('should convert a P2WPKH address', () => {
+    const address = 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080';
+    const scriptPubKey = addressToScriptPubKey(address);
+
+    expect(Buffer.from(scriptPubKey).toString('hex')).toBe(
+      '0014751e76e8199196d454941c45d1b3a323f1433bd6',
+    );
+    expect(scriptPubKeyToAddress(scriptPubKey)).toBe(address);
+  });
+
+  it.each([
+    ['P2PKH', '76a914751e76e8199196d454941c45d1b3a323f1433bd688ac', 'm'],
+    ['P2SH', 'a914751e76e8199196d454941c45d1b3a323f1433bd687', '2'],
+    [
+      'P2TR',
+      '5120751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45',
+      'bcrt1p',
+    ],
+  ])('should round trip a %s script', (_, hex, prefix) => {
+    const scriptPubKey = new Uint8Array(Buffer.from(hex, 'hex'));
+    const address = scriptPubKeyToAddress(scriptPubKey);
+
+    expect(address?.startsWith(prefix)).toBe(true);
+    expect(addressToScriptPubKey(address!)).toEqual(scriptPubKey);
+  });
+
+  it('should not convert a script without an address', () => {
+    expect(scriptPubKeyToAddress(new Uint8Array([0x6a, 0x00]))).toBeNull();
+  });
+
+  it('should throw for an address of another network', () => {
+    expect(() =>
+      addressToScriptPubKey('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2'),
+    ).toThrow();
+  });
+});
+
+describe('transactions', () => {
+  const transaction = {
+    version: 2,
+    inputs: [
+      {
+        previousOutput: {
+          txid: hexToHash(
+            '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b',
+          ),
+          vout: 1,
+        },
+        scriptSig: new Uint8Array(),
+        sequence: 0xfffffffd,
+        witness: [new Uint8Array(71).fill(1), new Uint8Array(33).fill(2)],
+      },
+    ],
+    outputs: [
+      {
+        value: 100_000n,
+        scriptPubKey: addressToScriptPubKey(
+          'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080',
+        ),
+      },
+    ],
+    lockTime: 0,
+  };
+
+  it('should round trip a segwit transaction', () => {
+    const bytes = encodeBitcoinTransaction(transaction, { witness: true });
+
+    expect(decodeBitcoinTransaction(bytes)).toEqual(transaction);
+  });
+
+  it('should exclude the witness from the txid', () => {
+    const stripped = encodeBitcoinTransaction(transaction, { witness: false });
+
+    expect(decodeBitcoinTransaction(stripped).inputs[0].witness).toEqual([]);
+    expect(bitcoinTxid(transaction)).not.toEqual(bitcoinWtxid(transaction));
+  });
+});
+
+describe('messages', () => {
+  it('should round trip a message', () => {
+    const payload = new Uint8Array([1, 2, 3]);
+    const bytes = encodeBitcoinMessage({ command: 'ping', payload });
+
+    expect(decodeBitcoinMessage(bytes)).toEqual({
+      message: { command: 'ping', payload },
+      size: bytes.byteLength,
+    });
+  });
+
+  it('should wait for incomplete messages', () => {
+    const bytes = encodeBitcoinMessage({
+      command: 'ping',
+      payload: new Uint8Array(8),
+    });
+
+    expect(decodeBitcoinMessage(bytes.subarray(0, 10))).toBeNull();
+    expect(decodeBitcoinMessage(bytes.subarray(0, 30))).toBeNull();
+  });
+
+  it('should throw for an invalid checksum', () => {
+    const bytes = encodeBitcoinMessage({
+      command: 'ping',
+      payload: new Uint8Array(8),
+    });
+    bytes[20] ^= 1;
+
+    expect(() => decodeBitcoinMessage(bytes)).toThrow('invalid checksum');
+  });
+});
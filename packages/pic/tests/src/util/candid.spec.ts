@@ -0,0 +1,85 @@
+import { IDL } from '@icp-sdk/core/candid';
+import { HttpsOutcallSuccessResponse } from '../../../src';
+import {
+  decodeHttpRequestResult,
+  decodeRawRandResponse,
+  encodeTransformArgs,
+} from '../../../src/management-canister';
+import {
+  httpRequestResultFromIDL,
+  httpRequestResultToIDL,
+} from '../../../src/util/candid';
+
+const HttpRequestResult = IDL.Record({
+  status: IDL.Nat,
+  headers: IDL.Vec(IDL.Record({ name: IDL.Text, value: IDL.Text })),
+  body: IDL.Vec(IDL.Nat8),
+});
+
+const TransformArgs = IDL.Record({
+  response: HttpRequestResult,
+  context: IDL.Vec(IDL.Nat8),
+});
+
+const response: HttpsOutcallSuccessResponse = {
+  type: 'success',
+  statusCode: 200,
+  headers: [['content-type', 'application/json']],
+  body: new TextEncoder().encode('{"price":5}'),
+};
+
+describe('httpRequestResultToIDL', () => {
+  it('should encode a response as transform args', () => {
+    const encoded = encodeTransformArgs({
+      response: httpRequestResultToIDL(response),
+      context: new Uint8Array([1, 2, 3]),
+    });
+
+    const [decoded] = IDL.decode([TransformArgs], encoded);
+
+    expect(decoded).toEqual({
+      response: {
+        status: 200n,
+        headers: [{ name: 'content-type', value: 'application/json' }],
+        body: response.body,
+      },
+      context: new Uint8Array([1, 2, 3]),
+    });
+  });
+});
+
+describe('httpRequestResultFromIDL', () => {
+  it('should decode an http_request_result', () => {
+    const encoded = IDL.encode(
+      [HttpRequestResult],
+      [
+        {
+          status: 200n,
+          headers: [{ name: 'content-type', value: 'application/json' }],
+          body: response.body,
+        },
+      ],
+    );
+
+    const decoded = httpRequestResultFromIDL(
+      decodeHttpRequestResult(new Uint8Array(encoded)),
+    );
+
+    expect(decoded).toEqual(response);
+  });
+});
+
+describe('decodeRawRandResponse', () => {
+  it('should decode the random bytes', () => {
+    const randomBytes = new Uint8Array(32).map((_, i) => i);
+    const encoded = IDL.encode([IDL.Vec(IDL.Nat8)], [randomBytes]);
+
+    expect(decodeRawRandResponse(new Uint8Array(encoded))).toEqual(randomBytes);
+  });
+
+  it('should throw for a response that is not a blob', () => {
+    const encoded = IDL.encode([IDL.Text], ['not random']);
+
+    expect(() => decodeRawRandResponse(new Uint8Array(encoded))).toThrow();
+  });
+});
@@ -0,0 +1,38 @@
+import {
+  decodeCanisterLogContent,
+  formatCanisterLogs,
+} from '../../../src/util/canister-logs';
+import type { CanisterLogRecord } from '../../../src/pocket-ic-types';
+
+function createRecord(idx: bigint, content: string): CanisterLogRecord {
+  return {
+    idx,
+    timestampNanos: 1_700_000_000_000_000_000n + idx,
+    content: new TextEncoder().encode(content),
+  };
+}
+
+describe('decodeCanisterLogContent', () => {
+  it('should decode the content as UTF-8 text', () => {
+    const record = createRecord(0n, 'Hello, 世界!');
+
+    expect(decodeCanisterLogContent(record)).toBe('Hello, 世界!');
+  });
+});
+
+describe('formatCanisterLogs', () => {
+  it('should format one record per line', () => {
+    const records = [createRecord(0n, 'first'), createRecord(1n, 'second')];
+
+    expect(formatCanisterLogs(records)).toBe(
+      [
+        '[0. 1700000000000000000]: first',
+        '[1. 1700000000000000001]: second',
+      ].join('\n'),
+    );
+  });
+
+  it('should format an empty list as an empty string', () => {
+    expect(formatCanisterLogs([])).toBe('');
+  });
+});
@@ -1,4 +1,11 @@
-import { RetryableError, ServerError } from '../../../src/error';
+import { Principal } from '@icp-sdk/core/principal';
+import { RejectCode } from '../../../src/pocket-ic-types';
+import {
+  CanisterNotFoundError,
+  CanisterRejectError,
+  RetryableError,
+  ServerError,
+} from '../../../src/error';
 
 describe('RetryableError', () => {
   const error = new RetryableError('Server busy');
@@ -53,3 +60,60 @@ describe('ServerError', () => {
     );
   });
 });
+
+describe('CanisterNotFoundError', () => {
+  const canisterId = Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+  const cause = new Error('Canister call failed');
+  const error = new CanisterNotFoundError(canisterId, cause);
+
+  it('should be an instance of CanisterNotFoundError', () => {
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(CanisterNotFoundError);
+  });
+
+  it('should have name set to CanisterNotFoundError', () => {
+    expect(error.name).toBe('CanisterNotFoundError');
+  });
+
+  it('should expose the canister ID and the original error', () => {
+    expect(error.canisterId).toEqual(canisterId);
+    expect(error.cause).toBe(cause);
+    expect(error.message).toContain('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+  });
+});
+
+describe('CanisterRejectError', () => {
+  const canisterId = Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai');
+  const error = new CanisterRejectError({
+    rejectCode: RejectCode.CANISTER_REJECT,
+    errorCode: 406,
+    rejectMessage: 'Not allowed',
+    certified: true,
+    canisterId,
+    method: 'greet',
+  });
+
+  it('should be an instance of CanisterRejectError', () => {
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(CanisterRejectError);
+  });
+
+  it('should have name set to CanisterRejectError', () => {
+    expect(error.name).toBe('CanisterRejectError');
+  });
+
+  it('should expose the details of the reject', () => {
+    expect(error.rejectCode).toBe(RejectCode.CANISTER_REJECT);
+    expect(error.errorCode).toBe(406);
+    expect(error.rejectMessage).toBe('Not allowed');
+    expect(error.certified).toBe(true);
+    expect(error.canisterId).toEqual(canisterId);
+    expect(error.method).toBe('greet');
+  });
+
+  it('should include the details of the reject in the message', () => {
+    expect(error.message).toBe(
+      'Canister call failed: Not allowed. Reject code: 4. Error code: 406. Certified: true',
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { Principal } from '@icp-sdk/core/principal';
+import { CanisterHttpMethod, PendingHttpsOutcall } from '../../../src';
+import {
+  HttpsOutcallCassetteInteraction,
+  decodeHttpsOutcallCassette,
+  encodeHttpsOutcallCassette,
+  httpsOutcallCassetteKey,
+  httpsOutcallCassetteRequest,
+} from '../../../src/util/https-outcall-cassette';
+
+function createOutcall(
+  overrides: Partial<PendingHttpsOutcall> = {},
+): PendingHttpsOutcall {
+  return {
+    subnetId: Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai'),
+    requestId: 0,
+    httpMethod: CanisterHttpMethod.POST,
+    url: 'https://example.com/prices',
+    headers: [
+      ['X-Request-Id', '1'],
+      ['Content-Type', 'application/json'],
+    ],
+    body: new TextEncoder().encode('{"coin":"ICP"}'),
+    ...overrides,
+  };
+}
+
+describe('httpsOutcallCassetteRequest', () => {
+  it('should normalize headers and hash the body', () => {
+    const request = httpsOutcallCassetteRequest(createOutcall());
+
+    expect(request).toEqual({
+      method: CanisterHttpMethod.POST,
+      url: 'https://example.com/prices',
+      headers: [
+        ['content-type', 'application/json'],
+        ['x-request-id', '1'],
+      ],
+      bodySha256:
+        'fe8e20fdaf40a55e9fc87d175b2f88c7037152d730c521564c0ea4bd02e9b6c3',
+    });
+  });
+});
+
+describe('httpsOutcallCassetteKey', () => {
+  it('should ignore header order and header name casing', () => {
+    const key = httpsOutcallCassetteKey(
+      httpsOutcallCassetteRequest(createOutcall()),
+    );
+    const otherKey = httpsOutcallCassetteKey(
+      httpsOutcallCassetteRequest(
+        createOutcall({
+          requestId: 1,
+          headers: [
+            ['content-type', 'application/json'],
+            ['x-request-id', '1'],
+          ],
+        }),
+      ),
+    );
+
+    expect(otherKey).toBe(key);
+  });
+
+  it('should differ for different bodies', () => {
+    const key = httpsOutcallCassetteKey(
+      httpsOutcallCassetteRequest(createOutcall()),
+    );
+    const otherKey = httpsOutcallCassetteKey(
+      httpsOutcallCassetteRequest(
+        createOutcall({ body: new TextEncoder().encode('{"coin":"BTC"}') }),
+      ),
+    );
+
+    expect(otherKey).not.toBe(key);
+  });
+});
+
+describe('decodeHttpsOutcallCassette', () => {
+  it('should round trip encoded interactions', () => {
+    const interactions: HttpsOutcallCassetteInteraction[] = [
+      {
+        request: httpsOutcallCassetteRequest(createOutcall()),
+        response: {
+          type: 'success',
+          statusCode: 200,
+          headers: [['content-type', 'application/json']],
+          body: new TextEncoder().encode('{"price":5}'),
+        },
+      },
+      {
+        request: httpsOutcallCassetteRequest(
+          createOutcall({ url: 'https://example.com/volume' }),
+        ),
+        response: { type: 'reject', statusCode: 2, message: 'Timeout' },
+      },
+    ];
+
+    const decoded = decodeHttpsOutcallCassette(
+      encodeHttpsOutcallCassette(interactions),
+    );
+
+    expect(decoded).toEqual(interactions);
+  });
+
+  it('should throw for an unsupported version', () => {
+    expect(() =>
+      decodeHttpsOutcallCassette(
+        JSON.stringify({ version: 2, interactions: [] }),
+      ),
+    ).toThrow('Unsupported HTTPS outcall cassette version: 2');
+  });
+});
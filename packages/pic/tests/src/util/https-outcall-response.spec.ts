@@ -0,0 +1,82 @@
+import { HttpsOutcallResponseMock } from '../../../src';
+import { httpsOutcallConsensus } from '../../../src/util/https-outcall-response';
+
+function createResponse(
+  headers: [string, string][] = [],
+  body = '{"price":5}',
+): HttpsOutcallResponseMock {
+  return {
+    type: 'success',
+    statusCode: 200,
+    headers,
+    body: new TextEncoder().encode(body),
+  };
+}
+
+describe('httpsOutcallConsensus', () => {
+  it('should converge for equal responses', () => {
+    expect(
+      httpsOutcallConsensus([
+        createResponse(),
+        createResponse(),
+        createResponse(),
+      ]),
+    ).toEqual({ matchingResponses: 3, threshold: 3, converged: true });
+  });
+
+  it('should not converge for different headers', () => {
+    expect(
+      httpsOutcallConsensus([
+        createResponse([['date', 'Thu, 01 Jan 2026 00:00:00 GMT']]),
+        createResponse([['date', 'Thu, 01 Jan 2026 00:00:01 GMT']]),
+      ]).converged,
+    ).toBe(false);
+  });
+
+  it('should not converge for different bodies', () => {
+    expect(
+      httpsOutcallConsensus([
+        createResponse([], '{"price":5}'),
+        createResponse([], '{"price":6}'),
+      ]).converged,
+    ).toBe(false);
+  });
+
+  it('should not converge for a mix of success and reject responses', () => {
+    expect(
+      httpsOutcallConsensus([
+        createResponse(),
+        { type: 'reject', statusCode: 2, message: 'Timeout' },
+      ]).converged,
+    ).toBe(false);
+  });
+
+  it('should converge when at most f of 3f + 1 responses differ', () => {
+    const responses = [
+      ...Array.from({ length: 9 }, () => createResponse()),
+      createResponse([], '{"price":6}'),
+      createResponse([], '{"price":7}'),
+      createResponse([], '{"price":8}'),
+      createResponse([], '{"price":9}'),
+    ];
+
+    expect(httpsOutcallConsensus(responses)).toEqual({
+      matchingResponses: 9,
+      threshold: 9,
+      converged: true,
+    });
+  });
+
+  it('should not converge when more than f of 3f + 1 responses differ', () => {
+    const responses = [
+      ...Array.from({ length: 8 }, () => createResponse()),
+      ...Array.from({ length: 5 }, () => createResponse([], '{"price":6}')),
+    ];
+
+    expect(httpsOutcallConsensus(responses)).toEqual({
+      matchingResponses: 8,
+      threshold: 9,
+      converged: false,
+    });
+  });
+});
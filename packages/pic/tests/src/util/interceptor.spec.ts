@@ -0,0 +1,141 @@
+import { Principal } from '@icp-sdk/core/principal';
+import type {
+  ActorCallContext,
+  ActorInterceptor,
+} from '../../../src/pocket-ic-types';
+import {
+  interceptCall,
+  interceptDeferredCall,
+} from '../../../src/util/interceptor';
+
+const context: ActorCallContext = {
+  canisterId: Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai'),
+  method: 'greet',
+  args: ['Alice'],
+  sender: Principal.anonymous(),
+};
+
+function createRecordingInterceptor(name: string, events: string[]) {
+  return {
+    onBeforeCall: jest.fn(() => {
+      events.push(`${name}:before`);
+    }),
+    onAfterCall: jest.fn(() => {
+      events.push(`${name}:after`);
+    }),
+    onError: jest.fn(() => {
+      events.push(`${name}:error`);
+    }),
+  } satisfies ActorInterceptor;
+}
+
+describe('interceptCall', () => {
+  it('should run hooks around a successful call in order', async () => {
+    const events: string[] = [];
+    const first = createRecordingInterceptor('first', events);
+    const second = createRecordingInterceptor('second', events);
+
+    const result = await interceptCall([first, second], context, async () => {
+      events.push('call');
+      return 'Hello, Alice!';
+    });
+
+    expect(result).toBe('Hello, Alice!');
+    expect(events).toEqual([
+      'first:before',
+      'second:before',
+      'call',
+      'first:after',
+      'second:after',
+    ]);
+    expect(first.onBeforeCall).toHaveBeenCalledWith(context);
+    expect(first.onAfterCall).toHaveBeenCalledWith({
+      ...context,
+      result: 'Hello, Alice!',
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('should run onError and rethrow when the call fails', async () => {
+    const events: string[] = [];
+    const interceptor = createRecordingInterceptor('interceptor', events);
+    const error = new Error('Canister trapped');
+
+    await expect(
+      interceptCall([interceptor], context, () => Promise.reject(error)),
+    ).rejects.toBe(error);
+
+    expect(events).toEqual(['interceptor:before', 'interceptor:error']);
+    expect(interceptor.onError).toHaveBeenCalledWith({
+      ...context,
+      error,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('should abort the call when onBeforeCall throws', async () => {
+    const fault = new Error('Injected fault');
+    const call = jest.fn(async () => 'Hello, Alice!');
+
+    await expect(
+      interceptCall(
+        [
+          {
+            onBeforeCall: () => {
+              throw fault;
+            },
+          },
+        ],
+        context,
+        call,
+      ),
+    ).rejects.toBe(fault);
+
+    expect(call).not.toHaveBeenCalled();
+  });
+});
+
+describe('interceptDeferredCall', () => {
+  it('should run onAfterCall when the deferred call is executed', async () => {
+    const events: string[] = [];
+    const interceptor = createRecordingInterceptor('interceptor', events);
+
+    const execute = await interceptDeferredCall(
+      [interceptor],
+      context,
+      async () => {
+        events.push('submit');
+        return async () => {
+          events.push('execute');
+          return 'Hello, Alice!';
+        };
+      },
+    );
+
+    expect(events).toEqual(['interceptor:before', 'submit']);
+
+    const result = await execute();
+
+    expect(result).toBe('Hello, Alice!');
+    expect(events).toEqual([
+      'interceptor:before',
+      'submit',
+      'execute',
+      'interceptor:after',
+    ]);
+  });
+
+  it('should run onError when the submission fails', async () => {
+    const events: string[] = [];
+    const interceptor = createRecordingInterceptor('interceptor', events);
+    const error = new Error('Canister not found');
+
+    await expect(
+      interceptDeferredCall([interceptor], context, () =>
+        Promise.reject(error),
+      ),
+    ).rejects.toBe(error);
+
+    expect(events).toEqual(['interceptor:before', 'interceptor:error']);
+  });
+});
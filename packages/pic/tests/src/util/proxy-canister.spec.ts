@@ -0,0 +1,167 @@
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  decodeProxyCallResponse,
+  encodeProxyCallRequest,
+  proxyCanisterWasm,
+} from '../../../src/util/proxy-canister';
+import { RejectCode } from '../../../src';
+
+// The `WebAssembly` global is not part of the type definitions of Node.js.
+declare const WebAssembly: {
+  instantiate(
+    bytes: Uint8Array,
+    imports: Record<string, Record<string, Function>>,
+  ): Promise<{ instance: { exports: Record<string, unknown> } }>;
+};
+
+interface WasmMemory {
+  buffer: ArrayBuffer;
+}
+
+interface PerformedCall {
+  callee: Uint8Array;
+  method: string;
+  replyFun: number;
+  rejectFun: number;
+  payload: Uint8Array;
+  cycles: bigint;
+}
+
+async function runProxyMethod(arg: Uint8Array): Promise<PerformedCall> {
+  let memory: WasmMemory;
+  const bytes = (offset: number, size: number): Uint8Array =>
+    new Uint8Array(memory.buffer.slice(offset, offset + size));
+  const call: Partial<PerformedCall> = { payload: new Uint8Array() };
+
+  const ic0 = {
+    msg_arg_data_size: () => arg.length,
+    msg_arg_data_copy: (dst: number, offset: number, size: number) => {
+      new Uint8Array(memory.buffer).set(arg.slice(offset, offset + size), dst);
+    },
+    call_new: (
+      calleeSrc: number,
+      calleeSize: number,
+      nameSrc: number,
+      nameSize: number,
+      replyFun: number,
+      _replyEnv: number,
+      rejectFun: number,
+    ) => {
+      call.callee = bytes(calleeSrc, calleeSize);
+      call.method = new TextDecoder().decode(bytes(nameSrc, nameSize));
+      call.replyFun = replyFun;
+      call.rejectFun = rejectFun;
+    },
+    call_data_append: (src: number, size: number) => {
+      call.payload = new Uint8Array([...call.payload!, ...bytes(src, size)]);
+    },
+    call_cycles_add128: (high: bigint, low: bigint) => {
+      call.cycles = (BigInt.asUintN(64, high) << 64n) | BigInt.asUintN(64, low);
+    },
+    call_perform: () => 0,
+    trap: () => {
+      throw new Error('trap');
+    },
+    msg_reply_data_append: () => {},
+    msg_reply: () => {},
+    msg_reject_code: () => 0,
+    msg_reject_msg_size: () => 0,
+    msg_reject_msg_copy: () => {},
+    msg_cycles_refunded128: () => {},
+  };
+
+  const { instance } = await WebAssembly.instantiate(proxyCanisterWasm(), {
+    ic0,
+  });
+  memory = instance.exports.memory as WasmMemory;
+  (instance.exports['canister_update proxy'] as () => void)();
+
+  return call as PerformedCall;
+}
+
+describe('proxy canister', () => {
+  it('should forward the call described by the request', async () => {
+    const canisterId = Principal.fromText('rrkah-fqaaa-aaaaa-aaaaq-cai');
+    const payload = new Uint8Array([68, 73, 68, 76, 0, 0]);
+    const cycles = (5n << 64n) + 1_000_000n;
+
+    const call = await runProxyMethod(
+      encodeProxyCallRequest({
+        canisterId,
+        method: 'deposit_cycles',
+        payload,
+        cycles,
+      }),
+    );
+
+    expect(call).toEqual({
+      callee: canisterId.toUint8Array(),
+      method: 'deposit_cycles',
+      replyFun: 0,
+      rejectFun: 1,
+      payload,
+      cycles,
+    });
+  });
+
+  it('should forward calls to the management canister', async () => {
+    const call = await runProxyMethod(
+      encodeProxyCallRequest({
+        canisterId: Principal.managementCanister(),
+        method: 'raw_rand',
+        payload: new Uint8Array(),
+        cycles: 0n,
+      }),
+    );
+
+    expect(call.callee).toEqual(new Uint8Array());
+    expect(call.method).toBe('raw_rand');
+    expect(call.payload).toEqual(new Uint8Array());
+    expect(call.cycles).toBe(0n);
+  });
+});
+
+describe('decodeProxyCallResponse', () => {
+  function response(rejectCode: number, refunded: bigint, data: Uint8Array) {
+    const bytes = new Uint8Array(17 + data.length);
+    const view = new DataView(bytes.buffer);
+    view.setUint8(0, rejectCode);
+    view.setBigUint64(1, BigInt.asUintN(64, refunded), true);
+    view.setBigUint64(9, refunded >> 64n, true);
+    bytes.set(data, 17);
+
+    return bytes;
+  }
+
+  it('should decode a reply', () => {
+    const body = new Uint8Array([1, 2, 3]);
+
+    expect(decodeProxyCallResponse(response(0, 42n, body))).toEqual({
+      type: 'reply',
+      body,
+      cyclesRefunded: 42n,
+    });
+  });
+
+  it('should decode a reject', () => {
+    const message = new TextEncoder().encode('Canister trapped');
+    const refunded = (1n << 64n) + 7n;
+
+    expect(
+      decodeProxyCallResponse(
+        response(RejectCode.CANISTER_ERROR, refunded, message),
+      ),
+    ).toEqual({
+      type: 'reject',
+      rejectCode: RejectCode.CANISTER_ERROR,
+      rejectMessage: 'Canister trapped',
+      cyclesRefunded: refunded,
+    });
+  });
+
+  it('should throw for a truncated response', () => {
+    expect(() => decodeProxyCallResponse(new Uint8Array(16))).toThrow(
+      'Failed to decode ProxyCallResponse',
+    );
+  });
+});
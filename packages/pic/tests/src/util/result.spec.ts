@@ -0,0 +1,37 @@
+import { Principal } from '@icp-sdk/core/principal';
+import { CanisterRejectError } from '../../../src/error';
+import { RejectCode } from '../../../src/pocket-ic-types';
+import { toCanisterCallResult } from '../../../src/util/result';
+
+describe('toCanisterCallResult', () => {
+  const rejectInfo = {
+    rejectCode: RejectCode.CANISTER_ERROR,
+    errorCode: 503,
+    rejectMessage: 'Canister trapped',
+    certified: true,
+    canisterId: Principal.fromText('rwlgt-iiaaa-aaaaa-aaaaa-cai'),
+    method: 'greet',
+  };
+
+  it('should wrap a successful call in ok', async () => {
+    const result = await toCanisterCallResult(Promise.resolve('Hello'));
+
+    expect(result).toEqual({ ok: 'Hello' });
+  });
+
+  it('should wrap a rejected call in err', async () => {
+    const result = await toCanisterCallResult(
+      Promise.reject(new CanisterRejectError(rejectInfo)),
+    );
+
+    expect(result).toEqual({ err: rejectInfo });
+  });
+
+  it('should rethrow errors that are not canister rejects', async () => {
+    const error = new Error('Connection refused');
+
+    await expect(toCanisterCallResult(Promise.reject(error))).rejects.toBe(
+      error,
+    );
+  });
+});
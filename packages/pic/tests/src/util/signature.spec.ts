@@ -0,0 +1,106 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import {
+  verifyEcdsaSignature,
+  verifySchnorrSignature,
+} from '../../../src/util/signature';
+
+const message = new TextEncoder().encode('Hello, PocketIC!');
+const messageHash = new Uint8Array(32).fill(7);
+
+describe('verifyEcdsaSignature', () => {
+  const privateKey = secp256k1.utils.randomPrivateKey();
+  const publicKey = secp256k1.getPublicKey(privateKey, true);
+  const signature = secp256k1
+    .sign(messageHash, privateKey, { prehash: false })
+    .toCompactRawBytes();
+
+  it('should accept a valid signature', () => {
+    expect(verifyEcdsaSignature({ publicKey, messageHash, signature })).toBe(
+      true,
+    );
+  });
+
+  it('should reject a signature over a different message hash', () => {
+    const otherMessageHash = new Uint8Array(32).fill(8);
+
+    expect(
+      verifyEcdsaSignature({
+        publicKey,
+        messageHash: otherMessageHash,
+        signature,
+      }),
+    ).toBe(false);
+  });
+
+  it('should reject a malformed public key', () => {
+    expect(
+      verifyEcdsaSignature({
+        publicKey: new Uint8Array(33),
+        messageHash,
+        signature,
+      }),
+    ).toBe(false);
+  });
+});
+
+describe('verifySchnorrSignature', () => {
+  it('should accept a valid BIP340 signature with a SEC1 public key', () => {
+    const privateKey = schnorr.utils.randomPrivateKey();
+    const publicKey = secp256k1.getPublicKey(privateKey, true);
+    const signature = schnorr.sign(message, privateKey);
+
+    expect(
+      verifySchnorrSignature({
+        algorithm: 'bip340secp256k1',
+        publicKey,
+        message,
+        signature,
+      }),
+    ).toBe(true);
+  });
+
+  it('should accept a valid BIP340 signature with an x-only public key', () => {
+    const privateKey = schnorr.utils.randomPrivateKey();
+    const publicKey = schnorr.getPublicKey(privateKey);
+    const signature = schnorr.sign(message, privateKey);
+
+    expect(
+      verifySchnorrSignature({
+        algorithm: 'bip340secp256k1',
+        publicKey,
+        message,
+        signature,
+      }),
+    ).toBe(true);
+  });
+
+  it('should accept a valid Ed25519 signature', () => {
+    const privateKey = ed25519.utils.randomPrivateKey();
+    const publicKey = ed25519.getPublicKey(privateKey);
+    const signature = ed25519.sign(message, privateKey);
+
+    expect(
+      verifySchnorrSignature({
+        algorithm: 'ed25519',
+        publicKey,
+        message,
+        signature,
+      }),
+    ).toBe(true);
+  });
+
+  it('should reject a signature from a different key', () => {
+    const publicKey = ed25519.getPublicKey(ed25519.utils.randomPrivateKey());
+    const signature = ed25519.sign(message, ed25519.utils.randomPrivateKey());
+
+    expect(
+      verifySchnorrSignature({
+        algorithm: 'ed25519',
+        publicKey,
+        message,
+        signature,
+      }),
+    ).toBe(false);
+  });
+});
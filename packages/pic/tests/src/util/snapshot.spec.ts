@@ -0,0 +1,101 @@
+import { resolve } from 'node:path';
+import {
+  decodeSnapshotMetadata,
+  encodeSnapshotMetadata,
+  snapshotDirPaths,
+  snapshotWasmChunkPath,
+} from '../../../src/util/snapshot';
+import type { ReadCanisterSnapshotMetadataResponse } from '../../../src/management-canister';
+
+function createMetadata(): ReadCanisterSnapshotMetadataResponse {
+  return {
+    source: { taken_from_canister: null },
+    taken_at_timestamp: 1_700_000_000_000_000_000n,
+    wasm_module_size: 123_456n,
+    exported_globals: [
+      { i32: -1 },
+      { i64: 9_007_199_254_740_993n },
+      { f32: 1.5 },
+      { f64: -2.25 },
+      { v128: 2n ** 100n },
+    ],
+    wasm_memory_size: 65_536n,
+    stable_memory_size: 0n,
+    wasm_chunk_store: [{ hash: new Uint8Array([0xde, 0xad, 0xbe, 0xef]) }],
+    canister_version: 3n,
+    certified_data: new Uint8Array([1, 2, 3]),
+    global_timer: [{ active: 1_700_000_001_000_000_000n }],
+    on_low_wasm_memory_hook_status: [{ condition_not_satisfied: null }],
+  };
+}
+
+describe('encodeSnapshotMetadata', () => {
+  it('should encode binary fields as hex', () => {
+    const json = JSON.parse(encodeSnapshotMetadata(createMetadata()));
+
+    expect(json.source).toBe('taken_from_canister');
+    expect(json.certified_data).toBe('010203');
+    expect(json.wasm_chunk_store).toEqual(['deadbeef']);
+  });
+
+  it('should encode empty options as null', () => {
+    const json = JSON.parse(
+      encodeSnapshotMetadata({
+        ...createMetadata(),
+        global_timer: [],
+        on_low_wasm_memory_hook_status: [],
+      }),
+    );
+
+    expect(json.global_timer).toBeNull();
+    expect(json.on_low_wasm_memory_hook_status).toBeNull();
+  });
+});
+
+describe('decodeSnapshotMetadata', () => {
+  it('should round trip encoded metadata', () => {
+    const metadata = createMetadata();
+
+    const decoded = decodeSnapshotMetadata(encodeSnapshotMetadata(metadata));
+
+    expect(decoded).toEqual(metadata);
+  });
+
+  it('should round trip metadata without options', () => {
+    const metadata: ReadCanisterSnapshotMetadataResponse = {
+      ...createMetadata(),
+      source: { metadata_upload: null },
+      exported_globals: [],
+      wasm_chunk_store: [],
+      global_timer: [],
+      on_low_wasm_memory_hook_status: [],
+    };
+
+    const decoded = decodeSnapshotMetadata(encodeSnapshotMetadata(metadata));
+
+    expect(decoded).toEqual(metadata);
+  });
+});
+
+describe('snapshotDirPaths', () => {
+  it('should resolve all snapshot files within the snapshot directory', () => {
+    const paths = snapshotDirPaths('/tmp/snapshot');
+
+    expect(paths).toEqual({
+      metadata: resolve('/tmp/snapshot', 'metadata.json'),
+      wasmModule: resolve('/tmp/snapshot', 'wasm_module.bin'),
+      wasmMemory: resolve('/tmp/snapshot', 'wasm_memory.bin'),
+      stableMemory: resolve('/tmp/snapshot', 'stable_memory.bin'),
+      wasmChunkStore: resolve('/tmp/snapshot', 'wasm_chunk_store'),
+    });
+  });
+
+  it('should name wasm chunks by their hex encoded hash', () => {
+    const path = snapshotWasmChunkPath(
+      '/tmp/snapshot/wasm_chunk_store',
+      new Uint8Array([0x0a, 0xff]),
+    );
+
+    expect(path).toBe(resolve('/tmp/snapshot/wasm_chunk_store', '0aff'));
+  });
+});
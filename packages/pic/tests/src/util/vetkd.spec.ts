@@ -0,0 +1,165 @@
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { bytesToNumberBE, hexToBytes } from '@noble/curves/utils';
+import { VetKeyVerificationError } from '../../../src/error';
+import {
+  decryptVetKey,
+  generateVetKdTransportKey,
+} from '../../../src/util/vetkd';
+
+const { G1, G2 } = bls12_381;
+
+const AUGMENTED_HASH_TO_G1_DST = 'BLS_SIG_BLS12381G1_XMD:SHA-256_SSWU_RO_AUG_';
+
+function randomScalar(): bigint {
+  return bytesToNumberBE(bls12_381.utils.randomSecretKey());
+}
+
+function encryptVetKey(
+  masterSecretKey: bigint,
+  transportPublicKey: Uint8Array,
+  input: Uint8Array,
+): { derivedPublicKey: Uint8Array; encryptedKey: Uint8Array } {
+  const derivedPublicKey =
+    G2.Point.BASE.multiply(masterSecretKey).toBytes(true);
+  const message = bls12_381.shortSignatures.hash(
+    new Uint8Array([...derivedPublicKey, ...input]),
+    AUGMENTED_HASH_TO_G1_DST,
+  );
+  const vetKey = message.multiply(masterSecretKey);
+
+  const r = randomScalar();
+  const c1 = G1.Point.BASE.multiply(r);
+  const c2 = G2.Point.BASE.multiply(r);
+  const c3 = G1.Point.fromBytes(transportPublicKey).multiply(r).add(vetKey);
+
+  return {
+    derivedPublicKey,
+    encryptedKey: new Uint8Array([
+      ...c1.toBytes(true),
+      ...c2.toBytes(true),
+      ...c3.toBytes(true),
+    ]),
+  };
+}
+
+describe('generateVetKdTransportKey', () => {
+  it('should generate a compressed G1 public key', () => {
+    const { secretKey, publicKey } = generateVetKdTransportKey();
+
+    expect(secretKey.byteLength).toBe(32);
+    expect(publicKey.byteLength).toBe(48);
+  });
+
+  it('should generate a different key pair every time', () => {
+    const first = generateVetKdTransportKey();
+    const second = generateVetKdTransportKey();
+
+    expect(first.secretKey).not.toEqual(second.secretKey);
+  });
+});
+
+describe('decryptVetKey', () => {
+  const masterSecretKey = randomScalar();
+  const input = new TextEncoder().encode('alice');
+  const transportKey = generateVetKdTransportKey();
+  const { derivedPublicKey, encryptedKey } = encryptVetKey(
+    masterSecretKey,
+    transportKey.publicKey,
+    input,
+  );
+
+  it('should decrypt a key encrypted for the transport key', () => {
+    const vetKey = decryptVetKey({
+      encryptedKey,
+      transportSecretKey: transportKey.secretKey,
+      derivedPublicKey,
+      input,
+    });
+
+    expect(vetKey.byteLength).toBe(48);
+  });
+
+  it('should decrypt the same key for different transport keys', () => {
+    const otherTransportKey = generateVetKdTransportKey();
+    const other = encryptVetKey(
+      masterSecretKey,
+      otherTransportKey.publicKey,
+      input,
+    );
+
+    const vetKey = decryptVetKey({
+      encryptedKey,
+      transportSecretKey: transportKey.secretKey,
+      derivedPublicKey,
+      input,
+    });
+    const otherVetKey = decryptVetKey({
+      encryptedKey: other.encryptedKey,
+      transportSecretKey: otherTransportKey.secretKey,
+      derivedPublicKey,
+      input,
+    });
+
+    expect(otherVetKey).toEqual(vetKey);
+  });
+
+  it('should throw for a different transport secret key', () => {
+    expect(() =>
+      decryptVetKey({
+        encryptedKey,
+        transportSecretKey: generateVetKdTransportKey().secretKey,
+        derivedPublicKey,
+        input,
+      }),
+    ).toThrow(VetKeyVerificationError);
+  });
+
+  it('should throw for a different input', () => {
+    expect(() =>
+      decryptVetKey({
+        encryptedKey,
+        transportSecretKey: transportKey.secretKey,
+        derivedPublicKey,
+        input: new TextEncoder().encode('bob'),
+      }),
+    ).toThrow(VetKeyVerificationError);
+  });
+
+  // Encrypted with fixed keys and randomness, and cross-checked with
+  // `EncryptedVetKey.decryptAndVerify` of @dfinity/vetkeys.
+  it('should decrypt a known answer vector', () => {
+    const vetKey = decryptVetKey({
+      encryptedKey: hexToBytes(
+        '99311b1266191b6b1e8d12a2976c635bc8e93521bf6f3730c596515944b24740761f21e5bc0ef64c4ffe50f80bd6ad94' +
+          'ab325648e2c27290197a05fd5a30e8ffd09aaf2adc89b9a0480771685c57ca9e4b6454e11a45237e7b9c341221706ad9' +
+          '180acf1b205408ac871af7bd435f9b9171cd033f0fad9243440900e4c5f134c275e9f172cae316688ecd298b6ad2f6eb' +
+          '8552c67703e42170bfd29e41938ea998f54915dea6e2d5f23f5481903511da1947b176076710fb01a7807e9346ae43c4',
+      ),
+      transportSecretKey: hexToBytes(
+        '0363548703e828c5e67154a7124a3b49ac5ae5f245a3333a1888b2bc8ed09042',
+      ),
+      derivedPublicKey: hexToBytes(
+        '9627c6fe72d9a327c27707a1a5802617d2a7790e263b27c62b91f38c4c7538f39c47f82dc1b5c5862bd8c19384c7ed5e' +
+          '152889a9edc42f86e2e3399013b64ab45efa2ceb2b1271e3a4b25b28ea7f389b2146792b6a07d9112a2c290f52ccdc59',
+      ),
+      input: new TextEncoder().encode('alice'),
+    });
+
+    expect(vetKey).toEqual(
+      hexToBytes(
+        '81622815d6512e4d3dfa50a843cea40fcf6a46837c9a1117333ff4e3260aeddd5afa92bfd271c55be00211c2b2421457',
+      ),
+    );
+  });
+
+  it('should throw for a malformed encrypted key', () => {
+    expect(() =>
+      decryptVetKey({
+        encryptedKey: encryptedKey.subarray(1),
+        transportSecretKey: transportKey.secretKey,
+        derivedPublicKey,
+        input,
+      }),
+    ).toThrow(VetKeyVerificationError);
+  });
+});
@@ -0,0 +1,46 @@
+import { PocketIc, SubnetStateType } from '../../src';
+
+describe('vetKeys', () => {
+  let pic: PocketIc;
+  const input = new TextEncoder().encode('alice');
+  const context = new TextEncoder().encode('notes');
+
+  beforeEach(async () => {
+    pic = await PocketIc.create(process.env.PIC_URL, {
+      fiduciary: { state: { type: SubnetStateType.New } },
+    });
+  });
+
+  afterEach(async () => {
+    await pic.tearDown();
+  });
+
+  it('should derive the same vetKey for the same input', async () => {
+    const first = await pic.deriveVetKey({ input, context });
+    const second = await pic.deriveVetKey({ input, context });
+
+    expect(first.vetKey).toHaveLength(48);
+    expect(second.vetKey).toEqual(first.vetKey);
+  });
+
+  it('should derive different vetKeys for different inputs', async () => {
+    const alice = await pic.deriveVetKey({ input, context });
+    const bob = await pic.deriveVetKey({
+      input: new TextEncoder().encode('bob'),
+      context,
+    });
+
+    expect(bob.vetKey).not.toEqual(alice.vetKey);
+    expect(bob.derivedPublicKey).toEqual(alice.derivedPublicKey);
+  });
+
+  it('should get the derived public key of a canister', async () => {
+    const canisterId = await pic.createCanister();
+
+    const publicKey = await pic.vetKdPublicKey({ canisterId, context });
+    const proxyPublicKey = await pic.vetKdPublicKey({ context });
+
+    expect(publicKey).toHaveLength(96);
+    expect(publicKey).not.toEqual(proxyPublicKey);
+  });
+});
@@ -0,0 +1,152 @@
+import { VirtualClock } from '../../src';
+import { PocketIcClient } from '../../src/pocket-ic-client';
+import { SetTimeRequest } from '../../src/pocket-ic-client-types';
+import { createFakeClient } from './util';
+
+const initialTime = Date.parse('2026-01-01T00:00:00.000Z');
+const initialTimeNanos = BigInt(initialTime) * 1_000_000n;
+
+function createTimeClient(): {
+  client: PocketIcClient;
+  getInstanceTime: () => bigint;
+  setInstanceTime: (time: bigint) => void;
+  getWrittenTimes: () => bigint[];
+} {
+  let instanceTime = initialTimeNanos;
+  const writtenTimes: bigint[] = [];
+
+  const client = createFakeClient({
+    async getTime() {
+      return { nanosSinceEpoch: instanceTime };
+    },
+    async setCertifiedTime(req: SetTimeRequest) {
+      if (!('nanosSinceEpoch' in req)) {
+        throw new Error('Expected the time in nanoseconds');
+      }
+
+      if (req.nanosSinceEpoch < instanceTime) {
+        throw new Error('Cannot set time into the past');
+      }
+
+      writtenTimes.push(req.nanosSinceEpoch);
+      instanceTime = req.nanosSinceEpoch;
+    },
+  });
+
+  return {
+    client: client,
+    getInstanceTime: () => instanceTime,
+    setInstanceTime: time => {
+      instanceTime = time;
+    },
+    getWrittenTimes: () => writtenTimes,
+  };
+}
+
+describe('VirtualClock', () => {
+  let timeClient: ReturnType<typeof createTimeClient>;
+  let clock: VirtualClock;
+
+  beforeEach(() => {
+    timeClient = createTimeClient();
+    clock = new VirtualClock(timeClient.client);
+  });
+
+  afterEach(() => {
+    clock.unbindFakeTimers();
+    jest.useRealTimers();
+  });
+
+  it('should advance the instance time without fake timers', async () => {
+    await expect(clock.advance(1_000)).resolves.toBe(initialTime + 1_000);
+
+    expect(timeClient.getInstanceTime()).toBe(
+      initialTimeNanos + 1_000_000_000n,
+    );
+    await expect(clock.now()).resolves.toBe(initialTime + 1_000);
+  });
+
+  it('should keep the sub-millisecond part of the instance time', async () => {
+    // ticking advances the instance time by a few nanoseconds
+    timeClient.setInstanceTime(initialTimeNanos + 3n);
+
+    await clock.advance(1_000);
+
+    expect(timeClient.getInstanceTime()).toBe(
+      initialTimeNanos + 1_000_000_003n,
+    );
+  });
+
+  it('should advance the instance time by fractions of a millisecond', async () => {
+    await clock.advance(1.5);
+
+    expect(timeClient.getInstanceTime()).toBe(initialTimeNanos + 1_500_000n);
+  });
+
+  it('should set the fake system time when binding fake timers', async () => {
+    jest.useFakeTimers({ now: 0 });
+
+    await clock.bindFakeTimers(jest);
+
+    expect(Date.now()).toBe(initialTime);
+  });
+
+  it('should advance the fake timers along with the instance', async () => {
+    jest.useFakeTimers();
+    await clock.bindFakeTimers(jest);
+    const callback = jest.fn();
+    setTimeout(callback, 5_000);
+
+    await clock.advance(5_000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(Date.now()).toBe(initialTime + 5_000);
+    expect(timeClient.getInstanceTime()).toBe(
+      initialTimeNanos + 5_000_000_000n,
+    );
+  });
+
+  it('should advance the instance along with the fake timers', async () => {
+    jest.useFakeTimers();
+    await clock.bindFakeTimers(jest);
+
+    jest.advanceTimersByTime(2_000);
+
+    await expect(clock.now()).resolves.toBe(initialTime + 2_000);
+    await expect(clock.now()).resolves.toBe(initialTime + 2_000);
+  });
+
+  it('should pin the fake timers to the instance time when frozen', async () => {
+    jest.useFakeTimers();
+    await clock.bindFakeTimers(jest);
+    timeClient.setInstanceTime(initialTimeNanos + 3_000_000_000n);
+
+    await expect(clock.freeze()).resolves.toBe(initialTime + 3_000);
+
+    expect(Date.now()).toBe(initialTime + 3_000);
+  });
+
+  it('should never write a time earlier than the instance time', async () => {
+    jest.useFakeTimers();
+    await clock.bindFakeTimers(jest);
+    // the fake timers are behind the instance after a tick
+    timeClient.setInstanceTime(initialTimeNanos + 7n);
+
+    await clock.freeze();
+
+    expect(timeClient.getWrittenTimes()).toEqual([
+      initialTimeNanos,
+      initialTimeNanos + 7n,
+    ]);
+  });
+
+  it('should stop syncing after unbinding fake timers', async () => {
+    jest.useFakeTimers();
+    await clock.bindFakeTimers(jest);
+    clock.unbindFakeTimers();
+
+    jest.advanceTimersByTime(2_000);
+
+    await expect(clock.now()).resolves.toBe(initialTime);
+  });
+});
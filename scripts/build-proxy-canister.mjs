@@ -0,0 +1,28 @@
+// Compiles the proxy canister and embeds the WASM module in the pic package.
+// Usage: pnpm run build:proxy-canister
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import wabt from 'wabt';
+
+const SRC_DIR = resolve(import.meta.dirname, '..', 'packages', 'pic', 'src');
+const WAT_PATH = resolve(SRC_DIR, 'proxy-canister.wat');
+const WASM_MODULE_PATH = resolve(SRC_DIR, 'proxy-canister-wasm.ts');
+
+const { parseWat } = await wabt();
+const wat = await readFile(WAT_PATH, 'utf-8');
+
+const module = parseWat('proxy-canister.wat', wat);
+module.validate();
+const { buffer } = module.toBinary({});
+module.destroy();
+
+await writeFile(
+  WASM_MODULE_PATH,
+  [
+    '// Generated by scripts/build-proxy-canister.mjs from proxy-canister.wat, do not edit.',
+    '',
+    `export const PROXY_CANISTER_WASM = '${Buffer.from(buffer).toString('base64')}';`,
+    '',
+  ].join('\n'),
+);